@@ -0,0 +1,44 @@
+/**
+ * OpenFDA 510(k) Proxy Route
+ *
+ * GET /api/fda/510k?search=...&limit=...&skip=...&count=...
+ * Accepts the OpenFDA 510(k) query parameters and returns the OpenFDA body
+ * unchanged (meta included). The API key stays on the server and responses
+ * are shared through the proxy cache.
+ *
+ * Response headers:
+ * - X-Cache: HIT or MISS
+ * - Age: seconds since the response was fetched upstream
+ * - X-OpenFDA-Last-Updated: `meta.last_updated` of the dataset
+ * - X-RateLimit-Limit / X-RateLimit-Remaining: the server's daily OpenFDA
+ *   budget, shared by all clients
+ * - Retry-After: seconds until the budget allows another request (429 only)
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { normalizeProxyQuery, openFDAProxy } from "@/lib/api/fda-proxy";
+
+export async function GET(request: NextRequest) {
+  const query = normalizeProxyQuery(request.nextUrl.searchParams);
+  const result = await openFDAProxy.get(query);
+
+  const rateLimit = openFDAProxy.getRateLimitStatus();
+  const daily = rateLimit.windows[rateLimit.windows.length - 1];
+  const headers = new Headers({
+    "X-Cache": result.cache,
+    Age: String(result.age),
+    "X-RateLimit-Limit": String(daily.limit),
+    "X-RateLimit-Remaining": String(daily.remaining),
+  });
+
+  if (result.retryAfter !== undefined) {
+    headers.set("Retry-After", String(result.retryAfter));
+  }
+
+  const body = result.body as { meta?: { last_updated?: unknown } } | null;
+  if (typeof body?.meta?.last_updated === "string") {
+    headers.set("X-OpenFDA-Last-Updated", body.meta.last_updated);
+  }
+
+  return NextResponse.json(result.body, { status: result.status, headers });
+}
@@ -0,0 +1,31 @@
+/**
+ * Device Not Found Page
+ *
+ * Shown for unknown or malformed K-numbers under /devices
+ */
+
+import Link from "next/link";
+import { SearchX } from "lucide-react";
+
+export default function DeviceNotFound() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 p-6">
+      <div className="max-w-md text-center bg-white/70 backdrop-blur-sm rounded-xl border border-white/50 shadow-lg p-8">
+        <SearchX className="w-12 h-12 text-slate-400 mx-auto mb-4" />
+        <h1 className="text-xl font-semibold text-slate-900 mb-2">
+          Device not found
+        </h1>
+        <p className="text-sm text-slate-600 mb-6">
+          No 510(k) clearance matches this K-number. K-numbers look like
+          K201234.
+        </p>
+        <Link
+          href="/"
+          className="inline-block px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700"
+        >
+          Back to dashboard
+        </Link>
+      </div>
+    </div>
+  );
+}
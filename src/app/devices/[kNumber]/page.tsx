@@ -0,0 +1,72 @@
+/**
+ * Device Detail Page (Server Component)
+ *
+ * Server-rendered page per K-number, e.g. /devices/K201234
+ * Resolves the device through the data provider (mock, API or hybrid) and
+ * delegates rendering to DeviceDetailTemplate
+ */
+
+import { cache } from "react";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { DeviceDetailTemplate } from "@/components/templates/DeviceDetailTemplate";
+import { dataProvider } from "@/lib/data/data-provider";
+
+interface DevicePageProps {
+  params: Promise<{ kNumber: string }>;
+}
+
+// 510(k) numbers: "K" followed by six digits
+const K_NUMBER_PATTERN = /^K\d{6}$/;
+
+/**
+ * Normalize a route param to a K-number, or null when malformed
+ *
+ * Next has already decoded the param; decoding again would throw on
+ * values like "%" (from /devices/%25).
+ */
+const parseKNumber = (value: string): string | null => {
+  const kNumber = value.trim().toUpperCase();
+  return K_NUMBER_PATTERN.test(kNumber) ? kNumber : null;
+};
+
+// Shared between generateMetadata and the page within one request
+const getDevice = cache((kNumber: string) =>
+  dataProvider.getDeviceByKNumber(kNumber),
+);
+
+export async function generateMetadata({
+  params,
+}: DevicePageProps): Promise<Metadata> {
+  const kNumber = parseKNumber((await params).kNumber);
+  const device = kNumber ? await getDevice(kNumber) : null;
+
+  return {
+    title: device
+      ? `${device.kNumber} · ${device.deviceName}`
+      : "Device not found",
+  };
+}
+
+export default async function DevicePage({ params }: DevicePageProps) {
+  const kNumber = parseKNumber((await params).kNumber);
+  if (!kNumber) {
+    notFound();
+  }
+
+  const device = await getDevice(kNumber);
+  if (!device) {
+    notFound();
+  }
+
+  const { predicates, dependents } =
+    await dataProvider.getRelatedDevices(kNumber);
+
+  return (
+    <DeviceDetailTemplate
+      device={device}
+      predicates={predicates}
+      dependents={dependents}
+    />
+  );
+}
@@ -10,24 +10,48 @@
 
 import React from "react";
 import { Handle, Position, NodeProps } from "@xyflow/react";
-import type { FDADevice } from "@/types/fda";
+import type { FDADevice, DeviceProvenance, ProductClass } from "@/types/fda";
+import { formatProductClass } from "@/lib/validation/product-class";
 
 export interface DeviceNodeData {
   device: FDADevice;
   label: string;
   isSelected: boolean;
+  /** Highlight color (e.g. predicate path), drawn as border and glow */
+  colorOverride?: string;
   metadata: {
     childrenCount: number;
     predicateCount: number;
     hierarchyDepth: number;
+    inCycle?: boolean;
   };
 }
 
-export const DeviceNode: React.FC<NodeProps> = ({ data, selected }) => {
-  const { device, label, metadata } = data as unknown as DeviceNodeData;
+// Badge labels for merged data sources (hybrid mode) and internal devices
+const PROVENANCE_BADGES: Record<
+  DeviceProvenance,
+  { label: string; title: string }
+> = {
+  api: { label: "API", title: "Fetched from the FDA API" },
+  mock: { label: "LOCAL", title: "Filled from the local dataset" },
+  cache: { label: "CACHE", title: "Served from the offline cache" },
+  internal: {
+    label: "INTERNAL",
+    title: "Imported from an internal list - not in OpenFDA",
+  },
+};
+
+export const DeviceNode: React.FC<NodeProps> = ({
+  data,
+  selected,
+  sourcePosition = Position.Bottom,
+  targetPosition = Position.Top,
+}) => {
+  const { device, label, metadata, colorOverride } =
+    data as unknown as DeviceNodeData;
 
   // Color scheme based on device classification
-  const getNodeColor = (productClass: "I" | "II" | "III") => {
+  const getNodeColor = (productClass: ProductClass) => {
     switch (productClass) {
       case "I":
         return {
@@ -57,23 +81,43 @@ export const DeviceNode: React.FC<NodeProps> = ({ data, selected }) => {
   };
 
   const colors = getNodeColor(device.productClass);
+  const provenanceBadge = device.provenance
+    ? PROVENANCE_BADGES[device.provenance]
+    : null;
+  // Internal devices get a dashed border on top of their badge
+  const borderStyle = device.provenance === "internal" ? "dashed" : "solid";
 
   return (
     <div
-      className="px-3 py-2 shadow-md rounded-lg min-w-[180px] text-center transition-all duration-200 hover:shadow-lg"
+      className="relative px-3 py-2 shadow-md rounded-lg min-w-[180px] text-center transition-all duration-200 hover:shadow-lg"
       style={{
         backgroundColor: colors.bg,
         color: colors.text,
-        border: selected ? "3px solid #3b82f6" : `2px solid ${colors.border}`,
+        border: selected
+          ? `3px ${borderStyle} #3b82f6`
+          : colorOverride
+            ? `3px ${borderStyle} ${colorOverride}`
+            : `2px ${borderStyle} ${colors.border}`,
+        boxShadow: colorOverride ? `0 0 0 3px ${colorOverride}55` : undefined,
       }}
     >
       {/* Input handle for incoming edges */}
       <Handle
         type="target"
-        position={Position.Top}
+        position={targetPosition}
         className="w-2 h-2 !bg-gray-400 border-2 border-white"
       />
 
+      {/* Provenance badge (hybrid mode and internal devices) */}
+      {provenanceBadge && (
+        <span
+          className="absolute -top-2 -right-2 px-1.5 py-0.5 rounded-full bg-white text-gray-700 border border-gray-300 text-[9px] font-semibold shadow-sm"
+          title={provenanceBadge.title}
+        >
+          {provenanceBadge.label}
+        </span>
+      )}
+
       {/* Node content */}
       <div className="space-y-1">
         <div className="font-semibold text-xs truncate" title={label}>
@@ -82,11 +126,22 @@ export const DeviceNode: React.FC<NodeProps> = ({ data, selected }) => {
 
         <div className="text-xs opacity-90">K{device.kNumber}</div>
 
-        <div className="text-xs opacity-75">Class {device.productClass}</div>
+        <div className="text-xs opacity-75">
+          {formatProductClass(device.productClass)}
+        </div>
 
         {/* Metadata indicators */}
         <div className="flex justify-between text-xs opacity-75 mt-2 pt-1 border-t border-white/20">
           <span title="Predicate devices">📋 {metadata.predicateCount}</span>
+          <span
+            title={
+              metadata.inCycle
+                ? "Part of a predicate cycle"
+                : "Predicate generations above this device"
+            }
+          >
+            {metadata.inCycle ? "⟳" : "↧"} {metadata.hierarchyDepth}
+          </span>
           <span title="Child devices">🔗 {metadata.childrenCount}</span>
         </div>
       </div>
@@ -94,7 +149,7 @@ export const DeviceNode: React.FC<NodeProps> = ({ data, selected }) => {
       {/* Output handle for outgoing edges */}
       <Handle
         type="source"
-        position={Position.Bottom}
+        position={sourcePosition}
         className="w-2 h-2 !bg-gray-400 border-2 border-white"
       />
     </div>
@@ -0,0 +1,89 @@
+/**
+ * BarList Component
+ *
+ * Horizontal bar chart of term/count buckets with selectable rows
+ * Selected rows are highlighted; clicking toggles the selection
+ *
+ * Used in: AnalyticsDashboard organism
+ * Dependencies: FacetBucket type
+ */
+
+"use client";
+
+import type { FacetBucket } from "@/lib/search/device-filters";
+
+interface BarListProps {
+  /** Buckets to render, in display order */
+  buckets: FacetBucket[];
+  /** Values currently selected (highlighted) */
+  selectedValues?: string[];
+  /** Called with the bucket value when a row is clicked */
+  onSelect?: (value: string) => void;
+  /** Optional label formatter */
+  formatLabel?: (value: string) => string;
+  /** Tailwind background class for bars, or a per-value resolver */
+  barClassName?: string | ((value: string) => string);
+  /** Text shown when there are no buckets */
+  emptyText?: string;
+}
+
+export default function BarList({
+  buckets,
+  selectedValues = [],
+  onSelect,
+  formatLabel,
+  barClassName = "bg-blue-500",
+  emptyText = "No data",
+}: BarListProps) {
+  if (buckets.length === 0) {
+    return <p className="text-sm text-slate-500 italic">{emptyText}</p>;
+  }
+
+  const maxCount = Math.max(...buckets.map((bucket) => bucket.count));
+  const hasSelection = selectedValues.length > 0;
+
+  return (
+    <ul className="space-y-1.5">
+      {buckets.map((bucket) => {
+        const isSelected = selectedValues.includes(bucket.value);
+        const label = formatLabel ? formatLabel(bucket.value) : bucket.value;
+        const barClass =
+          typeof barClassName === "function"
+            ? barClassName(bucket.value)
+            : barClassName;
+
+        return (
+          <li key={bucket.value}>
+            <button
+              type="button"
+              onClick={() => onSelect?.(bucket.value)}
+              disabled={!onSelect}
+              aria-pressed={isSelected}
+              className={`w-full text-left rounded px-1 py-0.5 transition-opacity ${
+                hasSelection && !isSelected ? "opacity-40" : ""
+              } ${onSelect ? "hover:bg-slate-100 cursor-pointer" : ""}`}
+            >
+              <div className="flex items-center justify-between text-xs mb-0.5">
+                <span
+                  className={`truncate ${isSelected ? "font-semibold text-slate-900" : "text-slate-700"}`}
+                  title={label}
+                >
+                  {label}
+                </span>
+                <span className="ml-2 text-slate-500 tabular-nums">
+                  {bucket.count}
+                </span>
+              </div>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${barClass}`}
+                  style={{ width: `${(bucket.count / maxCount) * 100}%` }}
+                />
+              </div>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,86 @@
+/**
+ * ClearanceHistogram Component
+ *
+ * Vertical bar histogram of clearances per year
+ * Clicking a bar toggles that year as a selection
+ *
+ * Used in: AnalyticsDashboard organism
+ * Dependencies: FacetBucket type
+ */
+
+"use client";
+
+import type { FacetBucket } from "@/lib/search/device-filters";
+
+interface ClearanceHistogramProps {
+  /** Year buckets, oldest first */
+  buckets: FacetBucket[];
+  /** Years currently selected (highlighted) */
+  selectedYears?: string[];
+  /** Called with the year when a bar is clicked */
+  onSelect?: (year: string) => void;
+  /** Chart height in pixels */
+  height?: number;
+}
+
+export default function ClearanceHistogram({
+  buckets,
+  selectedYears = [],
+  onSelect,
+  height = 160,
+}: ClearanceHistogramProps) {
+  if (buckets.length === 0) {
+    return <p className="text-sm text-slate-500 italic">No clearances</p>;
+  }
+
+  const maxCount = Math.max(...buckets.map((bucket) => bucket.count));
+  const hasSelection = selectedYears.length > 0;
+
+  // Label at most ~8 years to keep the axis readable
+  const labelEvery = Math.max(1, Math.ceil(buckets.length / 8));
+
+  return (
+    <div>
+      <div className="flex items-end gap-px" style={{ height }}>
+        {buckets.map((bucket) => {
+          const isSelected = selectedYears.includes(bucket.value);
+
+          return (
+            <button
+              key={bucket.value}
+              type="button"
+              onClick={() => onSelect?.(bucket.value)}
+              disabled={!onSelect || bucket.count === 0}
+              aria-pressed={isSelected}
+              title={`${bucket.value}: ${bucket.count} clearances`}
+              className="flex-1 h-full flex items-end group"
+            >
+              <div
+                className={`w-full rounded-t transition-colors ${
+                  isSelected
+                    ? "bg-indigo-600"
+                    : hasSelection
+                      ? "bg-indigo-200 group-hover:bg-indigo-300"
+                      : "bg-indigo-400 group-hover:bg-indigo-500"
+                }`}
+                style={{
+                  height: `${(bucket.count / maxCount) * 100}%`,
+                  minHeight: bucket.count > 0 ? 2 : 0,
+                }}
+              />
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Year axis */}
+      <div className="flex gap-px mt-1 text-[10px] text-slate-500">
+        {buckets.map((bucket, index) => (
+          <div key={bucket.value} className="flex-1 text-center">
+            {index % labelEvery === 0 ? bucket.value : ""}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,15 @@
 import { useState, useEffect } from "react";
 import { dataProvider } from "@/lib/data/data-provider";
 import { validateEnvironment } from "@/lib/config/environment";
+import { useFDADevices } from "@/lib/hooks/use-fda-devices";
+import { hasValidationFindings } from "@/lib/validation/openfda-schema";
+import {
+  HttpError,
+  NetworkError,
+  RateLimitError,
+  SchemaValidationError,
+  TimeoutError,
+} from "@/lib/api/errors";
 
 interface DataSourceInfo {
   description: string;
@@ -30,6 +39,24 @@ interface DataSourceInfo {
   };
 }
 
+/**
+ * Short reason the API data couldn't be used
+ */
+const describeSourceError = (error: Error): string => {
+  if (error instanceof RateLimitError) {
+    return error.resetTime
+      ? `API rate limit reached until ${error.resetTime.toLocaleTimeString()}`
+      : "API rate limit reached";
+  }
+  if (error instanceof TimeoutError) return "API request timed out";
+  if (error instanceof NetworkError) return "API unreachable (network error)";
+  if (error instanceof SchemaValidationError) {
+    return "API response failed validation";
+  }
+  if (error instanceof HttpError) return `API error (HTTP ${error.status})`;
+  return "API request failed";
+};
+
 /**
  * Data Source Indicator Component
  *
@@ -39,6 +66,9 @@ export const DataSourceIndicator = () => {
   const [sourceInfo, setSourceInfo] = useState<DataSourceInfo | null>(null);
   const [isVisible, setIsVisible] = useState(false);
 
+  // Actual source of the loaded devices (may differ from configured mode)
+  const { source, lastUpdated, validation, sourceError } = useFDADevices();
+
   useEffect(() => {
     // Validate environment and log configuration
     validateEnvironment();
@@ -56,7 +86,13 @@ export const DataSourceIndicator = () => {
     return null;
   }
 
+  const isFromCache = source === "cache";
+
   const getSourceIcon = () => {
+    if (isFromCache) {
+      return "📦";
+    }
+
     switch (sourceInfo.mode) {
       case "mock":
         return "🧪";
@@ -70,6 +106,10 @@ export const DataSourceIndicator = () => {
   };
 
   const getSourceColor = () => {
+    if (isFromCache) {
+      return "bg-slate-100 text-slate-800 border-slate-200";
+    }
+
     switch (sourceInfo.mode) {
       case "mock":
         return "bg-blue-100 text-blue-800 border-blue-200";
@@ -94,9 +134,32 @@ export const DataSourceIndicator = () => {
         <span className="text-sm">{getSourceIcon()}</span>
         <div>
           <div className="font-semibold">
-            Data Source: {sourceInfo.mode.toUpperCase()}
+            Data Source: {isFromCache ? "CACHE" : sourceInfo.mode.toUpperCase()}
+          </div>
+          <div className="text-xs opacity-75">
+            {isFromCache
+              ? "Offline cache of previous FDA API responses"
+              : sourceInfo.description}
           </div>
-          <div className="text-xs opacity-75">{sourceInfo.description}</div>
+          {lastUpdated && (
+            <div className="text-xs opacity-60 mt-1">
+              OpenFDA data as of {lastUpdated}
+            </div>
+          )}
+          {sourceError && (
+            <div className="text-xs opacity-75 mt-1">
+              ⚠️ {describeSourceError(sourceError)}
+            </div>
+          )}
+          {validation && hasValidationFindings(validation) && (
+            <div
+              className="text-xs opacity-60 mt-1"
+              title="Records dropped or fields defaulted by response validation"
+            >
+              {validation.dropped.length} dropped • {validation.coerced.length}{" "}
+              defaulted • {validation.unknownClasses.length} unclassified
+            </div>
+          )}
           <div className="text-xs opacity-60 mt-1">
             {sourceInfo.mockDataStats.totalDevices} devices loaded
             {sourceInfo.config.hasApiKey ? " • API Key: ✓" : " • API Key: ✗"}
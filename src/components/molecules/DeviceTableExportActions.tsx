@@ -0,0 +1,223 @@
+/**
+ * DeviceTableExportActions Component
+ *
+ * Downloads the devices currently shown, or every device matching the
+ * active search and filters, as CSV or XLSX, with a header block recording
+ * data source, export time, active filters and dataset freshness
+ *
+ * Used in: DashboardTemplate (search results bar)
+ * Dependencies: Device table export, browser download helper, data provider
+ */
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { FileSpreadsheet } from "lucide-react";
+import { Button } from "@/components/atoms/ui/button";
+import type { BulkFetchProgress } from "@/lib/api/fda-api";
+import { dataProvider } from "@/lib/data/data-provider";
+import { downloadFile } from "@/lib/export/download";
+import {
+  buildDeviceTable,
+  toDeviceCSV,
+  toDeviceXLSX,
+  type DeviceExportContext,
+} from "@/lib/export/device-table";
+import { XLSX_MIME_TYPE } from "@/lib/export/xlsx";
+import type { FDADevice } from "@/types/fda";
+
+interface DeviceTableExportActionsProps {
+  /** Devices as displayed, in display order */
+  devices: FDADevice[];
+  /** Where the devices came from and which filters produced them */
+  context: Omit<DeviceExportContext, "exportedAt">;
+  className?: string;
+}
+
+type TableFormat = "csv" | "xlsx";
+
+/**
+ * Download a device table in the given format
+ */
+const downloadTable = (
+  devices: FDADevice[],
+  context: DeviceExportContext,
+  format: TableFormat,
+) => {
+  const exportedAt = new Date();
+  const table = buildDeviceTable(devices, { ...context, exportedAt });
+  const filename = `fda-devices-${exportedAt.toISOString().slice(0, 10)}.${format}`;
+
+  if (format === "csv") {
+    downloadFile(toDeviceCSV(table), filename, "text/csv;charset=utf-8");
+  } else {
+    downloadFile(toDeviceXLSX(table), filename, XLSX_MIME_TYPE);
+  }
+};
+
+/**
+ * Device table export molecule
+ *
+ * Features:
+ * - CSV (UTF-8 with BOM) and XLSX downloads of the displayed devices
+ * - "All matching" fetches every matching device page by page, with
+ *   progress and cancellation (not for saved graphs); exports cut short by
+ *   OpenFDA's paging limit are flagged in the header and next to the buttons
+ * - All device fields plus predicate count, children count and depth
+ * - Audit header block with source, timestamp, filters and last update
+ */
+export default function DeviceTableExportActions({
+  devices,
+  context,
+  className = "",
+}: DeviceTableExportActionsProps) {
+  const [exportAll, setExportAll] = useState(false);
+  const [progress, setProgress] = useState<BulkFetchProgress | null>(null);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+  // Devices in the last bulk export when it was cut short, and how many matched
+  const [truncatedExport, setTruncatedExport] = useState<{
+    exported: number;
+    total: number;
+  } | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Saved graphs have nothing further to fetch
+  const canExportAll = context.source !== null;
+
+  // Stop a running bulk fetch on unmount
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleExportAll = async (format: TableFormat) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setFetchError(null);
+    setTruncatedExport(null);
+    setProgress({ fetched: 0, total: 0, page: 0 });
+
+    try {
+      const { filters } = context;
+      const response = await dataProvider.getAllDevices(
+        {
+          search: filters.searchTerm,
+          productClass: filters.productClass,
+          productCode: filters.productCode,
+          panelType: filters.panelType,
+          manufacturer: filters.manufacturer,
+          dateRange: filters.dateRange,
+          clearanceYears: filters.clearanceYears,
+        },
+        { signal: controller.signal, onProgress: setProgress },
+      );
+
+      if (!controller.signal.aborted) {
+        downloadTable(
+          response.devices,
+          {
+            ...context,
+            source: response.source,
+            truncated: response.truncated,
+            totalCount: response.totalCount,
+          },
+          format,
+        );
+        if (response.truncated) {
+          setTruncatedExport({
+            exported: response.devices.length,
+            total: response.totalCount,
+          });
+        }
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setFetchError(error instanceof Error ? error.message : String(error));
+      }
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleExport = (format: TableFormat) => {
+    setTruncatedExport(null);
+    if (exportAll && canExportAll) {
+      void handleExportAll(format);
+    } else {
+      downloadTable(devices, context, format);
+    }
+  };
+
+  // Bulk fetch in progress
+  if (progress) {
+    return (
+      <div className={`flex items-center gap-2 text-xs ${className}`}>
+        <FileSpreadsheet className="w-4 h-4 text-slate-500" />
+        <span className="text-slate-600">
+          Fetching {progress.fetched.toLocaleString()}
+          {progress.total > 0 && ` / ${progress.total.toLocaleString()}`}…
+        </span>
+        {progress.truncated && (
+          <span className="text-amber-600">OpenFDA paging limit reached</span>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => controllerRef.current?.abort()}
+          className="h-7 px-2 text-xs"
+        >
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex items-center gap-1 ${className}`}>
+      <FileSpreadsheet className="w-4 h-4 text-slate-500" />
+      {canExportAll && (
+        <label
+          className="flex items-center gap-1 mr-1 text-xs text-slate-600"
+          title="Fetch every matching device, not only those shown"
+        >
+          <input
+            type="checkbox"
+            checked={exportAll}
+            onChange={(event) => setExportAll(event.target.checked)}
+            className="accent-blue-600"
+          />
+          All matching
+        </label>
+      )}
+      {(["csv", "xlsx"] as const).map((format) => (
+        <Button
+          key={format}
+          variant="outline"
+          size="sm"
+          disabled={devices.length === 0 && !(exportAll && canExportAll)}
+          onClick={() => handleExport(format)}
+          title={
+            exportAll && canExportAll
+              ? `Export all matching devices as ${format.toUpperCase()}`
+              : `Export ${devices.length} devices as ${format.toUpperCase()}`
+          }
+          className="h-7 px-2 text-xs"
+        >
+          {format.toUpperCase()}
+        </Button>
+      ))}
+      {truncatedExport && (
+        <span
+          className="ml-1 text-xs text-amber-600"
+          title="OpenFDA stops paging after 25,000 records; narrow the filters to export the rest"
+        >
+          Partial export: {truncatedExport.exported.toLocaleString()} of{" "}
+          {truncatedExport.total.toLocaleString()}
+        </span>
+      )}
+      {fetchError && (
+        <span className="ml-1 text-xs text-red-600" title={fetchError}>
+          Export failed
+        </span>
+      )}
+    </div>
+  );
+}
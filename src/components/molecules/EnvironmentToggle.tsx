@@ -17,11 +17,13 @@ import React, { useState, useEffect } from "react";
 import {
   validateEnvironment,
   getDataSourceDescription,
+  type DataMode,
 } from "@/lib/config/environment";
 import {
   Settings,
   Database,
   Cloud,
+  Shuffle,
   AlertTriangle,
   CheckCircle,
 } from "lucide-react";
@@ -45,7 +47,7 @@ export const EnvironmentToggle: React.FC = () => {
     return null;
   }
 
-  const handleModeChange = (newMode: "mock" | "api") => {
+  const handleModeChange = (newMode: DataMode) => {
     // Update localStorage for immediate effect
     localStorage.setItem("FDA_DATA_MODE", newMode);
     setCurrentMode(newMode);
@@ -60,6 +62,8 @@ export const EnvironmentToggle: React.FC = () => {
         return <Database className="w-4 h-4" />;
       case "api":
         return <Cloud className="w-4 h-4" />;
+      case "hybrid":
+        return <Shuffle className="w-4 h-4" />;
       default:
         return <Settings className="w-4 h-4" />;
     }
@@ -71,6 +75,8 @@ export const EnvironmentToggle: React.FC = () => {
         return "bg-emerald-100 text-emerald-700 border-emerald-200";
       case "api":
         return "bg-blue-100 text-blue-700 border-blue-200";
+      case "hybrid":
+        return "bg-orange-100 text-orange-700 border-orange-200";
       default:
         return "bg-gray-100 text-gray-700 border-gray-200";
     }
@@ -125,7 +131,7 @@ export const EnvironmentToggle: React.FC = () => {
           Switch Data Source:
         </label>
 
-        <div className="grid grid-cols-2 gap-2">
+        <div className="grid grid-cols-3 gap-2">
           {/* Mock Mode Button */}
           <button
             onClick={() => handleModeChange("mock")}
@@ -157,6 +163,22 @@ export const EnvironmentToggle: React.FC = () => {
             </div>
             <div className="text-xs text-gray-500 mt-1">171,999 devices</div>
           </button>
+
+          {/* Hybrid Mode Button */}
+          <button
+            onClick={() => handleModeChange("hybrid")}
+            className={`p-2 rounded-lg border text-sm font-medium transition-all duration-200 ${
+              currentMode === "hybrid"
+                ? "bg-orange-100 text-orange-700 border-orange-300 ring-2 ring-orange-200"
+                : "bg-white text-gray-600 border-gray-200 hover:bg-gray-50"
+            }`}
+          >
+            <div className="flex items-center space-x-2">
+              <Shuffle className="w-4 h-4" />
+              <span>Hybrid</span>
+            </div>
+            <div className="text-xs text-gray-500 mt-1">API + local</div>
+          </button>
         </div>
       </div>
 
@@ -15,6 +15,12 @@
 import React, { useState } from "react";
 import { Button } from "@/components/atoms/ui/button";
 import { Bug, AlertTriangle, Shield, Wifi } from "lucide-react";
+import {
+  HttpError,
+  NetworkError,
+  RateLimitError,
+  SchemaValidationError,
+} from "@/lib/api/errors";
 
 export const ErrorTester: React.FC = () => {
   const [errorType, setErrorType] = useState<string | null>(null);
@@ -28,13 +34,18 @@ export const ErrorTester: React.FC = () => {
   if (errorType) {
     switch (errorType) {
       case "api":
-        throw new Error("API Connection Error - Unable to connect to FDA API");
+        throw new HttpError(503, "HTTP 503: Service Unavailable");
       case "rateLimit":
-        throw new Error("Rate Limit Exceeded - 429");
+        throw new RateLimitError(
+          "Rate limit exceeded",
+          new Date(Date.now() + 60 * 60 * 1000),
+        );
       case "network":
-        throw new Error("fetch failed - network error");
+        throw new NetworkError();
       case "validation":
-        throw new Error("Data validation failed - invalid response format");
+        throw new SchemaValidationError(
+          "Data validation failed - invalid response format",
+        );
       default:
         throw new Error("Unexpected error occurred");
     }
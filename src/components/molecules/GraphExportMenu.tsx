@@ -0,0 +1,291 @@
+/**
+ * GraphExportMenu Component
+ *
+ * Dropdown for saving the rendered graph in external formats or as an image,
+ * and for loading a previously saved graph
+ *
+ * Used in: GraphCanvas (React Flow panel)
+ * Dependencies: Graph file formats, graph SVG renderer, browser download helpers
+ */
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  ChevronDown,
+  Download,
+  Image as ImageIcon,
+  Upload,
+} from "lucide-react";
+import { downloadFile, rasterizeSvg } from "@/lib/export/download";
+import {
+  GRAPH_EXPORTERS,
+  GraphImportError,
+  parseSavedGraph,
+  type GraphExporter,
+  type SavedGraph,
+} from "@/lib/export/graph-formats";
+import {
+  getGraphSvgSize,
+  renderGraphSvg,
+  type GraphRegion,
+  type GraphSvgOptions,
+} from "@/lib/graph/graph-snapshot";
+import type { GraphEdge, GraphNode } from "@/types/graph";
+
+interface GraphExportMenuProps {
+  /** Positioned nodes as currently rendered */
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** Called with a saved graph read from disk; hides import when absent */
+  onImport?: (graph: SavedGraph) => void;
+  /** Visible area in flow coordinates; enables "Current view" image export */
+  getViewportRegion?: () => GraphRegion | null;
+}
+
+type ImageFormat = "svg" | "png";
+type ImageScope = "fit" | "viewport";
+
+const MENU_ITEM_CLASS =
+  "flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-gray-700 hover:bg-gray-100";
+
+/**
+ * Graph export menu molecule
+ *
+ * Features:
+ * - JSON (reloadable), GraphML, GEXF and DOT downloads
+ * - SVG/PNG image of the whole graph or the current view, with optional
+ *   title and class legend
+ * - Saved graph import with validation errors shown inline
+ * - Closes on outside click or Escape
+ */
+export default function GraphExportMenu({
+  nodes,
+  edges,
+  onImport,
+  getViewportRegion,
+}: GraphExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [imageScope, setImageScope] = useState<ImageScope>("fit");
+  const [includeLegend, setIncludeLegend] = useState(true);
+  const [imageTitle, setImageTitle] = useState("");
+  const [imageError, setImageError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Close on clicks outside the menu and on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setIsOpen(false);
+    };
+
+    document.addEventListener("pointerdown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleExport = (exporter: GraphExporter) => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(
+      exporter.serialize(nodes, edges),
+      `predicate-graph-${date}.${exporter.extension}`,
+      exporter.mimeType,
+    );
+    setIsOpen(false);
+  };
+
+  const handleImageExport = async (format: ImageFormat) => {
+    const region =
+      imageScope === "viewport" ? getViewportRegion?.() : undefined;
+    const title = imageTitle.trim();
+    const date = new Date().toISOString().slice(0, 10);
+    const filename = `predicate-graph-${date}.${format}`;
+    const svgOptions: GraphSvgOptions = {
+      region: region ?? undefined,
+      title: title || undefined,
+      subtitle: `${nodes.length} devices · exported ${date}`,
+      legend: includeLegend,
+    };
+    const svg = renderGraphSvg(nodes, edges, svgOptions);
+
+    try {
+      if (format === "svg") {
+        downloadFile(svg, filename, "image/svg+xml");
+      } else {
+        const { width, height } = getGraphSvgSize(nodes, svgOptions);
+        downloadFile(
+          await rasterizeSvg(svg, width, height),
+          filename,
+          "image/png",
+        );
+      }
+      setImageError(null);
+      setIsOpen(false);
+    } catch (error) {
+      setImageError(
+        error instanceof Error ? error.message : "Couldn't create the image",
+      );
+    }
+  };
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Allow re-selecting the same file
+    if (!file || !onImport) return;
+
+    try {
+      onImport(parseSavedGraph(await file.text(), file.name));
+      setImportError(null);
+      setIsOpen(false);
+    } catch (error) {
+      setImportError(
+        error instanceof GraphImportError
+          ? error.message
+          : "Couldn't read the file",
+      );
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="flex items-center gap-1 bg-white px-2 py-1.5 rounded-lg shadow-lg text-xs font-medium text-gray-600 hover:bg-gray-100"
+      >
+        <Download className="w-4 h-4" />
+        Export
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-1 w-64 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-10"
+        >
+          {GRAPH_EXPORTERS.map((exporter) => (
+            <button
+              key={exporter.id}
+              type="button"
+              role="menuitem"
+              disabled={nodes.length === 0}
+              onClick={() => handleExport(exporter)}
+              className={MENU_ITEM_CLASS}
+            >
+              {exporter.label}
+            </button>
+          ))}
+
+          <div className="my-1 border-t border-gray-200" />
+          <div className="px-3 py-1.5 space-y-2 text-xs text-gray-700">
+            <div className="flex items-center gap-1.5 font-medium text-gray-500">
+              <ImageIcon className="w-3.5 h-3.5" />
+              Image
+            </div>
+            <div
+              className="flex gap-3"
+              role="radiogroup"
+              aria-label="Image area"
+            >
+              <label className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  name="graph-image-scope"
+                  checked={imageScope === "fit"}
+                  onChange={() => setImageScope("fit")}
+                />
+                Fit to content
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  name="graph-image-scope"
+                  checked={imageScope === "viewport"}
+                  disabled={!getViewportRegion}
+                  onChange={() => setImageScope("viewport")}
+                />
+                Current view
+              </label>
+            </div>
+            <input
+              type="text"
+              value={imageTitle}
+              onChange={(event) => setImageTitle(event.target.value)}
+              placeholder="Title (optional)"
+              aria-label="Image title"
+              className="w-full rounded border border-gray-300 px-2 py-1"
+            />
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={includeLegend}
+                onChange={(event) => setIncludeLegend(event.target.checked)}
+              />
+              Include legend
+            </label>
+            <div className="flex gap-2">
+              {(["svg", "png"] as const).map((format) => (
+                <button
+                  key={format}
+                  type="button"
+                  role="menuitem"
+                  disabled={nodes.length === 0}
+                  onClick={() => handleImageExport(format)}
+                  className="flex-1 rounded border border-gray-300 px-2 py-1 font-medium hover:bg-gray-100 disabled:opacity-50"
+                >
+                  {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+            {imageError && (
+              <p className="text-[11px] text-red-600">{imageError}</p>
+            )}
+          </div>
+
+          {onImport && (
+            <>
+              <div className="my-1 border-t border-gray-200" />
+              <button
+                type="button"
+                role="menuitem"
+                onClick={() => fileInputRef.current?.click()}
+                className={MENU_ITEM_CLASS}
+              >
+                <Upload className="w-3.5 h-3.5" />
+                Load saved graph…
+              </button>
+              {importError && (
+                <p className="px-3 py-1 text-[11px] text-red-600 whitespace-pre-line">
+                  {importError}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * GraphMetricsPanel Component
+ *
+ * Compact summary of the graph structure: size, roots, depth, fan-in/fan-out,
+ * cycles and layout time
+ *
+ * Used in: GraphCanvas (React Flow info panel)
+ * Dependencies: GraphMetrics types
+ */
+
+import type { GraphMetrics } from "@/types/graph";
+
+interface GraphMetricsPanelProps {
+  metrics: GraphMetrics;
+}
+
+/**
+ * Graph metrics molecule
+ *
+ * Features:
+ * - Two-column list of structural metrics
+ * - Cycle count highlighted when predicate cycles exist
+ * - Layout time once a layout has completed
+ */
+export default function GraphMetricsPanel({ metrics }: GraphMetricsPanelProps) {
+  const rows: { label: string; value: string; title: string }[] = [
+    {
+      label: "Devices",
+      value: metrics.nodeCount.toLocaleString(),
+      title: "Devices in the graph",
+    },
+    {
+      label: "Links",
+      value: metrics.edgeCount.toLocaleString(),
+      title: "Predicate links between devices in the graph",
+    },
+    {
+      label: "Roots",
+      value: metrics.rootNodeCount.toLocaleString(),
+      title: "Devices citing no predicates",
+    },
+    {
+      label: "Max depth",
+      value: metrics.maxDepth.toString(),
+      title: "Longest predicate chain",
+    },
+    {
+      label: "Avg predicates",
+      value: metrics.avgPredicatesPerDevice.toFixed(1),
+      title: "Average predicates cited per device",
+    },
+    {
+      label: "Max fan-in",
+      value: metrics.maxFanIn.toString(),
+      title: "Most predicates cited by one device",
+    },
+    {
+      label: "Max fan-out",
+      value: metrics.maxFanOut.toString(),
+      title: "Most devices citing one predicate",
+    },
+    {
+      label: "External",
+      value: metrics.externalPredicateCount.toLocaleString(),
+      title: "Predicate citations to devices outside the graph",
+    },
+  ];
+
+  if (metrics.layoutCalculationTime !== undefined) {
+    rows.push({
+      label: "Layout",
+      value: `${metrics.layoutCalculationTime} ms`,
+      title: "Time to compute the current layout",
+    });
+  }
+
+  return (
+    <div className="text-xs">
+      <div className="font-medium text-sm mb-2">Graph Metrics</div>
+      <dl className="grid grid-cols-[auto_auto] gap-x-3 gap-y-0.5">
+        {rows.map(({ label, value, title }) => (
+          <div key={label} className="contents" title={title}>
+            <dt className="text-gray-600">{label}</dt>
+            <dd className="text-right tabular-nums font-medium">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      {metrics.cycleCount > 0 && (
+        <p className="mt-2 text-amber-700">
+          {metrics.cycleCount} predicate{" "}
+          {metrics.cycleCount === 1 ? "cycle" : "cycles"} detected (⟳)
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+/**
+ * InternalDeviceImport Component
+ *
+ * Imports internal device lists (CSV/JSON) into the local data source,
+ * reports rejected rows, and clears the imported devices
+ *
+ * Used in: DashboardTemplate (search section)
+ * Dependencies: Device list import, internal device store, TanStack Query
+ */
+
+"use client";
+
+import { useRef, useState, useSyncExternalStore } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { FileUp, Trash2 } from "lucide-react";
+import { Button } from "@/components/atoms/ui/button";
+import { internalDevices } from "@/lib/data/internal-devices";
+import { isFDAQueryKey } from "@/lib/hooks/use-fda-devices";
+import {
+  DeviceImportError,
+  parseDeviceImport,
+  type DeviceImportResult,
+} from "@/lib/import/device-import";
+
+interface InternalDeviceImportProps {
+  className?: string;
+}
+
+// Rejected rows listed before collapsing into a count
+const MAX_LISTED_ERRORS = 10;
+
+/**
+ * Internal device import molecule
+ *
+ * Features:
+ * - CSV or JSON file picker
+ * - Row-level validation errors; valid rows are still imported
+ * - Count of stored internal devices with a clear action
+ * - Refetches device queries so imports show up in the graph
+ */
+export default function InternalDeviceImport({
+  className = "",
+}: InternalDeviceImportProps) {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [result, setResult] = useState<DeviceImportResult | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const internalCount = useSyncExternalStore(
+    internalDevices.subscribe,
+    internalDevices.getCount,
+    () => 0,
+  );
+
+  // Device, search and lineage queries all read through DataProvider
+  const refreshDeviceQueries = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => isFDAQueryKey(query.queryKey),
+    });
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Allow re-selecting the same file
+    if (!file) return;
+
+    try {
+      const imported = parseDeviceImport(await file.text(), file.name);
+      internalDevices.putDevices(imported.devices);
+      setResult(imported);
+      setFileError(null);
+      refreshDeviceQueries();
+    } catch (error) {
+      setResult(null);
+      setFileError(
+        error instanceof DeviceImportError
+          ? error.message
+          : "Couldn't read the file",
+      );
+    }
+  };
+
+  const handleClear = () => {
+    internalDevices.clear();
+    setResult(null);
+    setFileError(null);
+    refreshDeviceQueries();
+  };
+
+  return (
+    <div className={`text-sm ${className}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <FileUp />
+          Import internal devices
+        </Button>
+        <span className="text-xs text-slate-500">CSV or JSON</span>
+
+        {internalCount > 0 && (
+          <span className="flex items-center gap-1 pl-3 pr-1 py-0.5 rounded-full border border-dashed border-slate-400 text-xs text-slate-700">
+            {internalCount} internal{" "}
+            {internalCount === 1 ? "device" : "devices"}
+            <button
+              type="button"
+              onClick={handleClear}
+              title="Remove all internal devices"
+              aria-label="Remove all internal devices"
+              className="p-1 rounded-full hover:bg-slate-200"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </span>
+        )}
+      </div>
+
+      {fileError && <p className="mt-2 text-xs text-red-600">{fileError}</p>}
+
+      {result && (
+        <div className="mt-2 text-xs">
+          <p className="text-slate-600">
+            Imported {result.devices.length} of {result.totalRows}{" "}
+            {result.totalRows === 1 ? "record" : "records"} from{" "}
+            {result.fileName}
+            {result.errors.length > 0 && ` · ${result.errors.length} rejected`}
+          </p>
+          {result.errors.length > 0 && (
+            <ul className="mt-1 space-y-0.5 text-red-600">
+              {result.errors.slice(0, MAX_LISTED_ERRORS).map((error) => (
+                <li key={error.row}>
+                  {result.format === "csv" ? "Line" : "Record"} {error.row}
+                  {error.kNumber && ` (${error.kNumber})`}: {error.message}
+                </li>
+              ))}
+              {result.errors.length > MAX_LISTED_ERRORS && (
+                <li>…and {result.errors.length - MAX_LISTED_ERRORS} more</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,text/csv,.json,application/json"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+    </div>
+  );
+}
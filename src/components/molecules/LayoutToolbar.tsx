@@ -0,0 +1,133 @@
+/**
+ * LayoutToolbar Component
+ *
+ * Compact toolbar for switching graph layout algorithm and, for the
+ * hierarchical layout, its direction
+ *
+ * Used in: GraphCanvas (React Flow panel)
+ * Dependencies: Layout registry, Lucide React icons
+ */
+
+"use client";
+
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowRight,
+  ArrowUp,
+  Grid3x3,
+  Network,
+  Orbit,
+  Workflow,
+} from "lucide-react";
+import { LAYOUT_ENGINES } from "@/lib/graph/layout-registry";
+import type { LayoutAlgorithm, LayoutDirection } from "@/types/graph";
+
+interface LayoutToolbarProps {
+  /** Layout picked by the user */
+  algorithm: LayoutAlgorithm;
+  /** Layout actually applied (differs when the graph is too large) */
+  appliedAlgorithm: LayoutAlgorithm;
+  direction: LayoutDirection;
+  onAlgorithmChange: (algorithm: LayoutAlgorithm) => void;
+  onDirectionChange: (direction: LayoutDirection) => void;
+}
+
+// Toolbar icon per layout algorithm
+const ALGORITHM_ICONS: Record<LayoutAlgorithm, React.ElementType> = {
+  dagre: Workflow,
+  force: Network,
+  radial: Orbit,
+  grid: Grid3x3,
+};
+
+// Direction options for the hierarchical layout
+const DIRECTION_OPTIONS: {
+  direction: LayoutDirection;
+  label: string;
+  icon: React.ElementType;
+}[] = [
+  { direction: "TB", label: "Top to bottom", icon: ArrowDown },
+  { direction: "BT", label: "Bottom to top", icon: ArrowUp },
+  { direction: "LR", label: "Left to right", icon: ArrowRight },
+  { direction: "RL", label: "Right to left", icon: ArrowLeft },
+];
+
+/**
+ * Toolbar button styling for active/inactive states
+ */
+const getButtonClassName = (isActive: boolean) =>
+  `flex items-center gap-1 px-2 py-1.5 rounded text-xs font-medium ${
+    isActive ? "bg-blue-100 text-blue-700" : "text-gray-600 hover:bg-gray-100"
+  }`;
+
+/**
+ * Layout toolbar molecule
+ *
+ * Features:
+ * - One button per registered layout engine
+ * - Direction buttons when the hierarchical layout is active
+ * - Notice when a large graph forces a fallback layout
+ */
+export default function LayoutToolbar({
+  algorithm,
+  appliedAlgorithm,
+  direction,
+  onAlgorithmChange,
+  onDirectionChange,
+}: LayoutToolbarProps) {
+  const showDirections =
+    LAYOUT_ENGINES[algorithm].supportsDirection &&
+    appliedAlgorithm === algorithm;
+
+  return (
+    <div className="bg-white p-1 rounded-lg shadow-lg">
+      <div className="flex items-center gap-1">
+        {Object.values(LAYOUT_ENGINES).map((engine) => {
+          const Icon = ALGORITHM_ICONS[engine.id];
+          return (
+            <button
+              key={engine.id}
+              type="button"
+              title={engine.description}
+              aria-pressed={algorithm === engine.id}
+              onClick={() => onAlgorithmChange(engine.id)}
+              className={getButtonClassName(algorithm === engine.id)}
+            >
+              <Icon className="w-4 h-4" />
+              {engine.label}
+            </button>
+          );
+        })}
+
+        {showDirections && (
+          <>
+            <div className="w-px h-5 bg-gray-200 mx-1" />
+            {DIRECTION_OPTIONS.map(
+              ({ direction: option, label, icon: Icon }) => (
+                <button
+                  key={option}
+                  type="button"
+                  title={label}
+                  aria-label={label}
+                  aria-pressed={direction === option}
+                  onClick={() => onDirectionChange(option)}
+                  className={getButtonClassName(direction === option)}
+                >
+                  <Icon className="w-4 h-4" />
+                </button>
+              ),
+            )}
+          </>
+        )}
+      </div>
+
+      {appliedAlgorithm !== algorithm && (
+        <p className="px-2 pt-1 text-[11px] text-amber-700">
+          Too many devices for {LAYOUT_ENGINES[algorithm].label.toLowerCase()} —
+          showing {LAYOUT_ENGINES[appliedAlgorithm].label.toLowerCase()}
+        </p>
+      )}
+    </div>
+  );
+}
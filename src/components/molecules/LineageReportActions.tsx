@@ -0,0 +1,134 @@
+/**
+ * LineageReportActions Component
+ *
+ * Generates the predicate lineage report for a device as Markdown or as a
+ * printable document (PDF via the print dialog)
+ *
+ * Used in: DeviceDetailsPanel, DeviceDetailTemplate
+ * Dependencies: Lineage hook, lineage report renderers
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { FileDown, Loader2, Printer } from "lucide-react";
+import { Button } from "@/components/atoms/ui/button";
+import { useDeviceLineage } from "@/lib/hooks/use-fda-devices";
+import { downloadFile, printHtml } from "@/lib/export/download";
+import {
+  buildLineageReport,
+  renderLineageHtml,
+  renderLineageMarkdown,
+} from "@/lib/reports/lineage-report";
+
+interface LineageReportActionsProps {
+  kNumber: string;
+  className?: string;
+}
+
+type ReportFormat = "markdown" | "print";
+
+// Predicate generations offered for the report
+const GENERATION_OPTIONS = [1, 2, 3, 5, 10];
+const DEFAULT_GENERATIONS = 3;
+
+/**
+ * Lineage report actions molecule
+ *
+ * Features:
+ * - Choice of predicate generations to include
+ * - Lineage fetched on first request, then reused from the query cache
+ * - Markdown download and print-to-PDF
+ */
+export default function LineageReportActions({
+  kNumber,
+  className = "",
+}: LineageReportActionsProps) {
+  const [generations, setGenerations] = useState(DEFAULT_GENERATIONS);
+  const [pendingFormat, setPendingFormat] = useState<ReportFormat | null>(null);
+  const [hasRequested, setHasRequested] = useState(false);
+
+  const lineage = useDeviceLineage(
+    kNumber,
+    { upDepth: generations, downDepth: 0 },
+    { enabled: hasRequested },
+  );
+
+  // Produce the requested format once the lineage is available
+  useEffect(() => {
+    if (!pendingFormat || !lineage.data) return;
+
+    setPendingFormat(null);
+    const report = buildLineageReport(lineage.data);
+    if (!report) return;
+
+    if (pendingFormat === "markdown") {
+      downloadFile(
+        renderLineageMarkdown(report),
+        `${kNumber}-lineage-report.md`,
+        "text/markdown",
+      );
+    } else {
+      printHtml(renderLineageHtml(report));
+    }
+  }, [pendingFormat, lineage.data, kNumber]);
+
+  const requestReport = (format: ReportFormat) => {
+    setHasRequested(true);
+    setPendingFormat(format);
+    if (lineage.isError) {
+      lineage.refetch();
+    }
+  };
+
+  const isPreparing = pendingFormat !== null && !lineage.isError;
+
+  return (
+    <div className={className}>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={generations}
+          onChange={(event) => setGenerations(Number(event.target.value))}
+          aria-label="Predicate generations to include"
+          className="h-8 rounded-md border border-input bg-transparent px-2 text-sm"
+        >
+          {GENERATION_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {option} {option === 1 ? "generation" : "generations"}
+            </option>
+          ))}
+        </select>
+
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isPreparing}
+          onClick={() => requestReport("markdown")}
+        >
+          <FileDown />
+          Markdown
+        </Button>
+
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isPreparing}
+          onClick={() => requestReport("print")}
+        >
+          <Printer />
+          Print / PDF
+        </Button>
+
+        {isPreparing && (
+          <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />
+        )}
+      </div>
+
+      {lineage.isError && (
+        <p className="mt-2 text-xs text-red-600">
+          Couldn&apos;t load the lineage: {lineage.error.message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+/**
+ * PathFinderPicker Component
+ *
+ * Two K-number fields with autocomplete from the current dataset for
+ * tracing predicate paths between devices
+ *
+ * Used in: DashboardTemplate (graph section)
+ * Dependencies: React Hook Form, Zustand store integration
+ */
+
+"use client";
+
+import { useEffect, useId } from "react";
+import { useForm } from "react-hook-form";
+import { ArrowLeftRight, Route, X } from "lucide-react";
+import { useGraphStore } from "@/stores";
+import { Input } from "@/components/atoms/ui/input";
+import { Button } from "@/components/atoms/ui/button";
+import type { FDADevice } from "@/types/fda";
+import type { PathQuery } from "@/types/graph";
+
+/**
+ * Path finder form data interface
+ * maxLength stays a string while editing (number input value)
+ */
+interface PathFormData {
+  from: string;
+  to: string;
+  mode: PathQuery["mode"];
+  maxLength: string;
+}
+
+interface PathFinderPickerProps {
+  /** Devices offered as autocomplete suggestions and accepted endpoints */
+  devices: FDADevice[];
+  className?: string;
+}
+
+// Hop limit bounds for "all paths" mode
+const DEFAULT_MAX_LENGTH = 6;
+const MAX_LENGTH_LIMIT = 12;
+
+/**
+ * Hop limit from the input, falling back to the default when the field is
+ * empty or not a whole number in range
+ */
+const parseMaxLength = (value: string): number => {
+  const hops = Number(value);
+  return value.trim() !== "" &&
+    Number.isInteger(hops) &&
+    hops >= 1 &&
+    hops <= MAX_LENGTH_LIMIT
+    ? hops
+    : DEFAULT_MAX_LENGTH;
+};
+
+/**
+ * Normalize typed K-numbers ("k241234 " → "K241234")
+ */
+const normalizeKNumber = (value: string) => value.trim().toUpperCase();
+
+/**
+ * Predicate path picker molecule
+ *
+ * Features:
+ * - From/To fields with native datalist autocomplete
+ * - Shortest paths or all simple paths up to N hops
+ * - Swap and clear buttons; query stored for GraphCanvas highlighting
+ */
+export default function PathFinderPicker({
+  devices,
+  className = "",
+}: PathFinderPickerProps) {
+  const { pathQuery, setPathQuery } = useGraphStore();
+  const listId = useId();
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    getValues,
+    reset,
+    formState: { errors },
+  } = useForm<PathFormData>({
+    defaultValues: {
+      from: pathQuery?.from ?? "",
+      to: pathQuery?.to ?? "",
+      mode: pathQuery?.mode ?? "shortest",
+      maxLength: String(pathQuery?.maxLength ?? DEFAULT_MAX_LENGTH),
+    },
+  });
+
+  const mode = watch("mode");
+
+  // Clearing the query elsewhere (store reset) empties the fields
+  useEffect(() => {
+    if (!pathQuery) {
+      reset({ ...getValues(), from: "", to: "" });
+    }
+  }, [pathQuery, reset, getValues]);
+
+  /**
+   * Accept only K-numbers present in the current dataset
+   */
+  const validateKNumber = (value: string) =>
+    devices.some((d) => d.kNumber === normalizeKNumber(value)) ||
+    "Not in the current dataset";
+
+  const onSubmit = (data: PathFormData) => {
+    setPathQuery({
+      from: normalizeKNumber(data.from),
+      to: normalizeKNumber(data.to),
+      mode: data.mode,
+      maxLength: parseMaxLength(data.maxLength),
+    });
+  };
+
+  const handleSwap = () => {
+    const { from, to } = getValues();
+    setValue("from", to);
+    setValue("to", from);
+  };
+
+  const handleClear = () => {
+    reset({ ...getValues(), from: "", to: "" });
+    setPathQuery(null);
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit(onSubmit)}
+      className={`flex flex-wrap items-start gap-2 ${className}`}
+    >
+      <div>
+        <Input
+          {...register("from", {
+            required: "Enter a K-number",
+            validate: validateKNumber,
+          })}
+          list={listId}
+          placeholder="From (e.g. K241234)"
+          aria-label="Path start K-number"
+          className="w-44 h-9"
+        />
+        {errors.from && (
+          <p className="mt-1 text-xs text-red-600">{errors.from.message}</p>
+        )}
+      </div>
+
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        onClick={handleSwap}
+        title="Swap endpoints"
+        aria-label="Swap endpoints"
+      >
+        <ArrowLeftRight />
+      </Button>
+
+      <div>
+        <Input
+          {...register("to", {
+            required: "Enter a K-number",
+            validate: validateKNumber,
+          })}
+          list={listId}
+          placeholder="To (e.g. K870001)"
+          aria-label="Path end K-number"
+          className="w-44 h-9"
+        />
+        {errors.to && (
+          <p className="mt-1 text-xs text-red-600">{errors.to.message}</p>
+        )}
+      </div>
+
+      <select
+        {...register("mode")}
+        aria-label="Paths to find"
+        className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+      >
+        <option value="shortest">Shortest paths</option>
+        <option value="simple">All paths up to</option>
+      </select>
+
+      {mode === "simple" && (
+        <div>
+          <Input
+            {...register("maxLength", {
+              min: { value: 1, message: "At least 1 hop" },
+              max: {
+                value: MAX_LENGTH_LIMIT,
+                message: `At most ${MAX_LENGTH_LIMIT} hops`,
+              },
+            })}
+            type="number"
+            min={1}
+            max={MAX_LENGTH_LIMIT}
+            aria-label="Maximum hops"
+            className="w-20 h-9"
+          />
+          {errors.maxLength && (
+            <p className="mt-1 text-xs text-red-600">
+              {errors.maxLength.message}
+            </p>
+          )}
+        </div>
+      )}
+
+      <Button type="submit" size="sm" className="h-9">
+        <Route />
+        Find paths
+      </Button>
+
+      {pathQuery && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-9"
+          onClick={handleClear}
+        >
+          <X />
+          Clear
+        </Button>
+      )}
+
+      {/* Autocomplete suggestions from the current dataset */}
+      <datalist id={listId}>
+        {devices.map((device) => (
+          <option key={device.kNumber} value={device.kNumber}>
+            {device.deviceName}
+          </option>
+        ))}
+      </datalist>
+    </form>
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * PathSearchSummary Component
+ *
+ * Result of a predicate path search: path count, hop lengths and the first
+ * few paths as K-number chains
+ *
+ * Used in: GraphCanvas (React Flow panel)
+ * Dependencies: Path finder types
+ */
+
+import type { PathSearchResult } from "@/lib/graph/path-finder";
+import type { PathQuery } from "@/types/graph";
+
+interface PathSearchSummaryProps {
+  query: PathQuery;
+  result: PathSearchResult;
+}
+
+// Paths listed before collapsing to a count
+const MAX_LISTED_PATHS = 5;
+
+/**
+ * Path search summary molecule
+ *
+ * Features:
+ * - Count and hop range of the paths found
+ * - Paths listed start → end with their direction
+ * - Notice when the search stopped at the path cap or found nothing
+ */
+export default function PathSearchSummary({
+  query,
+  result,
+}: PathSearchSummaryProps) {
+  const { paths, direction, truncated } = result;
+
+  if (paths.length === 0) {
+    return (
+      <p className="text-xs text-gray-700">
+        No predicate path between {query.from} and {query.to}
+        {query.mode === "simple" && ` within ${query.maxLength} hops`}
+      </p>
+    );
+  }
+
+  const hops = paths.map((path) => path.length - 1);
+  const minHops = Math.min(...hops);
+  const maxHops = Math.max(...hops);
+  const kind = query.mode === "shortest" ? "shortest path" : "path";
+
+  return (
+    <div className="text-xs text-gray-700 max-w-md">
+      <div className="font-medium text-sm mb-1">
+        {paths.length}
+        {truncated && "+"} {kind}
+        {paths.length === 1 && !truncated ? "" : "s"} ·{" "}
+        {minHops === maxHops ? minHops : `${minHops}–${maxHops}`}{" "}
+        {maxHops === 1 ? "hop" : "hops"}
+      </div>
+      {direction && (
+        <p className="text-gray-500 mb-1">
+          {direction === "predicates"
+            ? `${query.from} traces back to ${query.to}`
+            : `${query.to} traces back to ${query.from}`}
+        </p>
+      )}
+      <ol className="space-y-0.5 font-mono">
+        {paths.slice(0, MAX_LISTED_PATHS).map((path) => (
+          <li
+            key={path.join(">")}
+            className="truncate"
+            title={path.join(" → ")}
+          >
+            {path.join(" → ")}
+          </li>
+        ))}
+      </ol>
+      {paths.length > MAX_LISTED_PATHS && (
+        <p className="mt-1 text-gray-500">
+          and {paths.length - MAX_LISTED_PATHS} more
+        </p>
+      )}
+      {truncated && (
+        <p className="mt-1 text-amber-700">
+          Stopped after {paths.length} paths — narrow the hop limit to see all
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * Rate Limit Quota Component
+ *
+ * Shows the OpenFDA request budget: remaining calls per window, when the
+ * budget recovers, and how many requests are queued
+ *
+ * Used in: DashboardTemplate (next to DataSourceIndicator)
+ * Dependencies: FDA API client rate limiter
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { fdaAPIClient } from "@/lib/api/fda-api";
+import type { RateLimitStatus } from "@/lib/api/rate-limiter";
+import { shouldUseAPI } from "@/lib/config/environment";
+
+// Sliding windows recover without any event, so re-read periodically
+const REFRESH_INTERVAL_MS = 15 * 1000;
+
+// Share of a window left before the bar turns amber / red
+const LOW_QUOTA_RATIO = 0.2;
+
+const formatResetTime = (date: Date) =>
+  date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+
+/**
+ * Rate limit quota molecule
+ *
+ * Features:
+ * - Remaining calls per window (minute, day) with usage bars
+ * - Reset time of each window, and when queued requests will be sent
+ * - Live updates as requests are made, including from other tabs
+ * - Hidden in mock data mode
+ */
+export const RateLimitQuota = () => {
+  const [status, setStatus] = useState<RateLimitStatus | null>(null);
+  const [isVisible, setIsVisible] = useState(false);
+
+  useEffect(() => {
+    // Data mode can come from localStorage, so decide after hydration
+    setIsVisible(shouldUseAPI());
+
+    const refresh = () => setStatus(fdaAPIClient.getRateLimitStatus());
+    refresh();
+
+    const unsubscribe = fdaAPIClient.subscribeRateLimit(refresh);
+    const intervalId = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => {
+      unsubscribe();
+      clearInterval(intervalId);
+    };
+  }, []);
+
+  if (!isVisible || !status) {
+    return null;
+  }
+
+  const isLimited = status.remaining === 0;
+
+  return (
+    <div
+      className={`px-3 py-2 rounded-lg border text-xs font-medium shadow-sm backdrop-blur-sm ${
+        isLimited
+          ? "bg-red-50 text-red-800 border-red-200"
+          : "bg-slate-50 text-slate-800 border-slate-200"
+      }`}
+    >
+      <div className="font-semibold mb-1">API Quota</div>
+
+      <div className="space-y-1.5">
+        {status.windows.map((window) => {
+          const ratio = window.limit > 0 ? window.remaining / window.limit : 0;
+          return (
+            <div key={window.name}>
+              <div className="flex justify-between gap-4">
+                <span className="capitalize">Per {window.name}</span>
+                <span>
+                  {window.remaining.toLocaleString()} /{" "}
+                  {window.limit.toLocaleString()}
+                </span>
+              </div>
+              <div className="h-1 mt-0.5 rounded-full bg-slate-200 overflow-hidden">
+                <div
+                  className={`h-full ${
+                    ratio === 0
+                      ? "bg-red-500"
+                      : ratio < LOW_QUOTA_RATIO
+                        ? "bg-amber-500"
+                        : "bg-emerald-500"
+                  }`}
+                  style={{ width: `${ratio * 100}%` }}
+                />
+              </div>
+              {window.remaining < window.limit && (
+                <div className="text-[11px] opacity-60">
+                  {window.remaining === 0 ? "Next call" : "Recovers from"}{" "}
+                  {formatResetTime(window.resetTime)}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {status.queued > 0 && (
+        <div className="mt-1 opacity-75">
+          {status.queued} {status.queued === 1 ? "request" : "requests"} queued
+          {isLimited && ` until ${formatResetTime(status.resetTime)}`}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RateLimitQuota;
@@ -0,0 +1,94 @@
+/**
+ * RelatedDeviceList Component
+ *
+ * List of predicate or dependent devices linking to their detail pages
+ * K-numbers that couldn't be resolved are listed without details
+ *
+ * Used in: DeviceDetailTemplate
+ * Dependencies: Next.js Link, FDADevice types
+ */
+
+import Link from "next/link";
+import {
+  formatProductClass,
+  PRODUCT_CLASS_BADGE_COLORS,
+} from "@/lib/validation/product-class";
+import type { FDADevice } from "@/types/fda";
+
+interface RelatedDeviceListProps {
+  title: string;
+  devices: FDADevice[];
+  /** K-numbers referenced but not found in any data source */
+  unresolvedKNumbers?: string[];
+  emptyText: string;
+}
+
+/**
+ * Related device list molecule
+ *
+ * Features:
+ * - Class badge, name, manufacturer and clearance date per device
+ * - Links to /devices/[kNumber]
+ */
+export default function RelatedDeviceList({
+  title,
+  devices,
+  unresolvedKNumbers = [],
+  emptyText,
+}: RelatedDeviceListProps) {
+  const total = devices.length + unresolvedKNumbers.length;
+
+  return (
+    <section>
+      <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide mb-3">
+        {title} ({total})
+      </h3>
+      {total > 0 ? (
+        <ul className="space-y-2">
+          {devices.map((device) => (
+            <li key={device.kNumber}>
+              <Link
+                href={`/devices/${device.kNumber}`}
+                className="block p-3 bg-gray-50 rounded-lg border border-gray-200 hover:border-blue-300 hover:bg-blue-50 transition-colors"
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-mono text-gray-600">
+                    {device.kNumber}
+                  </span>
+                  <span
+                    className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
+                      PRODUCT_CLASS_BADGE_COLORS[device.productClass]
+                    }`}
+                  >
+                    {formatProductClass(device.productClass)}
+                  </span>
+                </div>
+                <p className="mt-1 text-sm text-gray-900">
+                  {device.deviceName}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {device.manufacturer} · {device.clearanceDate}
+                </p>
+              </Link>
+            </li>
+          ))}
+          {unresolvedKNumbers.map((kNumber) => (
+            <li
+              key={kNumber}
+              className="p-3 bg-gray-50 rounded-lg border border-dashed border-gray-300"
+            >
+              <span className="text-sm font-mono text-gray-600">{kNumber}</span>
+              <p className="mt-1 text-xs text-gray-500 italic">
+                Not found in the current data source
+              </p>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 italic bg-gray-50 p-3 rounded-lg">
+          {emptyText}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -10,12 +10,13 @@
 
 "use client";
 
-import { useEffect } from "react";
+import { useEffect, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { Search, X, Loader2 } from "lucide-react";
 import { useGraphStore } from "@/stores";
 import { Input } from "@/components/atoms/ui/input";
 import { Button } from "@/components/atoms/ui/button";
+import { parseQuery } from "@/lib/search/query-language";
 
 /**
  * Search form data interface
@@ -40,12 +41,13 @@ interface SearchInputProps {
  *
  * Features:
  * - Real-time search with 300ms debounce
+ * - Structured queries (class:II code:DQY mfr:"Medtronic" cleared:2018..2022)
  * - Integration with Zustand store
  * - Loading states and clear functionality
  * - Responsive design with proper accessibility
  */
 export default function SearchInput({
-  placeholder = "Search devices by K-number, name, or manufacturer...",
+  placeholder = 'Search devices, or try class:II mfr:"Medtronic" cleared:2018..2022',
   className = "",
   autoFocus = false,
 }: SearchInputProps) {
@@ -64,6 +66,7 @@ export default function SearchInput({
     handleSubmit,
     watch,
     setValue,
+    getValues,
     formState: { errors },
   } = useForm<SearchFormData>({
     defaultValues: {
@@ -74,6 +77,24 @@ export default function SearchInput({
   // Watch for input changes (for debounced search)
   const currentQuery = watch("query");
 
+  // Syntax problems in the structured query (shown below the input)
+  const queryErrors = useMemo(
+    () => (currentQuery ? parseQuery(currentQuery).errors : []),
+    [currentQuery],
+  );
+
+  /**
+   * Sync the input with external search changes (URL restore, back/forward)
+   * A cleared store term doesn't wipe a 1-character query being typed
+   */
+  useEffect(() => {
+    const query = getValues("query");
+    if (query === searchTerm || (!searchTerm && query.length < 2)) {
+      return;
+    }
+    setValue("query", searchTerm);
+  }, [searchTerm, getValues, setValue]);
+
   /**
    * Debounced search effect
    * Automatically triggers search 300ms after user stops typing
@@ -200,6 +221,15 @@ export default function SearchInput({
         <p className="mt-1 text-sm text-red-600">{errors.query.message}</p>
       )}
 
+      {/* Query Syntax Warnings */}
+      {queryErrors.length > 0 && (
+        <ul className="mt-1 text-sm text-amber-700">
+          {queryErrors.map((queryError) => (
+            <li key={queryError}>{queryError}</li>
+          ))}
+        </ul>
+      )}
+
       {/* Development Info */}
       <div className="mt-2 text-xs text-gray-500">
         Current query: &quot;{currentQuery}&quot; | Store term: &quot;
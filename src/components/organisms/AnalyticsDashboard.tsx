@@ -0,0 +1,257 @@
+/**
+ * AnalyticsDashboard Component
+ *
+ * Analytics view for the active device dataset: summary cards, clearance
+ * timeline, class distribution, top manufacturers and top product codes
+ *
+ * Distributions use dataset-wide counts (useDeviceFacetCounts); predicate
+ * statistics come from the loaded devices and are labelled as a sample when
+ * those are only part of the dataset
+ *
+ * Chart selections toggle the matching facet filters in the graph store,
+ * which narrows the devices shown in GraphCanvas
+ *
+ * Used in: DashboardTemplate
+ * Dependencies: Zustand store, device analytics utilities, aggregation hooks
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import {
+  Activity,
+  BarChart3,
+  Building2,
+  Calendar,
+  Hash,
+  Layers,
+  Tag,
+  TrendingUp,
+  Users,
+  X,
+} from "lucide-react";
+import { useGraphStore } from "@/stores";
+import { Button } from "@/components/atoms/ui/button";
+import BarList from "@/components/molecules/BarList";
+import ClearanceHistogram from "@/components/molecules/ClearanceHistogram";
+import { computeDeviceAnalytics } from "@/lib/analytics/device-analytics";
+import { useDeviceFacetCounts } from "@/lib/hooks/use-fda-devices";
+import { hasActiveFilters } from "@/lib/search/device-filters";
+import { formatProductClass } from "@/lib/validation/product-class";
+import type { FDADevice, ProductClass } from "@/types/fda";
+
+interface AnalyticsDashboardProps {
+  /** Loaded devices of the active dataset (before facet selections) */
+  devices: FDADevice[];
+  /** Total matching devices reported by the data source */
+  totalCount?: number;
+}
+
+// OpenFDA count queries return at most this many terms
+const COUNT_TERM_LIMIT = 1000;
+
+// Bar colors per device class, matching the graph legend
+const CLASS_BAR_COLORS: Record<string, string> = {
+  I: "bg-green-500",
+  II: "bg-amber-500",
+  III: "bg-red-500",
+};
+
+/**
+ * Analytics dashboard organism
+ *
+ * Features:
+ * - Dataset-wide totals and distributions from the count endpoint
+ * - Predicate statistics from the loaded devices, marked when sampled
+ * - Click-to-filter charts wired to the graph store facets
+ * - Selection summary with one-click reset
+ */
+export default function AnalyticsDashboard({
+  devices,
+  totalCount,
+}: AnalyticsDashboardProps) {
+  const { activeFilters, toggleFilterValue, clearFilters } = useGraphStore();
+
+  // Unfiltered so chart selections don't hide other bars
+  const { counts } = useDeviceFacetCounts();
+  const analytics = useMemo(
+    () => computeDeviceAnalytics(devices, 10, counts),
+    [devices, counts],
+  );
+
+  const datasetTotal = Math.max(totalCount ?? 0, analytics.totalDevices);
+  const sampleDetail =
+    datasetTotal > analytics.totalDevices
+      ? `Sample of ${analytics.totalDevices.toLocaleString()} loaded devices`
+      : undefined;
+
+  const selectedYears = (activeFilters.clearanceYears || []).map(String);
+  const selectedClasses: string[] = activeFilters.productClass || [];
+  const selectedManufacturers = activeFilters.manufacturer || [];
+  const selectedProductCodes = activeFilters.productCode || [];
+
+  const summaryCards = [
+    {
+      title: "Total Devices",
+      value: datasetTotal.toLocaleString(),
+      icon: Hash,
+      trendIcon: TrendingUp,
+      gradient: "from-blue-500 to-blue-600",
+      trendColor: "text-emerald-500",
+    },
+    {
+      title: "Root Devices",
+      value: analytics.rootDevices,
+      detail: sampleDetail,
+      icon: Layers,
+      trendIcon: BarChart3,
+      gradient: "from-emerald-500 to-emerald-600",
+      trendColor: "text-blue-500",
+    },
+    {
+      title: "Manufacturers",
+      value:
+        analytics.uniqueManufacturers >= COUNT_TERM_LIMIT
+          ? `${COUNT_TERM_LIMIT.toLocaleString()}+`
+          : analytics.uniqueManufacturers,
+      icon: Building2,
+      trendIcon: Users,
+      gradient: "from-purple-500 to-purple-600",
+      trendColor: "text-purple-500",
+    },
+    {
+      title: "Avg Predicates",
+      value: analytics.avgPredicatesPerDevice.toFixed(2),
+      detail: sampleDetail,
+      icon: Activity,
+      trendIcon: TrendingUp,
+      gradient: "from-orange-500 to-orange-600",
+      trendColor: "text-orange-500",
+    },
+  ];
+
+  return (
+    <div className="space-y-6 mb-8">
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {summaryCards.map(
+          ({
+            title,
+            value,
+            detail,
+            icon: Icon,
+            trendIcon: TrendIcon,
+            gradient,
+            trendColor,
+          }) => (
+            <div
+              key={title}
+              className="bg-white/70 backdrop-blur-sm rounded-xl border border-white/50 shadow-lg hover:shadow-xl transition-all duration-300 p-6 group"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <div
+                  className={`w-12 h-12 bg-gradient-to-r ${gradient} rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform duration-200`}
+                >
+                  <Icon className="w-6 h-6 text-white" />
+                </div>
+                <TrendIcon className={`w-5 h-5 ${trendColor}`} />
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-slate-600">{title}</p>
+                <p className="text-2xl font-bold text-slate-900">{value}</p>
+                {detail && <p className="text-xs text-slate-500">{detail}</p>}
+              </div>
+            </div>
+          ),
+        )}
+      </div>
+
+      {/* Charts */}
+      <div className="bg-white/70 backdrop-blur-sm rounded-xl border border-white/50 shadow-lg p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-r from-rose-500 to-pink-500 rounded-lg flex items-center justify-center">
+              <BarChart3 className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-slate-900">
+                Clearance Analytics
+              </h2>
+              <p className="text-sm text-slate-600">
+                Click a bar to filter the graph
+              </p>
+            </div>
+          </div>
+          {hasActiveFilters(activeFilters) && (
+            <Button variant="outline" size="sm" onClick={clearFilters}>
+              <X className="w-4 h-4 mr-1" />
+              Clear selection
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Clearance Timeline */}
+          <section className="lg:col-span-2">
+            <h3 className="flex items-center gap-2 text-sm font-medium text-slate-500 uppercase tracking-wide mb-3">
+              <Calendar className="w-4 h-4" />
+              Clearances Over Time
+            </h3>
+            <ClearanceHistogram
+              buckets={analytics.clearancesByYear}
+              selectedYears={selectedYears}
+              onSelect={(year) =>
+                toggleFilterValue("clearanceYears", Number(year))
+              }
+            />
+          </section>
+
+          {/* Class Distribution */}
+          <section>
+            <h3 className="flex items-center gap-2 text-sm font-medium text-slate-500 uppercase tracking-wide mb-3">
+              <Layers className="w-4 h-4" />
+              Class Distribution
+            </h3>
+            <BarList
+              buckets={analytics.classDistribution}
+              selectedValues={selectedClasses}
+              onSelect={(value) =>
+                toggleFilterValue("productClass", value as ProductClass)
+              }
+              formatLabel={(value) => formatProductClass(value as ProductClass)}
+              barClassName={(value) => CLASS_BAR_COLORS[value] || "bg-gray-500"}
+            />
+          </section>
+
+          {/* Top Manufacturers */}
+          <section className="lg:col-span-2">
+            <h3 className="flex items-center gap-2 text-sm font-medium text-slate-500 uppercase tracking-wide mb-3">
+              <Building2 className="w-4 h-4" />
+              Top Manufacturers
+            </h3>
+            <BarList
+              buckets={analytics.topManufacturers}
+              selectedValues={selectedManufacturers}
+              onSelect={(value) => toggleFilterValue("manufacturer", value)}
+              barClassName="bg-purple-500"
+            />
+          </section>
+
+          {/* Top Product Codes */}
+          <section>
+            <h3 className="flex items-center gap-2 text-sm font-medium text-slate-500 uppercase tracking-wide mb-3">
+              <Tag className="w-4 h-4" />
+              Top Product Codes
+            </h3>
+            <BarList
+              buckets={analytics.topProductCodes}
+              selectedValues={selectedProductCodes}
+              onSelect={(value) => toggleFilterValue("productCode", value)}
+              barClassName="bg-blue-500"
+            />
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
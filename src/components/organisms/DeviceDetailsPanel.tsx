@@ -10,11 +10,21 @@
 
 "use client";
 
-import { X } from "lucide-react";
+import Link from "next/link";
+import { ExternalLink, X } from "lucide-react";
 import { useGraphStore } from "@/stores";
 import { Button } from "@/components/atoms/ui/button";
-import { useFDADevices, useDeviceSearch } from "@/lib/hooks/use-fda-devices";
+import {
+  useFDADevice,
+  useFDADevices,
+  useDeviceSearch,
+} from "@/lib/hooks/use-fda-devices";
 import { mockDevices } from "@/lib/mock-data";
+import {
+  formatProductClass,
+  PRODUCT_CLASS_BADGE_COLORS,
+} from "@/lib/validation/product-class";
+import LineageReportActions from "@/components/molecules/LineageReportActions";
 
 /**
  * Device details panel component
@@ -23,11 +33,13 @@ import { mockDevices } from "@/lib/mock-data";
  * - Responsive design (side panel/modal)
  * - Device information display
  * - Predicate devices list
+ * - Lineage report export
  * - Close functionality
  */
 export default function DeviceDetailsPanel() {
   // Store integration - reactive to selected device
-  const { selectedNodeId, clearSelection, searchTerm } = useGraphStore();
+  const { selectedNodeId, clearSelection, searchTerm, savedGraph } =
+    useGraphStore();
 
   // FDA Data Hook Integration - same logic as DashboardTemplate
   const { devices: hookDevices, isLoading } = useFDADevices();
@@ -42,7 +54,10 @@ export default function DeviceDetailsPanel() {
 
   // Data Source Logic - same as DashboardTemplate to ensure consistency
   const displayDevices = (() => {
-    if (searchTerm && searchTerm.length >= 2) {
+    if (savedGraph) {
+      // Loaded saved graph replaces fetched devices
+      return savedGraph.devices;
+    } else if (searchTerm && searchTerm.length >= 2) {
       // Use search results when actively searching
       return isSearching ? mockDevices : searchResults;
     } else {
@@ -52,9 +67,16 @@ export default function DeviceDetailsPanel() {
   })();
 
   // Find selected device from current display devices
-  const selectedDevice = selectedNodeId
+  const listedDevice = selectedNodeId
     ? displayDevices.find((device) => device.kNumber === selectedNodeId)
-    : null;
+    : undefined;
+
+  // Devices outside these lists (filtered results, lineage) come from the
+  // single-device query, which device list queries have already primed
+  const { data: fetchedDevice } = useFDADevice(selectedNodeId ?? "", {
+    enabled: !listedDevice && !savedGraph,
+  });
+  const selectedDevice = listedDevice ?? fetchedDevice ?? null;
 
   // Don't render if no device selected
   if (!selectedDevice) {
@@ -92,18 +114,39 @@ export default function DeviceDetailsPanel() {
           <h2 className="text-lg font-semibold text-gray-900">
             Device Details
           </h2>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={handleClose}
-            className="h-8 w-8"
-          >
-            <X className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center gap-1">
+            {/* Imported devices exist only in this browser, so the server
+                rendered device page can't show them */}
+            {selectedDevice.provenance !== "internal" && (
+              <Button variant="ghost" size="icon" asChild className="h-8 w-8">
+                <Link
+                  href={`/devices/${selectedDevice.kNumber}`}
+                  title="Open device page"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                </Link>
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleClose}
+              className="h-8 w-8"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
 
         {/* Panel Content */}
         <div className="p-4 space-y-6">
+          {/* Internal devices aren't in OpenFDA */}
+          {selectedDevice.provenance === "internal" && (
+            <p className="px-3 py-2 rounded-md border border-dashed border-slate-400 bg-slate-50 text-xs text-slate-700">
+              Internal device imported from a local list - not in OpenFDA
+            </p>
+          )}
+
           {/* Basic Device Information */}
           <section>
             <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide mb-3">
@@ -146,12 +189,10 @@ export default function DeviceDetailsPanel() {
                     <span
                       className={`
                       inline-block px-2 py-1 rounded-full text-xs font-medium
-                      ${selectedDevice.productClass === "I" ? "bg-green-100 text-green-800" : ""}
-                      ${selectedDevice.productClass === "II" ? "bg-amber-100 text-amber-800" : ""}
-                      ${selectedDevice.productClass === "III" ? "bg-red-100 text-red-800" : ""}
+                      ${PRODUCT_CLASS_BADGE_COLORS[selectedDevice.productClass]}
                     `}
                     >
-                      Class {selectedDevice.productClass}
+                      {formatProductClass(selectedDevice.productClass)}
                     </span>
                   </p>
                 </div>
@@ -161,9 +202,11 @@ export default function DeviceDetailsPanel() {
                     Clearance Date
                   </label>
                   <p className="mt-1 text-sm text-gray-900">
-                    {new Date(
-                      selectedDevice.clearanceDate,
-                    ).toLocaleDateString()}
+                    {selectedDevice.clearanceDate
+                      ? new Date(
+                          selectedDevice.clearanceDate,
+                        ).toLocaleDateString()
+                      : "Not cleared"}
                   </p>
                 </div>
               </div>
@@ -245,12 +288,10 @@ export default function DeviceDetailsPanel() {
                           <span
                             className={`
                             inline-block px-2 py-1 rounded-full text-xs font-medium
-                            ${predicateDevice.productClass === "I" ? "bg-green-100 text-green-800" : ""}
-                            ${predicateDevice.productClass === "II" ? "bg-amber-100 text-amber-800" : ""}
-                            ${predicateDevice.productClass === "III" ? "bg-red-100 text-red-800" : ""}
+                            ${PRODUCT_CLASS_BADGE_COLORS[predicateDevice.productClass]}
                           `}
                           >
-                            Class {predicateDevice.productClass}
+                            {formatProductClass(predicateDevice.productClass)}
                           </span>
                         )}
                       </div>
@@ -270,6 +311,14 @@ export default function DeviceDetailsPanel() {
               </p>
             )}
           </section>
+
+          {/* Lineage Report */}
+          <section>
+            <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide mb-3">
+              Lineage Report
+            </h3>
+            <LineageReportActions kNumber={selectedDevice.kNumber} />
+          </section>
         </div>
       </div>
     </>
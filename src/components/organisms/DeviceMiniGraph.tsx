@@ -0,0 +1,63 @@
+/**
+ * DeviceMiniGraph Component
+ *
+ * Focused graph of one device with its direct predicates and dependents
+ * Clicking a neighbour opens that device's detail page
+ *
+ * Used in: DeviceDetailTemplate
+ * Dependencies: GraphCanvas, Next.js router
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import { useRouter } from "next/navigation";
+import { GraphCanvas } from "@/components/organisms/GraphCanvas";
+import type { FDADevice } from "@/types/fda";
+
+interface DeviceMiniGraphProps {
+  device: FDADevice;
+  predicates: FDADevice[];
+  dependents: FDADevice[];
+  height?: string;
+}
+
+/**
+ * Mini-graph organism
+ *
+ * Features:
+ * - Device highlighted among its one-hop neighbourhood
+ * - Click-through navigation between detail pages
+ */
+export default function DeviceMiniGraph({
+  device,
+  predicates,
+  dependents,
+  height = "360px",
+}: DeviceMiniGraphProps) {
+  const router = useRouter();
+
+  // One-hop neighbourhood, deduplicated (a device can be both)
+  const devices = useMemo(() => {
+    const byKNumber = new Map<string, FDADevice>();
+    [device, ...predicates, ...dependents].forEach((d) =>
+      byKNumber.set(d.kNumber, d),
+    );
+    return [...byKNumber.values()];
+  }, [device, predicates, dependents]);
+
+  const handleDeviceSelect = (selected: FDADevice) => {
+    if (selected.kNumber !== device.kNumber) {
+      router.push(`/devices/${selected.kNumber}`);
+    }
+  };
+
+  return (
+    <GraphCanvas
+      devices={devices}
+      selectedDeviceId={device.kNumber}
+      onDeviceSelect={handleDeviceSelect}
+      height={height}
+    />
+  );
+}
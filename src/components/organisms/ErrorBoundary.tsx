@@ -1,12 +1,15 @@
 /**
  * ErrorBoundary Component
  *
- * Provides global error handling for the FDA Device Graph application
- * with graceful fallback to mock data and user-friendly error messages.
+ * Provides error handling for the FDA Device Graph application, app-wide
+ * or around a single widget, with graceful fallback to mock data and
+ * user-friendly error messages.
  *
  * Features:
  * - Catches JavaScript errors anywhere in child component tree
  * - Provides fallback UI with option to retry or use mock data
+ * - Scoped mode: compact inline fallback so the rest of the page keeps working
+ * - Recovery resets TanStack queries and switches data mode in place
  * - Logs errors for debugging and monitoring
  * - Professional error messaging for different error types
  */
@@ -14,13 +17,31 @@
 "use client";
 
 import React, { Component, ErrorInfo, ReactNode } from "react";
+import { QueryClientContext, type QueryKey } from "@tanstack/react-query";
 import { AlertTriangle, RefreshCw, Database, Bug } from "lucide-react";
 import { Button } from "@/components/atoms/ui/button";
+import {
+  APIError,
+  HttpError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  SchemaValidationError,
+  TimeoutError,
+} from "@/lib/api/errors";
+import { setDataMode } from "@/lib/config/environment";
+import { isFDAQueryKey } from "@/lib/hooks/use-fda-devices";
 
 interface Props {
   children: ReactNode;
   fallback?: ReactNode;
   onError?: (error: Error, errorInfo: ErrorInfo) => void;
+  /** Widget name; renders a compact inline fallback instead of a full page */
+  scope?: string;
+  /** Query key prefixes reset on retry (default: all FDA queries) */
+  queryKeys?: QueryKey[];
+  /** Classes for the scoped fallback container (e.g. a fixed height) */
+  className?: string;
 }
 
 interface State {
@@ -31,7 +52,7 @@ interface State {
 }
 
 /**
- * Error categorization for better user messaging
+ * Error categorization for better user messaging, by error class
  */
 const getErrorCategory = (
   error: Error,
@@ -42,35 +63,34 @@ const getErrorCategory = (
   canRetry: boolean;
   canUseMockData: boolean;
 } => {
-  const message = error.message.toLowerCase();
-
-  if (
-    message.includes("fetch") ||
-    message.includes("network") ||
-    message.includes("api")
-  ) {
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
     return {
-      type: "api",
+      type: "network",
       title: "API Connection Error",
       description:
-        "Unable to connect to the FDA API. This might be due to network issues or API limitations.",
+        error instanceof TimeoutError
+          ? "The FDA API did not respond in time. It may be busy; please try again."
+          : "Unable to connect to the FDA API. Please check your network connection.",
       canRetry: true,
       canUseMockData: true,
     };
   }
 
-  if (message.includes("rate limit") || message.includes("429")) {
+  if (error instanceof RateLimitError) {
     return {
       type: "api",
       title: "Rate Limit Exceeded",
-      description:
-        "The FDA API rate limit has been exceeded. Please try again later or use mock data.",
+      description: `The FDA API rate limit has been exceeded. Please try again${
+        error.resetTime
+          ? ` after ${error.resetTime.toLocaleString()}`
+          : " later"
+      } or use mock data.`,
       canRetry: false,
       canUseMockData: true,
     };
   }
 
-  if (message.includes("validation") || message.includes("invalid")) {
+  if (error instanceof SchemaValidationError) {
     return {
       type: "validation",
       title: "Data Validation Error",
@@ -81,6 +101,29 @@ const getErrorCategory = (
     };
   }
 
+  if (error instanceof NotFoundError) {
+    return {
+      type: "api",
+      title: "Not Found",
+      description: "The requested FDA record could not be found.",
+      canRetry: false,
+      canUseMockData: true,
+    };
+  }
+
+  if (error instanceof HttpError || error instanceof APIError) {
+    const isServerError = error instanceof HttpError && error.status >= 500;
+    return {
+      type: "api",
+      title: "FDA API Error",
+      description: isServerError
+        ? "The FDA API is having problems. Please try again shortly or use mock data."
+        : "The FDA API rejected the request. Using mock data may help.",
+      canRetry: isServerError,
+      canUseMockData: true,
+    };
+  }
+
   return {
     type: "unknown",
     title: "Unexpected Error",
@@ -92,6 +135,9 @@ const getErrorCategory = (
 };
 
 export class ErrorBoundary extends Component<Props, State> {
+  static contextType = QueryClientContext;
+  declare context: React.ContextType<typeof QueryClientContext>;
+
   private retryTimeoutId: NodeJS.Timeout | null = null;
 
   constructor(props: Props) {
@@ -170,6 +216,7 @@ export class ErrorBoundary extends Component<Props, State> {
     console.log(`🔄 Retrying in ${delayMs}ms (attempt ${retryCount + 1}/3)`);
 
     this.retryTimeoutId = setTimeout(() => {
+      this.resetQueries(this.props.queryKeys);
       this.setState({
         hasError: false,
         error: null,
@@ -180,19 +227,38 @@ export class ErrorBoundary extends Component<Props, State> {
   };
 
   /**
-   * Handle mock data fallback
+   * Reset queries so remounted children fetch fresh data
+   *
+   * @param queryKeys - Key prefixes to reset; all FDA queries when omitted
    */
-  private handleUseMockData = () => {
-    // Set localStorage to force mock data mode
-    if (typeof window !== "undefined") {
-      localStorage.setItem("FDA_DATA_MODE", "mock");
-      localStorage.setItem("ERROR_RECOVERY_MODE", "true");
+  private resetQueries = (queryKeys?: QueryKey[]) => {
+    const queryClient = this.context;
+    if (!queryClient) {
+      return;
+    }
 
-      // Reload page to reinitialize with mock data
-      window.location.reload();
+    if (queryKeys) {
+      queryKeys.forEach(
+        (queryKey) => void queryClient.resetQueries({ queryKey }),
+      );
+    } else {
+      void queryClient.resetQueries({
+        predicate: (query) => isFDAQueryKey(query.queryKey),
+      });
     }
   };
 
+  /**
+   * Handle mock data fallback: switch data mode in place and refetch
+   */
+  private handleUseMockData = () => {
+    setDataMode("mock");
+
+    // Every FDA query depends on the data mode, not only this widget's
+    this.resetQueries();
+    this.handleReset();
+  };
+
   /**
    * Reset error boundary state
    */
@@ -214,13 +280,74 @@ export class ErrorBoundary extends Component<Props, State> {
         return this.props.fallback;
       }
 
+      // Scoped widget: inline fallback, the rest of the page stays usable
+      if (this.props.scope) {
+        return (
+          <div
+            role="alert"
+            className={`flex flex-col items-center justify-center gap-3 p-6 text-center bg-white/70 border border-red-200 rounded-lg ${this.props.className ?? ""}`}
+          >
+            <div className="flex items-center gap-2">
+              {errorCategory.type === "api" ||
+              errorCategory.type === "network" ? (
+                <AlertTriangle className="h-5 w-5 text-yellow-500" />
+              ) : (
+                <Bug className="h-5 w-5 text-red-500" />
+              )}
+              <h3 className="text-sm font-semibold text-slate-900">
+                {this.props.scope} unavailable · {errorCategory.title}
+              </h3>
+            </div>
+            <p className="max-w-sm text-xs text-slate-600">
+              {errorCategory.description}
+            </p>
+            {process.env.NODE_ENV === "development" && (
+              <pre className="max-w-sm whitespace-pre-wrap break-words text-left text-[11px] text-slate-500">
+                {this.state.error.message}
+              </pre>
+            )}
+            <div className="flex gap-2">
+              {errorCategory.canRetry && this.state.retryCount < 3 && (
+                <Button size="sm" onClick={this.handleRetry}>
+                  <RefreshCw className="h-3 w-3" />
+                  Retry
+                </Button>
+              )}
+              {errorCategory.canUseMockData && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={this.handleUseMockData}
+                >
+                  <Database className="h-3 w-3" />
+                  Use Mock Data
+                </Button>
+              )}
+              {/* Out of retries with nothing else to offer */}
+              {!(errorCategory.canRetry && this.state.retryCount < 3) &&
+                !errorCategory.canUseMockData && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={this.handleReset}
+                  >
+                    <RefreshCw className="h-3 w-3" />
+                    Try Again
+                  </Button>
+                )}
+            </div>
+          </div>
+        );
+      }
+
       // Default error boundary UI
       return (
         <div className="min-h-screen bg-background flex items-center justify-center p-4">
           <div className="max-w-md w-full bg-card border rounded-lg shadow-lg p-6 text-center space-y-4">
             {/* Error Icon */}
             <div className="flex justify-center">
-              {errorCategory.type === "api" ? (
+              {errorCategory.type === "api" ||
+              errorCategory.type === "network" ? (
                 <AlertTriangle className="h-12 w-12 text-yellow-500" />
               ) : (
                 <Bug className="h-12 w-12 text-red-500" />
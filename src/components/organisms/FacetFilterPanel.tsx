@@ -0,0 +1,194 @@
+/**
+ * FacetFilterPanel Component
+ *
+ * Sidebar of multi-select facets (class, product code, panel, manufacturer,
+ * clearance year) with per-value device counts across the whole dataset
+ *
+ * Used in: Dashboard graph section
+ * Dependencies: Zustand store, device facet utilities, aggregation hooks
+ */
+
+"use client";
+
+import { useMemo, useState } from "react";
+import { Filter, X } from "lucide-react";
+import { useGraphStore } from "@/stores";
+import { Button } from "@/components/atoms/ui/button";
+import {
+  computeFacets,
+  hasActiveFilters,
+  type FacetBucket,
+  type FacetFilterKey,
+} from "@/lib/search/device-filters";
+import { useDeviceFacetCounts } from "@/lib/hooks/use-fda-devices";
+import { formatProductClass } from "@/lib/validation/product-class";
+import type { FDADevice, ProductClass } from "@/types/fda";
+
+interface FacetFilterPanelProps {
+  /** Loaded devices, counted for facets whose dataset counts are missing */
+  devices: FDADevice[];
+  className?: string;
+}
+
+/**
+ * Facet sections in display order
+ */
+const FACET_SECTIONS: {
+  key: FacetFilterKey;
+  title: string;
+  formatLabel?: (value: string) => string;
+}[] = [
+  {
+    key: "productClass",
+    title: "Device Class",
+    formatLabel: (v) => formatProductClass(v as ProductClass),
+  },
+  { key: "productCode", title: "Product Code" },
+  { key: "panelType", title: "Panel" },
+  { key: "manufacturer", title: "Manufacturer" },
+  { key: "clearanceYears", title: "Clearance Year" },
+];
+
+// Buckets shown per section before "Show all"
+const COLLAPSED_BUCKET_COUNT = 6;
+
+/**
+ * Faceted filter sidebar
+ *
+ * Features:
+ * - Dataset-wide counts from the count endpoint (loaded devices until then)
+ * - Multi-select per facet (ORed), facets ANDed together
+ * - Selected values stay visible even when their count drops to zero
+ */
+export default function FacetFilterPanel({
+  devices,
+  className = "",
+}: FacetFilterPanelProps) {
+  const { activeFilters, toggleFilterValue, clearFilters } = useGraphStore();
+  const [expanded, setExpanded] = useState<
+    Partial<Record<FacetFilterKey, boolean>>
+  >({});
+
+  const { counts } = useDeviceFacetCounts();
+  const facets = useMemo(
+    () => ({ ...computeFacets(devices), ...counts }),
+    [devices, counts],
+  );
+
+  /**
+   * Selected values of a facet as strings (years are stored as numbers)
+   */
+  const getSelectedValues = (key: FacetFilterKey): string[] =>
+    (activeFilters[key] || []).map(String);
+
+  /**
+   * Toggle a facet value, converting years back to numbers
+   */
+  const handleToggle = (key: FacetFilterKey, value: string) => {
+    if (key === "clearanceYears") {
+      toggleFilterValue(key, Number(value));
+    } else if (key === "productClass") {
+      toggleFilterValue(key, value as ProductClass);
+    } else {
+      toggleFilterValue(key, value);
+    }
+  };
+
+  /**
+   * Buckets to render (selected values first, then top counts) and how many
+   * there are in all, selected values without a bucket included
+   */
+  const getVisibleBuckets = (
+    key: FacetFilterKey,
+  ): { visible: FacetBucket[]; total: number } => {
+    const selected = getSelectedValues(key);
+    const buckets = facets[key];
+    const missingSelected = selected
+      .filter((value) => !buckets.some((bucket) => bucket.value === value))
+      .map((value) => ({ value, count: 0 }));
+    const allBuckets = [...missingSelected, ...buckets];
+
+    const visible = expanded[key]
+      ? allBuckets
+      : allBuckets.filter(
+          (bucket, index) =>
+            index < COLLAPSED_BUCKET_COUNT || selected.includes(bucket.value),
+        );
+
+    return { visible, total: allBuckets.length };
+  };
+
+  return (
+    <aside className={`w-56 shrink-0 space-y-5 text-sm ${className}`}>
+      {/* Panel Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 font-semibold text-slate-900">
+          <Filter className="w-4 h-4" />
+          <span>Filters</span>
+        </div>
+        {hasActiveFilters(activeFilters) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={clearFilters}
+            className="h-7 px-2 text-xs"
+          >
+            <X className="w-3 h-3 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {FACET_SECTIONS.map(({ key, title, formatLabel }) => {
+        const selected = getSelectedValues(key);
+        const { visible: visibleBuckets, total } = getVisibleBuckets(key);
+        const hiddenCount = total - visibleBuckets.length;
+
+        if (total === 0) {
+          return null;
+        }
+
+        return (
+          <section key={key}>
+            <h3 className="text-xs font-medium text-slate-500 uppercase tracking-wide mb-2">
+              {title}
+            </h3>
+            <ul className="space-y-1">
+              {visibleBuckets.map((bucket) => (
+                <li key={bucket.value}>
+                  <label className="flex items-center justify-between gap-2 cursor-pointer rounded px-1 py-0.5 hover:bg-slate-100">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(bucket.value)}
+                        onChange={() => handleToggle(key, bucket.value)}
+                        className="accent-blue-600"
+                      />
+                      <span className="truncate" title={bucket.value}>
+                        {formatLabel ? formatLabel(bucket.value) : bucket.value}
+                      </span>
+                    </span>
+                    <span className="text-xs text-slate-500 tabular-nums">
+                      {bucket.count}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            {(hiddenCount > 0 || expanded[key]) && (
+              <button
+                type="button"
+                onClick={() =>
+                  setExpanded((prev) => ({ ...prev, [key]: !prev[key] }))
+                }
+                className="mt-1 text-xs text-blue-600 hover:underline"
+              >
+                {expanded[key] ? "Show less" : `Show all (${total})`}
+              </button>
+            )}
+          </section>
+        );
+      })}
+    </aside>
+  );
+}
@@ -1,6 +1,12 @@
 "use client";
 
-import React, { useCallback, useMemo, useEffect } from "react";
+import React, {
+  useCallback,
+  useMemo,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
 import {
   ReactFlow,
   Node,
@@ -14,18 +20,35 @@ import {
   BackgroundVariant,
   Panel,
   MarkerType,
+  Position,
+  type ReactFlowInstance,
+  type Viewport,
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
 
 import { FDADevice } from "@/types/fda";
-import { GraphNode, GraphEdge } from "@/types/graph";
+import {
+  GraphNode,
+  GraphEdge,
+  LayoutAlgorithm,
+  LayoutDirection,
+  PathQuery,
+} from "@/types/graph";
 import { DeviceNode } from "@/components/atoms/DeviceNode";
 import { PredicateEdge } from "@/components/atoms/PredicateEdge";
+import GraphExportMenu from "@/components/molecules/GraphExportMenu";
+import GraphMetricsPanel from "@/components/molecules/GraphMetricsPanel";
+import LayoutToolbar from "@/components/molecules/LayoutToolbar";
+import PathSearchSummary from "@/components/molecules/PathSearchSummary";
 import {
-  getLayoutedElements,
-  measureLayoutPerformance,
-  shouldUseDagre,
-} from "@/lib/graph/layout-algorithms";
+  analyzeDeviceGraph,
+  type GraphAnalysis,
+} from "@/lib/graph/graph-analysis";
+import { findPredicatePaths, getPathElementIds } from "@/lib/graph/path-finder";
+import type { LayoutPositions } from "@/lib/graph/layout-worker-protocol";
+import type { SavedGraph } from "@/lib/export/graph-formats";
+import type { GraphRegion } from "@/lib/graph/graph-snapshot";
+import { useGraphLayout } from "@/lib/hooks/use-graph-layout";
 
 /**
  * GraphCanvas Component
@@ -39,6 +62,13 @@ import {
  * - Predicate relationships as directed edges
  * - Mini-map for navigation
  * - Background grid
+ * - Layout toolbar (hierarchy in four directions, force, radial, grid)
+ * - Layout computed in a Web Worker with a progress indicator
+ * - Restorable viewport (URL state)
+ * - Graph metrics (depth, fan-in/fan-out, cycles, layout time)
+ * - Predicate path highlighting between two devices
+ * - Export to JSON/GraphML/GEXF/DOT and reloading saved graphs
+ * - SVG/PNG image export of the current view or the whole graph
  */
 
 interface GraphCanvasProps {
@@ -52,78 +82,84 @@ interface GraphCanvasProps {
   width?: string;
   /** Custom height for canvas container */
   height?: string;
+  /** Layout algorithm (falls back automatically for large graphs) */
+  layoutAlgorithm?: LayoutAlgorithm;
+  /** Callback when a layout is picked in the toolbar */
+  onLayoutAlgorithmChange?: (algorithm: LayoutAlgorithm) => void;
+  /** Rank direction for the hierarchical layout */
+  layoutDirection?: LayoutDirection;
+  /** Callback when a direction is picked in the toolbar */
+  onLayoutDirectionChange?: (direction: LayoutDirection) => void;
+  /** Viewport to restore; fits the graph to view when null */
+  viewport?: Viewport | null;
+  /** Callback after the user finishes panning or zooming */
+  onViewportChange?: (viewport: Viewport) => void;
+  /** Predicate path search to highlight */
+  pathQuery?: PathQuery | null;
+  /** Saved node positions to show instead of a computed layout */
+  presetPositions?: LayoutPositions | null;
+  /** Callback with a saved graph loaded from the export menu */
+  onGraphImport?: (graph: SavedGraph) => void;
 }
 
+// Layouts faster than this never show the progress indicator
+const LAYOUT_PROGRESS_DELAY_MS = 200;
+
+// Highlight color for predicate paths
+const PATH_COLOR = "#7c3aed";
+
+// Opacity of nodes and edges off the highlighted paths
+const DIMMED_OPACITY = 0.25;
+
 /**
- * Transform FDA devices into React Flow compatible nodes with Dagre hierarchical layout
- * Uses Dagre algorithm for predicate relationship positioning
+ * Handle sides per layout direction (edges run predicate → device)
+ */
+const HANDLE_POSITIONS: Record<
+  LayoutDirection,
+  { sourcePosition: Position; targetPosition: Position }
+> = {
+  TB: { sourcePosition: Position.Bottom, targetPosition: Position.Top },
+  BT: { sourcePosition: Position.Top, targetPosition: Position.Bottom },
+  LR: { sourcePosition: Position.Right, targetPosition: Position.Left },
+  RL: { sourcePosition: Position.Left, targetPosition: Position.Right },
+};
+
+/**
+ * Transform FDA devices into React Flow compatible nodes
+ * Positions are filled in asynchronously by the layout worker; selection is
+ * applied afterwards so selecting a device doesn't trigger a re-layout
  *
  * @param devices - Array of FDA device records
- * @param selectedId - Currently selected device for highlighting
- * @returns Array of React Flow node objects with Dagre positioning
+ * @param analysis - Structural statistics for the same devices
+ * @returns Array of unpositioned React Flow node objects
  */
 const transformDevicesToNodes = (
   devices: FDADevice[],
-  selectedId?: string,
-): GraphNode[] => {
-  const startTime = Date.now();
-
-  // Check if Dagre is appropriate for this dataset size
-  const useDagre = shouldUseDagre(devices.length);
-
-  // Create initial nodes without positioning
-  const initialNodes: GraphNode[] = devices.map((device) => {
-    const isSelected = device.kNumber === selectedId;
+  analysis: GraphAnalysis,
+): GraphNode[] =>
+  devices.map((device) => {
+    const stats = analysis.devices[device.kNumber];
 
     return {
       id: device.kNumber,
       type: "deviceNode",
-      position: { x: 0, y: 0 }, // Will be calculated by Dagre
+      position: { x: 0, y: 0 }, // Will be calculated by the layout worker
+      selected: false,
       data: {
         device,
         label: device.deviceName,
-        isSelected,
+        isSelected: false,
         metadata: {
-          childrenCount: devices.filter((d) =>
-            d.predicateDevices.includes(device.kNumber),
-          ).length,
-          predicateCount: device.predicateDevices.length,
-          hierarchyDepth: 0, // Will be calculated by hierarchy analysis
+          childrenCount: stats.fanOut,
+          predicateCount: stats.fanIn,
+          hierarchyDepth: stats.depth,
+          inCycle: stats.inCycle,
         },
       },
       draggable: true,
     };
   });
 
-  // Generate edges for Dagre layout calculation
-  const edges = transformDevicesToEdges(devices);
-
-  // Apply Dagre layout if appropriate, otherwise use fallback
-  let layoutedNodes: GraphNode[];
-
-  if (useDagre) {
-    layoutedNodes = getLayoutedElements(initialNodes, edges);
-    measureLayoutPerformance(devices.length, startTime);
-    console.log(
-      `✅ Dagre Layout Applied: ${devices.length} devices positioned hierarchically`,
-    );
-  } else {
-    // Fallback to grid layout for large datasets
-    console.warn(
-      `Dataset too large (${devices.length} nodes) for Dagre, using grid layout`,
-    );
-    layoutedNodes = initialNodes.map((node, index) => ({
-      ...node,
-      position: {
-        x: (index % 6) * 200,
-        y: Math.floor(index / 6) * 150,
-      },
-    }));
-  }
-
-  return layoutedNodes;
-};
-
 /**
  * Transform predicate relationships into React Flow compatible edges
  *
@@ -174,11 +210,23 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
   onDeviceSelect,
   width = "100%",
   height = "600px",
+  layoutAlgorithm = "dagre",
+  onLayoutAlgorithmChange,
+  layoutDirection = "TB",
+  onLayoutDirectionChange,
+  viewport = null,
+  onViewportChange,
+  pathQuery = null,
+  presetPositions = null,
+  onGraphImport,
 }) => {
+  // Depth, fan-in/fan-out and cycles in a single O(V + E) pass
+  const analysis = useMemo(() => analyzeDeviceGraph(devices), [devices]);
+
   // Transform devices to React Flow format
   const initialNodes = useMemo(
-    () => transformDevicesToNodes(devices, selectedDeviceId),
-    [devices, selectedDeviceId],
+    () => transformDevicesToNodes(devices, analysis),
+    [devices, analysis],
   );
 
   const initialEdges = useMemo(
@@ -186,19 +234,189 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
     [devices],
   );
 
+  // Saved positions apply until a layout is picked in the toolbar
+  const [dismissedPreset, setDismissedPreset] =
+    useState<LayoutPositions | null>(null);
+  const activePreset =
+    presetPositions && presetPositions !== dismissedPreset
+      ? presetPositions
+      : null;
+
+  // Layout runs in a Web Worker; stale layouts are cancelled on change
+  const layout = useGraphLayout(
+    initialNodes,
+    initialEdges,
+    {
+      algorithm: layoutAlgorithm,
+      direction: layoutDirection,
+      // Only the radial layout depends on the selection
+      centerNodeId: layoutAlgorithm === "radial" ? selectedDeviceId : undefined,
+    },
+    activePreset,
+  );
+  const { algorithm: appliedAlgorithm, direction: appliedDirection = "TB" } =
+    layout;
+
   // React Flow state management
-  const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
+  const [nodes, setNodes, onNodesChange] = useNodesState<GraphNode>([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
 
-  // Update nodes and edges when devices prop changes (for filtering)
+  // Fit to view after the next completed layout (initial load, toolbar)
+  const refitPendingRef = useRef(!viewport);
+
+  // A newly loaded saved graph is fitted to view like an initial load
+  useEffect(() => {
+    if (presetPositions) {
+      refitPendingRef.current = true;
+    }
+  }, [presetPositions]);
+
+  // Show progress only for layouts that take noticeable time
+  const [showLayoutProgress, setShowLayoutProgress] = useState(false);
   useEffect(() => {
-    console.log(
-      "GraphCanvas: Updating nodes/edges due to devices change",
-      devices.length,
+    if (!layout.isLayouting) {
+      setShowLayoutProgress(false);
+      return;
+    }
+    const timer = setTimeout(
+      () => setShowLayoutProgress(true),
+      LAYOUT_PROGRESS_DELAY_MS,
     );
-    setNodes(initialNodes);
+    return () => clearTimeout(timer);
+  }, [layout.isLayouting]);
+
+  // React Flow instance - used to apply viewports restored from the URL
+  const [flowInstance, setFlowInstance] = useState<ReactFlowInstance<
+    GraphNode,
+    GraphEdge
+  > | null>(null);
+
+  // Visible area in flow coordinates, for image export of the current view
+  const containerRef = useRef<HTMLDivElement>(null);
+  const getViewportRegion = useCallback((): GraphRegion | null => {
+    const container = containerRef.current;
+    if (!flowInstance || !container) return null;
+
+    const { x, y, zoom } = flowInstance.getViewport();
+    return {
+      x: -x / zoom,
+      y: -y / zoom,
+      width: container.clientWidth / zoom,
+      height: container.clientHeight / zoom,
+    };
+  }, [flowInstance]);
+
+  // Apply each completed layout (devices or layout changed)
+  useEffect(() => {
+    if (!layout.nodes) return;
+
+    // Handles follow the rank direction; other layouts keep top/bottom
+    const handlePositions =
+      HANDLE_POSITIONS[appliedAlgorithm === "dagre" ? appliedDirection : "TB"];
+
+    setNodes(layout.nodes.map((node) => ({ ...node, ...handlePositions })));
     setEdges(initialEdges);
-  }, [initialNodes, initialEdges, setNodes, setEdges, devices.length]);
+
+    if (refitPendingRef.current && flowInstance) {
+      refitPendingRef.current = false;
+      requestAnimationFrame(() => flowInstance.fitView({ padding: 0.2 }));
+    }
+  }, [
+    layout.nodes,
+    appliedAlgorithm,
+    appliedDirection,
+    initialEdges,
+    flowInstance,
+    setNodes,
+    setEdges,
+  ]);
+
+  // Move to an externally provided viewport (e.g. back/forward navigation)
+  useEffect(() => {
+    if (!flowInstance || !viewport) return;
+
+    const current = flowInstance.getViewport();
+    if (
+      Math.round(current.x) !== Math.round(viewport.x) ||
+      Math.round(current.y) !== Math.round(viewport.y) ||
+      current.zoom.toFixed(2) !== viewport.zoom.toFixed(2)
+    ) {
+      flowInstance.setViewport(viewport);
+    }
+  }, [flowInstance, viewport]);
+
+  // Predicate paths for the current query, over the rendered edges
+  const pathResult = useMemo(
+    () => (pathQuery ? findPredicatePaths(initialEdges, pathQuery) : null),
+    [initialEdges, pathQuery],
+  );
+
+  // Highlight the selection and path nodes and edges, dimming the rest (no
+  // re-layout needed)
+  const pathElements = useMemo(
+    () =>
+      pathResult && pathResult.paths.length > 0
+        ? getPathElementIds(pathResult)
+        : null,
+    [pathResult],
+  );
+
+  const displayNodes = useMemo(() => {
+    const withSelection = nodes.map((node) => {
+      const isSelected = node.id === selectedDeviceId;
+      return node.data.isSelected === isSelected && node.selected === isSelected
+        ? node
+        : { ...node, selected: isSelected, data: { ...node.data, isSelected } };
+    });
+
+    if (!pathElements) return withSelection;
+    return withSelection.map((node) =>
+      pathElements.nodeIds.has(node.id)
+        ? { ...node, data: { ...node.data, colorOverride: PATH_COLOR } }
+        : { ...node, style: { ...node.style, opacity: DIMMED_OPACITY } },
+    );
+  }, [nodes, pathElements, selectedDeviceId]);
+
+  const displayEdges = useMemo(() => {
+    if (!pathElements) return edges;
+    return edges.map((edge) =>
+      pathElements.edgeIds.has(edge.id)
+        ? {
+            ...edge,
+            animated: true,
+            style: { ...edge.style, stroke: PATH_COLOR, strokeWidth: 3 },
+            markerEnd: { type: MarkerType.ArrowClosed, color: PATH_COLOR },
+          }
+        : { ...edge, style: { ...edge.style, opacity: DIMMED_OPACITY } },
+    );
+  }, [edges, pathElements]);
+
+  // Report the viewport once a pan/zoom gesture ends
+  const onMoveEnd = useCallback(
+    (_event: MouseEvent | TouchEvent | null, nextViewport: Viewport) => {
+      onViewportChange?.(nextViewport);
+    },
+    [onViewportChange],
+  );
+
+  // Toolbar changes refit once the new layout arrives
+  const handleAlgorithmChange = useCallback(
+    (algorithm: LayoutAlgorithm) => {
+      refitPendingRef.current = true;
+      setDismissedPreset(presetPositions);
+      onLayoutAlgorithmChange?.(algorithm);
+    },
+    [onLayoutAlgorithmChange, presetPositions],
+  );
+
+  const handleDirectionChange = useCallback(
+    (direction: LayoutDirection) => {
+      refitPendingRef.current = true;
+      setDismissedPreset(presetPositions);
+      onLayoutDirectionChange?.(direction);
+    },
+    [onLayoutDirectionChange, presetPositions],
+  );
 
   // Handle new connections (not used for our read-only graph, but required by React Flow)
   const onConnect = useCallback(
@@ -219,19 +437,23 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
 
   return (
     <div
+      ref={containerRef}
       style={{ width, height }}
       className="border border-gray-200 rounded-lg"
     >
       <ReactFlow
-        nodes={nodes}
-        edges={edges}
+        nodes={displayNodes}
+        edges={displayEdges}
         nodeTypes={nodeTypes}
         edgeTypes={edgeTypes}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
         onNodeClick={onNodeClick}
-        fitView
+        onInit={setFlowInstance}
+        onMoveEnd={onMoveEnd}
+        defaultViewport={viewport ?? undefined}
+        fitView={!viewport}
         fitViewOptions={{
           padding: 0.2,
         }}
@@ -262,6 +484,62 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
         {/* Background pattern */}
         <Background variant={BackgroundVariant.Dots} gap={20} size={1} />
 
+        {/* Layout Toolbar and Export Menu */}
+        <Panel position="top-center" className="flex items-start gap-2">
+          {onLayoutAlgorithmChange && (
+            <LayoutToolbar
+              algorithm={layoutAlgorithm}
+              appliedAlgorithm={appliedAlgorithm}
+              direction={layoutDirection}
+              onAlgorithmChange={handleAlgorithmChange}
+              onDirectionChange={handleDirectionChange}
+            />
+          )}
+          <GraphExportMenu
+            nodes={displayNodes}
+            edges={displayEdges}
+            onImport={onGraphImport}
+            getViewportRegion={getViewportRegion}
+          />
+        </Panel>
+
+        {/* Layout Progress */}
+        {showLayoutProgress && (
+          <Panel
+            position="bottom-left"
+            className="bg-white px-3 py-2 rounded-lg shadow-lg w-52"
+          >
+            <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+              <span>Laying out {devices.length} devices…</span>
+              <span className="tabular-nums">
+                {Math.round(layout.progress * 100)}%
+              </span>
+            </div>
+            <div
+              className="h-1.5 bg-gray-200 rounded-full overflow-hidden"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(layout.progress * 100)}
+            >
+              <div
+                className="h-full bg-blue-500 transition-[width] duration-200"
+                style={{ width: `${layout.progress * 100}%` }}
+              />
+            </div>
+          </Panel>
+        )}
+
+        {/* Path Search Result */}
+        {pathQuery && pathResult && (
+          <Panel
+            position="bottom-center"
+            className="bg-white px-3 py-2 rounded-lg shadow-lg"
+          >
+            <PathSearchSummary query={pathQuery} result={pathResult} />
+          </Panel>
+        )}
+
         {/* Info Panel */}
         <Panel
           position="top-right"
@@ -282,10 +560,19 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
                 <div className="w-4 h-4 bg-red-500 rounded"></div>
                 <span>Class III (High Risk)</span>
               </div>
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 bg-gray-500 rounded"></div>
+                <span>Unclassified</span>
+              </div>
             </div>
-            <div className="mt-3 text-xs text-gray-600">
-              Total Devices: {devices.length}
-            </div>
+          </div>
+          <div className="mt-3 pt-3 border-t border-gray-200">
+            <GraphMetricsPanel
+              metrics={{
+                ...analysis.metrics,
+                layoutCalculationTime: layout.duration,
+              }}
+            />
           </div>
         </Panel>
       </ReactFlow>
@@ -12,28 +12,37 @@
 
 import type { DeviceNodeData } from "@/types/graph";
 import type { FDADevice } from "@/types/fda";
-import { mockDevices, getMockDataStats, getRootDevices } from "@/lib/mock-data";
+import { mockDevices, getRootDevices } from "@/lib/mock-data";
 import { GraphCanvas } from "@/components/organisms/GraphCanvas";
 import StoreTest from "@/components/molecules/StoreTest";
 import SearchInput from "@/components/molecules/SearchInput";
+import PathFinderPicker from "@/components/molecules/PathFinderPicker";
+import DeviceTableExportActions from "@/components/molecules/DeviceTableExportActions";
+import InternalDeviceImport from "@/components/molecules/InternalDeviceImport";
 import DeviceDetailsPanel from "@/components/organisms/DeviceDetailsPanel";
+import FacetFilterPanel from "@/components/organisms/FacetFilterPanel";
+import AnalyticsDashboard from "@/components/organisms/AnalyticsDashboard";
 import { DataSourceIndicator } from "@/components/molecules/DataSourceIndicator";
+import { RateLimitQuota } from "@/components/molecules/RateLimitQuota";
 import { EnvironmentToggle } from "@/components/molecules/EnvironmentToggle";
 import { ErrorTester } from "@/components/molecules/ErrorTester";
+import { ErrorBoundary } from "@/components/organisms/ErrorBoundary";
 import { SkeletonPresets } from "@/components/atoms/SkeletonLoader";
 import { useGraphStore } from "@/stores";
 import { useFDADevices, useDeviceSearch } from "@/lib/hooks/use-fda-devices";
+import { useGraphUrlSync } from "@/lib/hooks/use-graph-url-sync";
+import { hasActiveFilters } from "@/lib/search/device-filters";
+import { formatProductClass } from "@/lib/validation/product-class";
 import {
   Search,
-  TrendingUp,
   Activity,
   Layers,
-  Users,
   BarChart3,
   Calendar,
   Hash,
   Building2,
   Shield,
+  X,
 } from "lucide-react";
 
 interface DashboardTemplateProps {
@@ -48,7 +57,31 @@ export function DashboardTemplate({
   stepInfo,
 }: DashboardTemplateProps) {
   // Store integration - reactive to search changes
-  const { searchTerm, filteredDevices, setSelectedNode } = useGraphStore();
+  const {
+    searchTerm,
+    filteredDevices,
+    activeFilters,
+    selectedNodeId,
+    setSelectedNode,
+    layoutAlgorithm,
+    setLayoutAlgorithm,
+    layoutDirection,
+    setLayoutDirection,
+    viewport,
+    setViewport,
+    pathQuery,
+    savedGraph,
+    setSavedGraph,
+  } = useGraphStore();
+  const filtersActive = hasActiveFilters(activeFilters);
+
+  // Shareable URL state - restores on load, back/forward steps selections
+  useGraphUrlSync();
+
+  // Unfiltered first page - predicate statistics and a fallback for facet
+  // counts until the dataset-wide counts load
+  const { devices: facetDevices, totalCount: facetTotalCount } =
+    useFDADevices();
 
   // FDA Data Hook Integration - with environment-based switching
   const {
@@ -57,21 +90,28 @@ export function DashboardTemplate({
     isError,
     error,
     isFromAPI,
+    source: hookSource,
+    lastUpdated: hookLastUpdated,
     totalCount,
     isFetching,
-  } = useFDADevices();
+  } = useFDADevices(filtersActive ? activeFilters : undefined);
 
   // Search Hook Integration - for real-time search
-  const { devices: searchResults, isLoading: isSearching } = useDeviceSearch(
-    searchTerm,
-    {
-      enabled: searchTerm.length >= 2,
-    },
-  );
+  const {
+    devices: searchResults,
+    isLoading: isSearching,
+    source: searchSource,
+    lastUpdated: searchLastUpdated,
+  } = useDeviceSearch(searchTerm, {
+    enabled: searchTerm.length >= 2,
+    filters: filtersActive ? activeFilters : undefined,
+  });
 
-  // Data Source Logic - prioritize hook data over mock data
+  // Data Source Logic - a loaded saved graph, then hook data over mock data
   const displayDevices = (() => {
-    if (searchTerm && searchTerm.length >= 2) {
+    if (savedGraph) {
+      return savedGraph.devices;
+    } else if (searchTerm && searchTerm.length >= 2) {
       // Use search results when actively searching
       return isSearching ? filteredDevices : searchResults;
     } else {
@@ -80,9 +120,28 @@ export function DashboardTemplate({
     }
   })();
 
-  // Stats calculation - adapt to data source
-  const mockStats = getMockDataStats();
+  // Provenance of displayDevices for table exports (mirrors the branches above)
+  const exportContext = (() => {
+    const filters = {
+      ...(filtersActive ? activeFilters : {}),
+      searchTerm: searchTerm.length >= 2 ? searchTerm : undefined,
+    };
+    if (savedGraph) {
+      return { source: null, savedGraphName: savedGraph.name, filters };
+    } else if (searchTerm && searchTerm.length >= 2) {
+      return isSearching
+        ? { source: "mock" as const, filters }
+        : { source: searchSource, lastUpdated: searchLastUpdated, filters };
+    } else {
+      return isLoading
+        ? { source: "mock" as const, filters }
+        : { source: hookSource, lastUpdated: hookLastUpdated, filters };
+    }
+  })();
+
+  // Analytics dataset - unfiltered so chart selections don't hide other bars
   const rootDevices = getRootDevices();
+  const analyticsDevices = isLoading ? mockDevices : facetDevices;
   const sampleDevice = displayDevices[0] || mockDevices[0]; // Fallback to mock if no data
 
   // Loading and Error UI state
@@ -96,7 +155,6 @@ export function DashboardTemplate({
   };
 
   // Development logging for verification
-  console.log("Mock data loaded:", mockStats);
   console.log("Sample devices:", {
     totalDevices: mockDevices.length,
     rootDevicesCount: rootDevices.length,
@@ -148,78 +206,17 @@ export function DashboardTemplate({
           </p>
         </div>
 
-        {/* Statistics Dashboard */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-          {/* Total Devices Card */}
-          <div className="bg-white/70 backdrop-blur-sm rounded-xl border border-white/50 shadow-lg hover:shadow-xl transition-all duration-300 p-6 group">
-            <div className="flex items-center justify-between mb-4">
-              <div className="w-12 h-12 bg-gradient-to-r from-blue-500 to-blue-600 rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform duration-200">
-                <Hash className="w-6 h-6 text-white" />
-              </div>
-              <TrendingUp className="w-5 h-5 text-emerald-500" />
-            </div>
-            <div className="space-y-1">
-              <p className="text-sm font-medium text-slate-600">
-                Total Devices
-              </p>
-              <p className="text-2xl font-bold text-slate-900">
-                {mockStats.totalDevices}
-              </p>
-            </div>
-          </div>
-
-          {/* Root Devices Card */}
-          <div className="bg-white/70 backdrop-blur-sm rounded-xl border border-white/50 shadow-lg hover:shadow-xl transition-all duration-300 p-6 group">
-            <div className="flex items-center justify-between mb-4">
-              <div className="w-12 h-12 bg-gradient-to-r from-emerald-500 to-emerald-600 rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform duration-200">
-                <Layers className="w-6 h-6 text-white" />
-              </div>
-              <BarChart3 className="w-5 h-5 text-blue-500" />
-            </div>
-            <div className="space-y-1">
-              <p className="text-sm font-medium text-slate-600">Root Devices</p>
-              <p className="text-2xl font-bold text-slate-900">
-                {mockStats.rootDevices}
-              </p>
-            </div>
-          </div>
-
-          {/* Manufacturers Card */}
-          <div className="bg-white/70 backdrop-blur-sm rounded-xl border border-white/50 shadow-lg hover:shadow-xl transition-all duration-300 p-6 group">
-            <div className="flex items-center justify-between mb-4">
-              <div className="w-12 h-12 bg-gradient-to-r from-purple-500 to-purple-600 rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform duration-200">
-                <Building2 className="w-6 h-6 text-white" />
-              </div>
-              <Users className="w-5 h-5 text-purple-500" />
-            </div>
-            <div className="space-y-1">
-              <p className="text-sm font-medium text-slate-600">
-                Manufacturers
-              </p>
-              <p className="text-2xl font-bold text-slate-900">
-                {mockStats.uniqueManufacturers}
-              </p>
-            </div>
-          </div>
-
-          {/* Average Predicates Card */}
-          <div className="bg-white/70 backdrop-blur-sm rounded-xl border border-white/50 shadow-lg hover:shadow-xl transition-all duration-300 p-6 group">
-            <div className="flex items-center justify-between mb-4">
-              <div className="w-12 h-12 bg-gradient-to-r from-orange-500 to-orange-600 rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform duration-200">
-                <Activity className="w-6 h-6 text-white" />
-              </div>
-              <TrendingUp className="w-5 h-5 text-orange-500" />
-            </div>
-            <div className="space-y-1">
-              <p className="text-sm font-medium text-slate-600">
-                Avg Predicates
-              </p>
-              <p className="text-2xl font-bold text-slate-900">
-                {mockStats.avgPredicatesPerDevice}
-              </p>
-            </div>
-          </div>
-        </div>
+        {/* Analytics Dashboard */}
+        <ErrorBoundary
+          scope="Statistics"
+          queryKeys={[["fda-devices"], ["fda-aggregation"]]}
+          className="mb-8"
+        >
+          <AnalyticsDashboard
+            devices={analyticsDevices}
+            totalCount={facetTotalCount}
+          />
+        </ErrorBoundary>
 
         {/* Search Section */}
         <div className="bg-white/70 backdrop-blur-sm rounded-xl border border-white/50 shadow-lg p-8 mb-8">
@@ -236,7 +233,9 @@ export function DashboardTemplate({
               </p>
             </div>
           </div>
-          <SearchInput autoFocus={true} />
+          <ErrorBoundary scope="Search" queryKeys={[["fda-search"]]}>
+            <SearchInput autoFocus={true} />
+          </ErrorBoundary>
 
           {/* Search Results Info with Loading States */}
           <div className="mt-4 flex items-center justify-between text-sm">
@@ -261,6 +260,10 @@ export function DashboardTemplate({
               </span>
             </div>
             <div className="flex items-center space-x-2">
+              <DeviceTableExportActions
+                devices={displayDevices}
+                context={exportContext}
+              />
               {showErrorState && (
                 <div className="px-3 py-1 bg-red-100 text-red-700 rounded-full text-xs font-medium">
                   Error: {error?.message || "Failed to load data"}
@@ -274,13 +277,30 @@ export function DashboardTemplate({
                     : `${displayDevices.length} results`}
                 </div>
               )}
-              {isFromAPI && (
+              {isFromAPI && !savedGraph && (
                 <div className="px-3 py-1 bg-green-100 text-green-700 rounded-full text-xs font-medium">
                   Live FDA Data
                 </div>
               )}
+              {savedGraph && (
+                <div className="flex items-center gap-1 pl-3 pr-1 py-1 bg-purple-100 text-purple-700 rounded-full text-xs font-medium">
+                  Saved graph: {savedGraph.name}
+                  <button
+                    type="button"
+                    onClick={() => setSavedGraph(null)}
+                    title="Close saved graph"
+                    aria-label="Close saved graph"
+                    className="p-0.5 rounded-full hover:bg-purple-200"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              )}
             </div>
           </div>
+
+          {/* Internal device lists (unreleased / pending submissions) */}
+          <InternalDeviceImport className="mt-4 pt-4 border-t border-slate-200" />
         </div>
 
         {/* Main Graph Section */}
@@ -301,35 +321,63 @@ export function DashboardTemplate({
                 </div>
               </div>
             </div>
+
+            {/* Predicate Path Finder */}
+            <PathFinderPicker devices={displayDevices} className="mt-4" />
           </div>
 
           <div className="p-6">
             <div className="bg-gradient-to-br from-slate-50 to-blue-50 rounded-lg p-4">
               <div className="flex gap-6">
+                {/* Facet Filters */}
+                <FacetFilterPanel devices={facetDevices} />
+
                 {/* Graph Area */}
                 <div className="flex-1 relative">
-                  {showLoadingState ? (
+                  {showLoadingState && !savedGraph ? (
                     <div className="h-[500px] bg-gradient-to-br from-slate-50 to-blue-50 rounded-lg border overflow-hidden">
                       <SkeletonPresets.GraphCanvas />
                     </div>
                   ) : (
-                    <GraphCanvas
-                      devices={displayDevices}
-                      onDeviceSelect={handleDeviceSelect}
-                      height="500px"
-                    />
+                    <ErrorBoundary
+                      scope="Graph"
+                      queryKeys={[["fda-devices"], ["fda-search"]]}
+                      className="h-[500px]"
+                    >
+                      <GraphCanvas
+                        devices={displayDevices}
+                        onDeviceSelect={handleDeviceSelect}
+                        height="500px"
+                        selectedDeviceId={selectedNodeId ?? undefined}
+                        layoutAlgorithm={layoutAlgorithm}
+                        onLayoutAlgorithmChange={setLayoutAlgorithm}
+                        layoutDirection={layoutDirection}
+                        onLayoutDirectionChange={setLayoutDirection}
+                        viewport={viewport}
+                        onViewportChange={setViewport}
+                        pathQuery={pathQuery}
+                        presetPositions={savedGraph?.positions}
+                        onGraphImport={setSavedGraph}
+                      />
+                    </ErrorBoundary>
                   )}
                 </div>
 
                 {/* Device Details Panel */}
-                <DeviceDetailsPanel />
+                <ErrorBoundary
+                  scope="Device details"
+                  queryKeys={[["fda-devices"], ["fda-search"]]}
+                  className="w-96"
+                >
+                  <DeviceDetailsPanel />
+                </ErrorBoundary>
               </div>
             </div>
           </div>
         </div>
 
-        {/* Device Details and Classification */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+        {/* Featured Device */}
+        <div className="grid grid-cols-1 gap-6 mb-8">
           {/* Sample Device Details */}
           <div className="bg-white/70 backdrop-blur-sm rounded-xl border border-white/50 shadow-lg p-6">
             <div className="flex items-center space-x-3 mb-6">
@@ -388,7 +436,7 @@ export function DashboardTemplate({
                     Product Class
                   </p>
                   <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                    Class {sampleDevice.productClass}
+                    {formatProductClass(sampleDevice.productClass)}
                   </span>
                 </div>
               </div>
@@ -418,56 +466,6 @@ export function DashboardTemplate({
               </div>
             </div>
           </div>
-
-          {/* Classification Distribution */}
-          <div className="bg-white/70 backdrop-blur-sm rounded-xl border border-white/50 shadow-lg p-6">
-            <div className="flex items-center space-x-3 mb-6">
-              <div className="w-10 h-10 bg-gradient-to-r from-rose-500 to-pink-500 rounded-lg flex items-center justify-center">
-                <BarChart3 className="w-5 h-5 text-white" />
-              </div>
-              <div>
-                <h3 className="text-lg font-semibold text-slate-900">
-                  Device Classification
-                </h3>
-                <p className="text-sm text-slate-600">FDA class distribution</p>
-              </div>
-            </div>
-
-            <div className="space-y-4">
-              {/* Class I */}
-              <div className="flex items-center justify-between p-3 bg-gradient-to-r from-emerald-50 to-emerald-100 rounded-lg">
-                <div className="flex items-center space-x-3">
-                  <div className="w-3 h-3 bg-emerald-500 rounded-full"></div>
-                  <span className="font-medium text-slate-900">Class I</span>
-                </div>
-                <span className="text-lg font-bold text-emerald-600">
-                  {mockStats.classDistribution.classI}
-                </span>
-              </div>
-
-              {/* Class II */}
-              <div className="flex items-center justify-between p-3 bg-gradient-to-r from-blue-50 to-blue-100 rounded-lg">
-                <div className="flex items-center space-x-3">
-                  <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
-                  <span className="font-medium text-slate-900">Class II</span>
-                </div>
-                <span className="text-lg font-bold text-blue-600">
-                  {mockStats.classDistribution.classII}
-                </span>
-              </div>
-
-              {/* Class III */}
-              <div className="flex items-center justify-between p-3 bg-gradient-to-r from-orange-50 to-orange-100 rounded-lg">
-                <div className="flex items-center space-x-3">
-                  <div className="w-3 h-3 bg-orange-500 rounded-full"></div>
-                  <span className="font-medium text-slate-900">Class III</span>
-                </div>
-                <span className="text-lg font-bold text-orange-600">
-                  {mockStats.classDistribution.classIII}
-                </span>
-              </div>
-            </div>
-          </div>
         </div>
 
         {/* Development Tools */}
@@ -494,6 +492,7 @@ export function DashboardTemplate({
       {/* Development Tools - Left Side Stack */}
       <div className="fixed bottom-2 right-1 z-50 space-y-4">
         <DataSourceIndicator />
+        <RateLimitQuota />
         <EnvironmentToggle />
         <ErrorTester />
       </div>
@@ -0,0 +1,185 @@
+/**
+ * DeviceDetailTemplate Component
+ *
+ * Full-page layout for a single device: details, predicate and dependent
+ * lists, a focused mini-graph of its neighbourhood and the lineage report
+ *
+ * Used in: /devices/[kNumber] page
+ * Dependencies: DeviceMiniGraph, RelatedDeviceList, LineageReportActions,
+ * Lucide React icons
+ */
+
+import Link from "next/link";
+import { Activity, ArrowLeft, Network } from "lucide-react";
+import DeviceMiniGraph from "@/components/organisms/DeviceMiniGraph";
+import RelatedDeviceList from "@/components/molecules/RelatedDeviceList";
+import LineageReportActions from "@/components/molecules/LineageReportActions";
+import {
+  formatProductClass,
+  PRODUCT_CLASS_BADGE_COLORS,
+} from "@/lib/validation/product-class";
+import type { FDADevice } from "@/types/fda";
+
+interface DeviceDetailTemplateProps {
+  device: FDADevice;
+  predicates: FDADevice[];
+  dependents: FDADevice[];
+}
+
+export function DeviceDetailTemplate({
+  device,
+  predicates,
+  dependents,
+}: DeviceDetailTemplateProps) {
+  // Predicates cited by the device that no data source could resolve
+  const unresolvedPredicates = device.predicateDevices.filter(
+    (kNumber) => !predicates.some((p) => p.kNumber === kNumber),
+  );
+
+  const details: { label: string; value?: string; mono?: boolean }[] = [
+    { label: "K-Number", value: device.kNumber, mono: true },
+    { label: "Manufacturer", value: device.manufacturer },
+    {
+      label: "Clearance Date",
+      value: new Date(device.clearanceDate).toLocaleDateString(),
+    },
+    { label: "Product Code", value: device.productCode, mono: true },
+    { label: "Panel Type", value: device.panelType },
+    { label: "Regulation Number", value: device.regulationNumber, mono: true },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      {/* Navigation Bar */}
+      <nav className="bg-white/80 backdrop-blur-md border-b border-slate-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <Link href="/" className="flex items-center space-x-3">
+              <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-lg flex items-center justify-center">
+                <Activity className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <p className="text-xl font-bold bg-gradient-to-r from-slate-900 to-slate-700 bg-clip-text text-transparent">
+                  Complizen
+                </p>
+                <p className="text-xs text-slate-500">FDA Device Analytics</p>
+              </div>
+            </Link>
+            <Link
+              href={`/?device=${device.kNumber}`}
+              className="flex items-center gap-2 px-3 py-1.5 bg-blue-100 text-blue-700 rounded-full text-sm font-medium hover:bg-blue-200"
+            >
+              <Network className="w-4 h-4" />
+              View in graph
+            </Link>
+          </div>
+        </div>
+      </nav>
+
+      {/* Main Content */}
+      <div className="max-w-7xl mx-auto px-6 py-8 space-y-8">
+        {/* Header Section */}
+        <div>
+          <Link
+            href="/"
+            className="inline-flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700 mb-4"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to dashboard
+          </Link>
+          <div className="flex flex-wrap items-center gap-3">
+            <h1 className="text-3xl font-bold text-slate-900">
+              {device.deviceName}
+            </h1>
+            <span
+              className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
+                PRODUCT_CLASS_BADGE_COLORS[device.productClass]
+              }`}
+            >
+              {formatProductClass(device.productClass)}
+            </span>
+          </div>
+          <p className="mt-1 font-mono text-slate-600">{device.kNumber}</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Device Details */}
+          <div className="bg-white/70 backdrop-blur-sm rounded-xl border border-white/50 shadow-lg p-6 space-y-6">
+            <section>
+              <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wide mb-3">
+                Device Information
+              </h2>
+              <dl className="space-y-3">
+                {details
+                  .filter((detail) => detail.value)
+                  .map(({ label, value, mono }) => (
+                    <div key={label}>
+                      <dt className="text-sm font-medium text-gray-700">
+                        {label}
+                      </dt>
+                      <dd
+                        className={`mt-1 text-sm text-gray-900 ${
+                          mono ? "font-mono bg-gray-50 px-2 py-1 rounded" : ""
+                        }`}
+                      >
+                        {value}
+                      </dd>
+                    </div>
+                  ))}
+              </dl>
+            </section>
+
+            {device.intendedUse && (
+              <section>
+                <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wide mb-3">
+                  Intended Use
+                </h2>
+                <p className="text-sm text-gray-900 leading-relaxed bg-blue-50 p-3 rounded-lg">
+                  {device.intendedUse}
+                </p>
+              </section>
+            )}
+
+            <section>
+              <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wide mb-3">
+                Lineage Report
+              </h2>
+              <LineageReportActions kNumber={device.kNumber} />
+            </section>
+          </div>
+
+          {/* Mini Graph */}
+          <div className="lg:col-span-2 bg-white/70 backdrop-blur-sm rounded-xl border border-white/50 shadow-lg p-6">
+            <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wide mb-3">
+              Predicate Neighbourhood
+            </h2>
+            <DeviceMiniGraph
+              device={device}
+              predicates={predicates}
+              dependents={dependents}
+            />
+          </div>
+        </div>
+
+        {/* Related Devices */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="bg-white/70 backdrop-blur-sm rounded-xl border border-white/50 shadow-lg p-6">
+            <RelatedDeviceList
+              title="Predicate Devices"
+              devices={predicates}
+              unresolvedKNumbers={unresolvedPredicates}
+              emptyText="This is a root device with no predicate devices (likely the first of its type)."
+            />
+          </div>
+          <div className="bg-white/70 backdrop-blur-sm rounded-xl border border-white/50 shadow-lg p-6">
+            <RelatedDeviceList
+              title="Dependent Devices"
+              devices={dependents}
+              emptyText="No cleared devices cite this device as a predicate yet."
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * Device Analytics
+ *
+ * Summary statistics and chart series for the analytics dashboard
+ * Computed from whichever device dataset is active (mock, API, cache).
+ * Distributions can come from dataset-wide count buckets; predicate
+ * statistics need device records, so they describe the loaded devices.
+ */
+
+import type { FDADevice } from "@/types/fda";
+import {
+  countDevicesBy,
+  type DeviceFacets,
+  type FacetBucket,
+} from "@/lib/search/device-filters";
+
+/**
+ * Analytics snapshot of a device dataset
+ */
+export interface DeviceAnalytics {
+  /** Loaded devices the predicate statistics are computed from */
+  totalDevices: number;
+
+  /** Loaded devices with no predicates */
+  rootDevices: number;
+
+  uniqueManufacturers: number;
+
+  /** Average predicates per loaded device */
+  avgPredicatesPerDevice: number;
+
+  /** Clearances per year, oldest first, missing years filled with 0 */
+  clearancesByYear: FacetBucket[];
+
+  /** Devices per class, I → III */
+  classDistribution: FacetBucket[];
+
+  /** Manufacturers with the most clearances */
+  topManufacturers: FacetBucket[];
+
+  /** Product codes with the most clearances */
+  topProductCodes: FacetBucket[];
+}
+
+/**
+ * Fill gaps between the first and last year so the histogram has no holes
+ */
+const fillYearGaps = (buckets: FacetBucket[]): FacetBucket[] => {
+  if (buckets.length === 0) {
+    return [];
+  }
+
+  const counts = new Map(buckets.map((b) => [Number(b.value), b.count]));
+  const years = [...counts.keys()];
+  const first = Math.min(...years);
+  const last = Math.max(...years);
+
+  return Array.from({ length: last - first + 1 }, (_, index) => {
+    const year = first + index;
+    return { value: String(year), count: counts.get(year) || 0 };
+  });
+};
+
+/**
+ * Compute analytics for a device dataset
+ *
+ * @param devices - Loaded devices of the active dataset
+ * @param topN - Number of manufacturers and product codes to rank
+ * @param counts - Dataset-wide buckets (countBy); facets left out are
+ * counted from the loaded devices
+ * @returns Analytics snapshot
+ */
+export const computeDeviceAnalytics = (
+  devices: FDADevice[],
+  topN: number = 10,
+  counts: Partial<DeviceFacets> = {},
+): DeviceAnalytics => {
+  const countBy = (key: keyof DeviceFacets) =>
+    counts[key] ?? countDevicesBy(devices, key);
+  const manufacturers = countBy("manufacturer");
+  const totalPredicates = devices.reduce(
+    (sum, device) => sum + device.predicateDevices.length,
+    0,
+  );
+
+  return {
+    totalDevices: devices.length,
+    rootDevices: devices.filter((d) => d.predicateDevices.length === 0).length,
+    uniqueManufacturers: manufacturers.length,
+    avgPredicatesPerDevice:
+      devices.length > 0 ? totalPredicates / devices.length : 0,
+    clearancesByYear: fillYearGaps(countBy("clearanceYears")),
+    classDistribution: countBy("productClass"),
+    topManufacturers: manufacturers.slice(0, topN),
+    topProductCodes: countBy("productCode").slice(0, topN),
+  };
+};
@@ -5,75 +5,50 @@
  * Designed for FDA API integration but can be extended for other APIs
  */
 
-import { getEnvironmentConfig } from "@/lib/config/environment";
-
-export interface APIError extends Error {
-  status?: number;
-  code?: string;
-  details?: unknown;
-}
+import {
+  getEnvironmentConfig,
+  type APITransport,
+} from "@/lib/config/environment";
+import {
+  APIError,
+  createHttpError,
+  NetworkError,
+  RequestCancelledError,
+  SchemaValidationError,
+  TimeoutError,
+} from "./errors";
+import { RateLimiter, type RateLimitStatus } from "./rate-limiter";
+
+// Request log shared across reloads and tabs, one per transport
+const RATE_LIMIT_STORAGE_KEY = "complizen-rate-limit";
+
+// Client-side request timeout
+const REQUEST_TIMEOUT_MS = 10000;
 
 export interface APIResponse<T = unknown> {
   data: T;
   status: number;
   source: "api" | "mock" | "cache";
   timestamp: number;
+  /** Proxy cache result (`X-Cache` header), proxy transport only */
+  cacheStatus?: "HIT" | "MISS";
 }
 
 /**
- * Rate Limiter for API requests
- * Prevents exceeding FDA API rate limits
+ * Route handler that proxies OpenFDA 510(k) requests
  */
-class RateLimiter {
-  private requests: number[] = [];
-  private readonly maxRequests: number;
-  private readonly windowMs: number;
-
-  constructor(maxRequests: number, windowMs: number = 24 * 60 * 60 * 1000) {
-    this.maxRequests = maxRequests;
-    this.windowMs = windowMs;
-  }
-
-  /**
-   * Check if a request can be made within rate limits
-   *
-   * @returns Whether request is allowed
-   */
-  canMakeRequest(): boolean {
-    const now = Date.now();
-
-    // Remove old requests outside the window
-    this.requests = this.requests.filter((time) => now - time < this.windowMs);
-
-    // Check if we can make another request
-    return this.requests.length < this.maxRequests;
-  }
-
-  /**
-   * Record a new request
-   */
-  recordRequest(): void {
-    this.requests.push(Date.now());
-  }
+export const FDA_PROXY_PATH = "/api/fda/510k";
 
+export interface BaseAPIClientOptions {
+  /** Defaults to the configured transport */
+  transport?: APITransport;
+  /** Endpoint for the proxy transport */
+  proxyPath?: string;
   /**
-   * Get current rate limit status
-   *
-   * @returns Rate limit information
+   * Longest a request may queue for a rate limit slot (rate limiter default
+   * when omitted); 0 fails over-budget requests immediately
    */
-  getStatus() {
-    const now = Date.now();
-    this.requests = this.requests.filter((time) => now - time < this.windowMs);
-
-    return {
-      remaining: Math.max(0, this.maxRequests - this.requests.length),
-      total: this.maxRequests,
-      resetTime:
-        this.requests.length > 0
-          ? new Date(this.requests[0] + this.windowMs)
-          : new Date(),
-    };
-  }
+  maxRateLimitWaitMs?: number;
 }
 
 /**
@@ -81,41 +56,67 @@ class RateLimiter {
  *
  * Provides foundation for HTTP requests with:
  * - Error handling and recovery
- * - Rate limiting
+ * - Rate limiting (direct transport; the proxy limits server-side and
+ *   reports its budget in X-RateLimit-* headers)
  * - Request/response logging
  * - Timeout management
+ * - Direct or proxied transport
  */
 export class BaseAPIClient {
   protected baseURL: string;
   protected apiKey?: string;
   protected rateLimiter: RateLimiter;
   protected config = getEnvironmentConfig();
+  protected transport: APITransport;
+  /** Where requests go: the upstream API or the proxy route */
+  protected endpoint: string;
 
-  constructor() {
+  constructor(options: BaseAPIClientOptions = {}) {
     this.baseURL = this.config.fdaApiBaseUrl;
     this.apiKey = this.config.fdaApiKey;
-    this.rateLimiter = new RateLimiter(this.config.rateLimit);
+    this.transport = options.transport ?? this.config.fdaApiTransport;
+    this.rateLimiter = new RateLimiter(
+      [
+        {
+          name: "minute",
+          limit: this.config.rateLimitPerMinute,
+          windowMs: 60 * 1000,
+        },
+        {
+          name: "day",
+          limit: this.config.rateLimit,
+          windowMs: 24 * 60 * 60 * 1000,
+        },
+      ],
+      {
+        storageKey: `${RATE_LIMIT_STORAGE_KEY}:${this.transport}`,
+        maxWaitMs: options.maxRateLimitWaitMs,
+      },
+    );
+    this.endpoint =
+      this.transport === "proxy"
+        ? (options.proxyPath ?? FDA_PROXY_PATH)
+        : this.baseURL;
   }
 
   /**
-   * Create API Error with additional context
+   * Build a request URL on the active transport
    *
-   * @param message - Error message
-   * @param status - HTTP status code
-   * @param details - Additional error details
-   * @returns Formatted API error
+   * @param params - Query parameters; undefined values are left out
+   * @returns Absolute upstream URL, or the proxy path with the same query
    */
-  protected createError(
-    message: string,
-    status?: number,
-    details?: unknown,
-  ): APIError {
-    const error = new Error(message) as APIError;
-    error.status = status;
-    error.details = details;
-    error.code = status ? `HTTP_${status}` : "API_ERROR";
-
-    return error;
+  protected buildEndpointURL(
+    params: Record<string, string | number | undefined>,
+  ): string {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        query.append(key, value.toString());
+      }
+    });
+
+    const queryString = query.toString();
+    return queryString ? `${this.endpoint}?${queryString}` : this.endpoint;
   }
 
   /**
@@ -129,32 +130,14 @@ export class BaseAPIClient {
       "User-Agent": "Complizen-FDA-Device-Graph/1.0",
     };
 
-    // Add API key if available
-    if (this.apiKey) {
+    // Add API key if available; the proxy adds it server-side
+    if (this.apiKey && this.transport === "direct") {
       headers["Authorization"] = `Bearer ${this.apiKey}`;
     }
 
     return headers;
   }
 
-  /**
-   * Check rate limits before making request
-   *
-   * @throws APIError if rate limit exceeded
-   */
-  protected checkRateLimit(): void {
-    if (!this.rateLimiter.canMakeRequest()) {
-      const status = this.rateLimiter.getStatus();
-      const resetTime = status.resetTime.toLocaleString();
-
-      throw this.createError(
-        `Rate limit exceeded. Resets at ${resetTime}`,
-        429,
-        { rateLimit: status },
-      );
-    }
-  }
-
   /**
    * Log API request for debugging
    *
@@ -178,6 +161,7 @@ export class BaseAPIClient {
     if (this.config.debugApi) {
       console.log(`✅ API Response: ${response.status} (${duration}ms)`, {
         source: response.source,
+        cache: response.cacheStatus ?? "n/a",
         dataLength: Array.isArray(response.data) ? response.data.length : "N/A",
       });
     }
@@ -204,7 +188,8 @@ export class BaseAPIClient {
    * @param url - Request URL
    * @param options - Fetch options
    * @returns Promise with API response
-   * @throws APIError on request failure
+   * @throws NetworkError, TimeoutError, RequestCancelledError, HttpError
+   * (NotFoundError, RateLimitError) or APIError on request failure
    */
   protected async makeRequest<T>(
     url: string,
@@ -213,18 +198,24 @@ export class BaseAPIClient {
     const startTime = Date.now();
 
     try {
-      // Check rate limits
-      this.checkRateLimit();
-
-      // Record request for rate limiting
-      this.rateLimiter.recordRequest();
+      // Wait for a slot in the rate limit budget. The proxy enforces the
+      // budget itself, answers cache hits without spending it and sends
+      // Retry-After when over it, so only direct requests queue here
+      if (this.transport === "direct") {
+        await this.rateLimiter.acquire(options.signal ?? undefined);
+      }
 
       // Log request
       this.logRequest(options.method || "GET", url, options.body);
 
-      // Make HTTP request with timeout
+      // Make HTTP request with timeout, honoring the caller's abort signal
       const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10s timeout
+      const timeoutId = setTimeout(
+        () => controller.abort(),
+        REQUEST_TIMEOUT_MS,
+      );
+      const abortFromCaller = () => controller.abort();
+      options.signal?.addEventListener("abort", abortFromCaller);
 
       const response = await fetch(url, {
         ...options,
@@ -233,26 +224,40 @@ export class BaseAPIClient {
           ...options.headers,
         },
         signal: controller.signal,
+      }).finally(() => {
+        clearTimeout(timeoutId);
+        options.signal?.removeEventListener("abort", abortFromCaller);
       });
 
-      clearTimeout(timeoutId);
+      this.rateLimiter.syncFromHeaders(response.headers);
 
       // Handle HTTP errors
       if (!response.ok) {
-        throw this.createError(
-          `HTTP ${response.status}: ${response.statusText}`,
+        throw createHttpError(
           response.status,
+          response.statusText,
+          response.headers.get("Retry-After"),
           { url },
         );
       }
 
       // Parse response data
-      const data = await response.json();
+      const data = await response.json().catch((parseError) => {
+        throw new SchemaValidationError("Response is not valid JSON", {
+          url,
+          parseError,
+        });
+      });
+      const cacheStatus = response.headers.get("X-Cache");
       const apiResponse: APIResponse<T> = {
         data,
         status: response.status,
         source: "api",
         timestamp: Date.now(),
+        cacheStatus:
+          cacheStatus === "HIT" || cacheStatus === "MISS"
+            ? cacheStatus
+            : undefined,
       };
 
       // Log successful response
@@ -262,13 +267,10 @@ export class BaseAPIClient {
     } catch (error) {
       const duration = Date.now() - startTime;
 
-      // Handle different error types
-      if (error instanceof TypeError && error.message.includes("fetch")) {
-        const networkError = this.createError(
-          "Network error - check internet connection",
-          0,
-          error,
-        );
+      // Handle different error types; fetch rejects with a TypeError when
+      // the request can't be sent at all
+      if (error instanceof TypeError) {
+        const networkError = new NetworkError(undefined, error);
         this.logError(networkError, duration);
         throw networkError;
       }
@@ -279,29 +281,29 @@ export class BaseAPIClient {
         "name" in error &&
         error.name === "AbortError"
       ) {
-        const timeoutError = this.createError(
-          "Request timeout after 10 seconds",
-          408,
-          error,
-        );
+        if (options.signal?.aborted) {
+          const cancelledError = new RequestCancelledError(error);
+          this.logError(cancelledError, duration);
+          throw cancelledError;
+        }
+
+        const timeoutError = new TimeoutError(REQUEST_TIMEOUT_MS, error);
         this.logError(timeoutError, duration);
         throw timeoutError;
       }
 
       // Re-throw API errors as-is
-      if (error instanceof Error && "status" in error) {
-        this.logError(error as APIError, duration);
+      if (error instanceof APIError) {
+        this.logError(error, duration);
         throw error;
       }
 
       // Wrap unknown errors
       const errorMessage =
         error instanceof Error ? error.message : String(error);
-      const unknownError = this.createError(
-        `Unknown API error: ${errorMessage}`,
-        undefined,
-        error instanceof Error ? error : String(error),
-      );
+      const unknownError = new APIError(`Unknown API error: ${errorMessage}`, {
+        details: error instanceof Error ? error : String(error),
+      });
       this.logError(unknownError, duration);
       throw unknownError;
     }
@@ -310,12 +312,21 @@ export class BaseAPIClient {
   /**
    * Get rate limit status
    *
-   * @returns Current rate limit information
+   * @returns Remaining requests and reset times per window, queue length
    */
-  public getRateLimitStatus() {
+  public getRateLimitStatus(): RateLimitStatus {
     return this.rateLimiter.getStatus();
   }
 
+  /**
+   * Listen for rate limit budget and queue changes
+   *
+   * @returns Unsubscribe function
+   */
+  public subscribeRateLimit(listener: () => void): () => void {
+    return this.rateLimiter.subscribe(listener);
+  }
+
   /**
    * Get client configuration
    *
@@ -324,6 +335,8 @@ export class BaseAPIClient {
   public getConfig() {
     return {
       baseURL: this.baseURL,
+      transport: this.transport,
+      endpoint: this.endpoint,
       hasApiKey: !!this.apiKey,
       dataMode: this.config.dataMode,
       rateLimit: this.config.rateLimit,
@@ -0,0 +1,169 @@
+/**
+ * API Error Types
+ *
+ * Error classes thrown by the API clients. Callers branch on the class
+ * (instanceof) rather than on message text; `code` is a stable identifier
+ * for logs and the proxy's error bodies.
+ */
+
+/**
+ * Base class for every error raised by an API client
+ */
+export class APIError extends Error {
+  /** HTTP status, when the error came from an HTTP response */
+  status?: number;
+  code: string;
+  details?: unknown;
+
+  constructor(
+    message: string,
+    options: { status?: number; code?: string; details?: unknown } = {},
+  ) {
+    super(message);
+    this.name = "APIError";
+    this.status = options.status;
+    this.code = options.code ?? "API_ERROR";
+    this.details = options.details;
+  }
+}
+
+/**
+ * Request never reached the server (offline, DNS, CORS)
+ */
+export class NetworkError extends APIError {
+  constructor(
+    message = "Network error - check internet connection",
+    details?: unknown,
+  ) {
+    super(message, { code: "NETWORK_ERROR", details });
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * No response within the client timeout
+ */
+export class TimeoutError extends APIError {
+  timeoutMs: number;
+
+  constructor(timeoutMs: number, details?: unknown) {
+    super(`Request timeout after ${timeoutMs / 1000} seconds`, {
+      code: "TIMEOUT",
+      details,
+    });
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Request aborted by the caller's signal
+ */
+export class RequestCancelledError extends APIError {
+  constructor(details?: unknown) {
+    super("Request cancelled", { code: "REQUEST_CANCELLED", details });
+    this.name = "RequestCancelledError";
+  }
+}
+
+/**
+ * Non-2xx HTTP response
+ */
+export class HttpError extends APIError {
+  declare status: number;
+
+  constructor(status: number, message: string, details?: unknown) {
+    super(message, { status, code: `HTTP_${status}`, details });
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * 404 response; OpenFDA also uses it for searches without matches
+ */
+export class NotFoundError extends HttpError {
+  constructor(message = "HTTP 404: Not Found", details?: unknown) {
+    super(404, message, details);
+    this.code = "NOT_FOUND";
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * Local request budget used up, or a 429 from the server
+ */
+export class RateLimitError extends HttpError {
+  /** When requests are allowed again, if known */
+  resetTime?: Date;
+  /** Seconds until resetTime, for a `Retry-After` header */
+  retryAfter?: number;
+
+  constructor(message: string, resetTime?: Date, details?: unknown) {
+    super(429, message, details);
+    this.code = "RATE_LIMITED";
+    this.name = "RateLimitError";
+    this.resetTime = resetTime;
+    this.retryAfter = resetTime
+      ? Math.max(0, Math.ceil((resetTime.getTime() - Date.now()) / 1000))
+      : undefined;
+  }
+}
+
+/**
+ * Response body doesn't match the expected schema
+ */
+export class SchemaValidationError extends APIError {
+  constructor(message: string, details?: unknown) {
+    super(message, { code: "SCHEMA_VALIDATION", details });
+    this.name = "SchemaValidationError";
+  }
+}
+
+/**
+ * Error for a non-2xx response, by status
+ *
+ * @param status - HTTP status
+ * @param statusText - HTTP status text
+ * @param retryAfter - `Retry-After` header value, if any
+ * @param details - Additional error details
+ */
+export const createHttpError = (
+  status: number,
+  statusText: string,
+  retryAfter?: string | null,
+  details?: unknown,
+): HttpError => {
+  const message = `HTTP ${status}: ${statusText}`;
+
+  if (status === 404) {
+    return new NotFoundError(message, details);
+  }
+
+  if (status === 429) {
+    const seconds = Number(retryAfter);
+    const resetTime =
+      Number.isFinite(seconds) && retryAfter
+        ? new Date(Date.now() + seconds * 1000)
+        : undefined;
+    return new RateLimitError(message, resetTime, details);
+  }
+
+  return new HttpError(status, message, details);
+};
+
+/**
+ * Whether repeating the request could succeed
+ *
+ * Network failures, timeouts and 5xx responses are transient; rate limits,
+ * other 4xx responses, schema mismatches and cancellations are not. Errors
+ * that don't come from an API client are treated as transient.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return true;
+  }
+  if (error instanceof HttpError) {
+    return error.status >= 500;
+  }
+  return !(error instanceof APIError);
+};
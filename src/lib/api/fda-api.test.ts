@@ -0,0 +1,334 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { setDataMode } from "@/lib/config/environment";
+import { FDAAPIClient, type BulkFetchProgress } from "./fda-api";
+
+/**
+ * Stub fetch with an OpenFDA search endpoint over `total` records, honoring
+ * limit and skip; requests past the end get OpenFDA's 404
+ */
+const stubOpenFDA = (total: number) => {
+  const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+    const url = new URL(String(input), "http://localhost");
+    const limit = Number(url.searchParams.get("limit"));
+    const skip = Number(url.searchParams.get("skip") ?? 0);
+    const count = Math.max(0, Math.min(limit, total - skip));
+
+    if (count === 0) {
+      return new Response(JSON.stringify({ error: { code: "NOT_FOUND" } }), {
+        status: 404,
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        meta: {
+          last_updated: "2024-01-01",
+          results: { skip, limit, total },
+        },
+        results: Array.from({ length: count }, (_, i) => ({
+          k_number: `K${String(skip + i).padStart(6, "0")}`,
+          decision_date: "20200101",
+          openfda: { device_class: "2" },
+        })),
+      }),
+      { status: 200 },
+    );
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+};
+
+const requestedPages = (fetchMock: ReturnType<typeof stubOpenFDA>) =>
+  fetchMock.mock.calls.map(([input]) => {
+    const { searchParams } = new URL(String(input), "http://localhost");
+    return [searchParams.get("skip"), searchParams.get("limit")];
+  });
+
+describe("FDAAPIClient.fetchAllDevices", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setDataMode("api");
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("pages with skip and limit, reporting progress", async () => {
+    const fetchMock = stubOpenFDA(5);
+    const client = new FDAAPIClient({ transport: "direct" });
+    const progress: BulkFetchProgress[] = [];
+
+    const pages: string[][] = [];
+    for await (const page of client.fetchAllDevices(
+      {},
+      { pageSize: 2, onProgress: (p) => progress.push(p) },
+    )) {
+      pages.push(page.map((device) => device.kNumber));
+    }
+
+    expect(pages).toEqual([
+      ["K000000", "K000001"],
+      ["K000002", "K000003"],
+      ["K000004"],
+    ]);
+    expect(requestedPages(fetchMock)).toEqual([
+      [null, "2"],
+      ["2", "2"],
+      ["4", "2"],
+    ]);
+    expect(progress).toEqual([
+      { fetched: 2, total: 5, page: 1 },
+      { fetched: 4, total: 5, page: 2 },
+      { fetched: 5, total: 5, page: 3 },
+    ]);
+  });
+
+  it("stops at maxRecords", async () => {
+    const fetchMock = stubOpenFDA(10);
+    const client = new FDAAPIClient({ transport: "direct" });
+
+    const devices = [];
+    for await (const page of client.fetchAllDevices(
+      {},
+      { pageSize: 4, maxRecords: 6 },
+    )) {
+      devices.push(...page);
+    }
+
+    expect(devices).toHaveLength(6);
+    expect(requestedPages(fetchMock)).toEqual([
+      [null, "4"],
+      ["4", "2"],
+    ]);
+  });
+
+  it("ends quietly on OpenFDA's 404 for no matches", async () => {
+    stubOpenFDA(0);
+    const client = new FDAAPIClient({ transport: "direct" });
+    const onProgress = vi.fn();
+
+    const pages = [];
+    for await (const page of client.fetchAllDevices({}, { onProgress })) {
+      pages.push(page);
+    }
+
+    expect(pages).toEqual([]);
+    expect(onProgress).not.toHaveBeenCalled();
+  });
+
+  it("stops fetching pages once aborted", async () => {
+    const fetchMock = stubOpenFDA(10);
+    const client = new FDAAPIClient({ transport: "direct" });
+    const controller = new AbortController();
+
+    const pages = [];
+    for await (const page of client.fetchAllDevices(
+      {},
+      { pageSize: 2, signal: controller.signal },
+    )) {
+      pages.push(page);
+      controller.abort();
+    }
+
+    expect(pages).toHaveLength(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("flags results cut short by OpenFDA's skip limit", async () => {
+    const fetchMock = stubOpenFDA(30_000);
+    const client = new FDAAPIClient({ transport: "direct" });
+    const progress: BulkFetchProgress[] = [];
+
+    let fetched = 0;
+    for await (const page of client.fetchAllDevices(
+      {},
+      { onProgress: (p) => progress.push(p) },
+    )) {
+      fetched += page.length;
+    }
+
+    expect(fetched).toBe(26_000);
+    expect(fetchMock).toHaveBeenCalledTimes(26);
+    expect(progress.at(-1)).toEqual({
+      fetched: 26_000,
+      total: 30_000,
+      page: 26,
+      truncated: true,
+    });
+    expect(progress.slice(0, -1).some((p) => p.truncated)).toBe(false);
+  });
+});
+
+describe("FDAAPIClient response validation", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setDataMode("api");
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const fetchRecords = async (results: unknown[]) => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response(
+            JSON.stringify({
+              meta: {
+                last_updated: "2024-01-01",
+                results: { skip: 0, limit: 100, total: results.length },
+              },
+              results,
+            }),
+          ),
+      ),
+    );
+    const response = await new FDAAPIClient({
+      transport: "direct",
+    }).fetchDevices();
+    expect(response.error).toBeUndefined();
+    return response;
+  };
+
+  it("drops records without a usable k_number", async () => {
+    const { devices, validation } = await fetchRecords([
+      { k_number: "K200001", openfda: { device_class: "2" } },
+      { device_name: "No number" },
+      { k_number: "  ", device_name: "Blank number" },
+      "not a record",
+    ]);
+
+    expect(devices.map((d) => d.kNumber)).toEqual(["K200001"]);
+    expect(validation).toMatchObject({ received: 4, accepted: 1 });
+    expect(validation?.dropped).toEqual([
+      { index: 1, kNumber: undefined, reason: "k_number: Required" },
+      {
+        index: 2,
+        kNumber: "  ",
+        reason: "k_number: String must contain at least 1 character(s)",
+      },
+      {
+        index: 3,
+        kNumber: undefined,
+        reason: "Expected object, received string",
+      },
+    ]);
+  });
+
+  it("reports fields filled from fallbacks or defaults", async () => {
+    const { devices, validation } = await fetchRecords([
+      {
+        k_number: "K200002",
+        device_name: null,
+        applicant: null,
+        decision_date: null,
+        date_received: "2019-05-05",
+        product_code: null,
+        statement_or_summary: null,
+        openfda: { device_class: "2", product_code: "DQY" },
+        predicate_devices: [
+          { k_number: "K100001" },
+          { device_name: "Unnumbered predicate" },
+          { k_number: " ", device_name: "Blank predicate" },
+        ],
+      },
+    ]);
+
+    expect(devices[0]).toMatchObject({
+      deviceName: "Unknown Device",
+      manufacturer: "Unknown Manufacturer",
+      clearanceDate: "2019-05-05",
+      productClass: "II",
+      productCode: "DQY",
+      predicateDevices: ["K100001"],
+      intendedUse: "No description available",
+    });
+    expect(validation?.coerced).toEqual(
+      [
+        ["predicate_devices", "2 entries without k_number dropped"],
+        ["device_name", "Unknown Device"],
+        ["applicant", "Unknown Manufacturer"],
+        ["decision_date", "date_received"],
+        ["product_code", "openfda.product_code"],
+        ["statement_or_summary", "No description available"],
+      ].map(([field, to]) => ({ kNumber: "K200002", field, to })),
+    );
+    expect(validation?.unknownClasses).toEqual([]);
+  });
+
+  it("stores classes other than I, II and III as unknown", async () => {
+    const { devices, validation } = await fetchRecords([
+      { k_number: "K200003", openfda: { device_class: "U" } },
+      { k_number: "K200004", openfda: { device_class: "N" } },
+      { k_number: "K200005", openfda: null },
+      { k_number: "K200006", openfda: { device_class: "3" } },
+    ]);
+
+    expect(devices.map((d) => d.productClass)).toEqual([
+      "unknown",
+      "unknown",
+      "unknown",
+      "III",
+    ]);
+    expect(validation?.unknownClasses).toEqual([
+      { kNumber: "K200003", value: "U" },
+      { kNumber: "K200004", value: "N" },
+      { kNumber: "K200005", value: null },
+    ]);
+  });
+});
+
+describe("FDAAPIClient rate limiting", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setDataMode("api");
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response(
+            JSON.stringify({
+              meta: {
+                last_updated: "2024-01-01",
+                results: { skip: 0, limit: 100, total: 0 },
+              },
+              results: [],
+            }),
+            { headers: { "X-Cache": "HIT" } },
+          ),
+      ),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("spends the local budget on direct requests", async () => {
+    const client = new FDAAPIClient({ transport: "direct" });
+    const { remaining } = client.getRateLimitStatus();
+
+    await client.fetchDevices();
+
+    expect(client.getRateLimitStatus().remaining).toBe(remaining - 1);
+  });
+
+  it("leaves proxied requests to the proxy's limiter", async () => {
+    const client = new FDAAPIClient({ transport: "proxy" });
+    const { remaining } = client.getRateLimitStatus();
+
+    await client.fetchDevices();
+    await client.fetchDevices();
+
+    expect(client.getRateLimitStatus()).toMatchObject({ remaining, queued: 0 });
+  });
+});
@@ -12,53 +12,96 @@
  * - Request/response logging for debugging
  */
 
-import { BaseAPIClient } from "./base-client";
+import type { z } from "zod";
+import { BaseAPIClient, type BaseAPIClientOptions } from "./base-client";
+import { NotFoundError, SchemaValidationError } from "./errors";
+import {
+  KNumberLoader,
+  type KNumberBatchResult,
+  type KNumberLookup,
+} from "./k-number-loader";
 import { FDADevice, DeviceFilters, ProductClass } from "@/types/fda";
 import { mockDevices } from "@/lib/mock-data";
 import { validateEnvironment } from "@/lib/config/environment";
+import { deviceCache } from "@/lib/data/device-cache";
+import {
+  parseQuery,
+  toOpenFDASearch,
+  toOpenFDAPanelTerm,
+  OPENFDA_DEVICE_CLASS,
+} from "@/lib/search/query-language";
+import {
+  applyDeviceFilters,
+  countDevicesBy,
+  sortFacetBuckets,
+  type FacetBucket,
+  type FacetFilterKey,
+} from "@/lib/search/device-filters";
+import { formatZodIssues } from "@/lib/validation/device-schema";
+import { parseProductClass } from "@/lib/validation/product-class";
+import { normalizeReviewPanel } from "@/lib/validation/review-panel";
+import {
+  createValidationReport,
+  hasValidationFindings,
+  openFDACountResponseSchema,
+  openFDAResponseSchema,
+  validateOpenFDARecords,
+  type OpenFDACountResponse,
+  type OpenFDADevice,
+  type OpenFDAResponse,
+  type OpenFDAValidationReport,
+} from "@/lib/validation/openfda-schema";
 
-// OpenFDA API Response Types
-// Based on real OpenFDA 510(k) API response structure
-interface OpenFDAResponse {
-  meta: {
-    disclaimer: string;
-    terms: string;
-    license: string;
-    last_updated: string;
-    results: {
-      skip: number;
-      limit: number;
-      total: number;
-    };
-  };
-  results: OpenFDADevice[];
+/**
+ * Validated search response transformed to devices
+ */
+interface ParsedDeviceResponse {
+  meta: OpenFDAResponse["meta"];
+  devices: FDADevice[];
+  validation: OpenFDAValidationReport;
 }
 
-interface OpenFDADevice {
-  k_number: string;
-  device_name: string;
-  applicant: string;
-  date_received: string;
-  decision_date: string;
-  decision_description: string;
-  clearance_type: string;
-  product_code: string;
-  statement_or_summary: string;
-  type: string;
-  advisory_committee: string;
-  advisory_committee_description: string;
-  openfda?: {
-    device_name?: string;
-    medical_specialty_description?: string;
-    regulation_number?: string;
-    device_class?: string;
-    product_code?: string;
-    device_classification?: string;
-  };
-  predicate_devices?: Array<{
-    k_number: string;
-    device_name?: string;
-  }>;
+/**
+ * OpenFDA field to count on for each facet
+ * `.exact` variants count whole values instead of tokenized words
+ */
+const COUNT_FIELDS: Record<FacetFilterKey, string> = {
+  productClass: "openfda.device_class",
+  productCode: "product_code",
+  panelType: "advisory_committee",
+  manufacturer: "applicant.exact",
+  clearanceYears: "decision_date",
+};
+
+/**
+ * Progress snapshot reported after each page of a bulk fetch
+ */
+export interface BulkFetchProgress {
+  /** Records fetched so far */
+  fetched: number;
+  /** Records that will be fetched in total (capped by maxRecords) */
+  total: number;
+  /** 1-based index of the page just received */
+  page: number;
+  /**
+   * Set on the last report when OpenFDA's skip limit stopped the fetch
+   * before every matching record was received
+   */
+  truncated?: boolean;
+}
+
+/**
+ * Options for paginated bulk fetching
+ */
+export interface BulkFetchOptions {
+  /** Records per request (max 1000) */
+  pageSize?: number;
+  /** Stop after this many records */
+  maxRecords?: number;
+  /** Abort signal to cancel the remaining pages */
+  signal?: AbortSignal;
+  /** Called after each page is received */
+  onProgress?: (progress: BulkFetchProgress) => void;
 }
 
 // Search parameter mapping for OpenFDA API
@@ -76,12 +119,17 @@ interface OpenFDASearchParams {
  * with automatic fallback to mock data on failures
  */
 export class FDAAPIClient extends BaseAPIClient {
-  private readonly BASE_URL = "https://api.fda.gov/device/510k.json";
   private readonly MAX_LIMIT = 1000; // OpenFDA API limit per request
+  private readonly MAX_K_NUMBERS_PER_QUERY = 100; // Keeps batched URLs short
   private readonly DEFAULT_LIMIT = 100;
+  private readonly MAX_SKIP = 25000; // OpenFDA rejects larger skip offsets
+  private readonly kNumberLoader = new KNumberLoader(
+    (kNumbers) => this.fetchDevicesByKNumbers(kNumbers),
+    this.MAX_K_NUMBERS_PER_QUERY,
+  );
 
-  constructor() {
-    super();
+  constructor(options: BaseAPIClientOptions = {}) {
+    super(options);
 
     // Validate environment configuration on initialization
     const config = validateEnvironment();
@@ -102,6 +150,8 @@ export class FDAAPIClient extends BaseAPIClient {
     devices: FDADevice[];
     total: number;
     source: "api" | "mock";
+    lastUpdated?: string;
+    validation?: OpenFDAValidationReport;
     error?: Error;
   }> {
     try {
@@ -120,19 +170,18 @@ export class FDAAPIClient extends BaseAPIClient {
       // Build search parameters
       const searchParams = this.buildSearchParams(filters);
 
-      // Make API request with rate limiting check
-      this.checkRateLimit();
-
       const url = this.buildURL(searchParams);
 
       if (validation.config.debugApi) {
         console.log("FDA API Client: Making request to:", url);
       }
 
-      const response = await this.makeRequest<OpenFDAResponse>(url);
+      const response = await this.makeRequest<unknown>(url);
 
-      // Transform OpenFDA response to our FDADevice format
-      const transformedDevices = this.transformDevices(response.data.results);
+      // Validate and transform OpenFDA response to our FDADevice format
+      const parsed = this.parseDeviceResponse(response.data);
+      const { meta, devices: transformedDevices } = parsed;
+      this.cacheDevices(transformedDevices, meta);
 
       if (validation.config.debugApi) {
         console.log(
@@ -142,8 +191,10 @@ export class FDAAPIClient extends BaseAPIClient {
 
       return {
         devices: transformedDevices,
-        total: response.data.meta.results.total,
+        total: meta.results.total,
         source: "api",
+        lastUpdated: meta.last_updated,
+        validation: parsed.validation,
       };
     } catch (error) {
       console.error("FDA API Client: Request failed:", error);
@@ -157,6 +208,161 @@ export class FDAAPIClient extends BaseAPIClient {
     }
   }
 
+  /**
+   * Fetch every device matching the filters, one page at a time
+   *
+   * Pages through OpenFDA with skip/limit beyond the 1000-record cap.
+   * Each page goes through the rate limiter; iteration stops quietly when
+   * the signal is aborted. OpenFDA rejects skip offsets past 25,000, so
+   * larger result sets end early with a final `truncated` progress report.
+   *
+   * @param filters - Search criteria (limit and skip are ignored)
+   * @param options - Page size, record cap, cancellation and progress
+   * @returns Async iterator yielding one page of devices at a time
+   * @throws APIError when a page request fails (RateLimitError when the
+   * rate limit is hit)
+   */
+  async *fetchAllDevices(
+    filters: DeviceFilters = {},
+    options: BulkFetchOptions = {},
+  ): AsyncGenerator<FDADevice[], void, undefined> {
+    const pageSize = Math.min(
+      options.pageSize || this.MAX_LIMIT,
+      this.MAX_LIMIT,
+    );
+    const maxRecords = options.maxRecords ?? Infinity;
+    const { signal, onProgress } = options;
+
+    let fetched = 0;
+    let total = Infinity;
+    let page = 0;
+
+    while (fetched < Math.min(total, maxRecords) && !signal?.aborted) {
+      const limit = Math.min(pageSize, maxRecords - fetched);
+      let devices: FDADevice[];
+
+      if (validateEnvironment().config.dataMode === "mock") {
+        const mockResponse = this.getMockResponse({
+          ...filters,
+          limit: undefined,
+          skip: undefined,
+        });
+        total = mockResponse.devices.length;
+        devices = mockResponse.devices.slice(fetched, fetched + limit);
+      } else {
+        if (fetched > this.MAX_SKIP) {
+          console.warn(
+            `FDA API Client: Stopping bulk fetch at ${fetched} records (OpenFDA skip limit)`,
+          );
+          onProgress?.({
+            fetched,
+            total: Math.min(total, maxRecords),
+            page,
+            truncated: true,
+          });
+          return;
+        }
+
+        const url = this.buildURL(
+          this.buildSearchParams({ ...filters, limit, skip: fetched }),
+        );
+
+        try {
+          const response = await this.makeRequest<unknown>(url, {
+            signal,
+          });
+          const parsed = this.parseDeviceResponse(response.data);
+          total = parsed.meta.results.total;
+          devices = parsed.devices;
+          this.cacheDevices(devices, parsed.meta);
+        } catch (error) {
+          if (signal?.aborted) {
+            return;
+          }
+          // OpenFDA answers "no matches" with a 404
+          if (error instanceof NotFoundError) {
+            return;
+          }
+          throw error;
+        }
+      }
+
+      if (devices.length === 0) {
+        return;
+      }
+
+      fetched += devices.length;
+      page += 1;
+      onProgress?.({ fetched, total: Math.min(total, maxRecords), page });
+
+      yield devices;
+    }
+  }
+
+  /**
+   * Count devices per value of a field using the OpenFDA count endpoint
+   *
+   * @param field - Facet to group by (e.g. clearance year, product code)
+   * @param filters - Search criteria narrowing the counted devices
+   * @returns Promise with term/count buckets or mock-computed fallback
+   */
+  async countBy(
+    field: FacetFilterKey,
+    filters: DeviceFilters = {},
+  ): Promise<{
+    buckets: FacetBucket[];
+    source: "api" | "mock";
+    error?: Error;
+  }> {
+    const getMockBuckets = () =>
+      countDevicesBy(
+        applyDeviceFilters(mockDevices, {
+          ...filters,
+          limit: undefined,
+          skip: undefined,
+        }),
+        field,
+      );
+
+    try {
+      const validation = validateEnvironment();
+      if (validation.config.dataMode === "mock") {
+        return { buckets: getMockBuckets(), source: "mock" };
+      }
+
+      const { search } = this.buildSearchParams(filters);
+      const url = this.buildURL({
+        search,
+        count: COUNT_FIELDS[field],
+        limit: this.MAX_LIMIT,
+      });
+
+      const response = await this.makeRequest<unknown>(url);
+      const counts = openFDACountResponseSchema.safeParse(response.data);
+      if (!counts.success) {
+        throw this.createSchemaError(counts.error);
+      }
+
+      return {
+        buckets: this.transformCountResults(field, counts.data.results),
+        source: "api",
+      };
+    } catch (error) {
+      // OpenFDA answers "no matches" with a 404
+      if (error instanceof NotFoundError) {
+        return { buckets: [], source: "api" };
+      }
+
+      console.error(`FDA API Client: Count by ${field} failed:`, error);
+
+      return {
+        buckets: getMockBuckets(),
+        source: "mock",
+        error: error instanceof Error ? error : new Error("Unknown API error"),
+      };
+    }
+  }
+
   /**
    * Search for devices by name or manufacturer
    *
@@ -182,35 +388,118 @@ export class FDAAPIClient extends BaseAPIClient {
   /**
    * Get device details by K-number
    *
+   * Lookups made in the same tick are batched into one OpenFDA query, and
+   * a K-number already being fetched shares that request.
+   *
    * @param kNumber - FDA K-number (e.g., "K123456")
    * @returns Promise with device details or mock fallback
    */
-  async getDeviceByKNumber(kNumber: string): Promise<{
-    device: FDADevice | null;
+  async getDeviceByKNumber(kNumber: string): Promise<KNumberLookup> {
+    return this.kNumberLoader.load(kNumber);
+  }
+
+  /**
+   * Fetch several devices by exact K-number in one request
+   *
+   * @param kNumbers - K-numbers to look up (at most MAX_LIMIT)
+   * @returns Promise with the devices found or mock fallback
+   */
+  async fetchDevicesByKNumbers(
+    kNumbers: string[],
+  ): Promise<KNumberBatchResult> {
+    const getMockDevices = () =>
+      mockDevices.filter((d) => kNumbers.includes(d.kNumber));
+
+    try {
+      const validation = validateEnvironment();
+      if (validation.config.dataMode === "mock") {
+        return { devices: getMockDevices(), source: "mock" };
+      }
+
+      // Only plain identifiers go into the query; others can't match anyway
+      const terms = [...new Set(kNumbers)].filter((k) =>
+        /^[A-Za-z0-9]+$/.test(k),
+      );
+      if (terms.length === 0) {
+        return { devices: [], source: "api" };
+      }
+
+      const url = this.buildURL({
+        search: `k_number:(${terms.join(" OR ")})`,
+        limit: Math.min(terms.length, this.MAX_LIMIT),
+      });
+
+      const response = await this.makeRequest<unknown>(url);
+      const { meta, devices } = this.parseDeviceResponse(response.data);
+      this.cacheDevices(devices, meta);
+
+      return { devices, source: "api" };
+    } catch (error) {
+      // OpenFDA answers "no matches" with a 404
+      if (error instanceof NotFoundError) {
+        return { devices: [], source: "api" };
+      }
+
+      console.error(
+        `FDA API Client: Failed to fetch devices ${kNumbers.join(", ")}:`,
+        error,
+      );
+
+      return {
+        devices: getMockDevices(),
+        source: "mock",
+        error: error instanceof Error ? error : new Error("Unknown API error"),
+      };
+    }
+  }
+
+  /**
+   * Get devices that cite a K-number as one of their predicates
+   *
+   * @param kNumber - Predicate K-number to look up
+   * @param limit - Maximum number of dependents to return
+   * @returns Promise with dependent devices or mock fallback
+   */
+  async getDependentDevices(
+    kNumber: string,
+    limit: number = this.DEFAULT_LIMIT,
+  ): Promise<{
+    devices: FDADevice[];
     source: "api" | "mock";
     error?: Error;
   }> {
+    const getMockDependents = () =>
+      mockDevices.filter((d) => d.predicateDevices.includes(kNumber));
+
     try {
-      const result = await this.fetchDevices({ searchTerm: kNumber, limit: 1 });
+      const validation = validateEnvironment();
+      if (validation.config.dataMode === "mock") {
+        return { devices: getMockDependents(), source: "mock" };
+      }
 
-      const device = result.devices.find((d) => d.kNumber === kNumber);
+      const url = this.buildURL({
+        search: `predicate_devices.k_number:"${kNumber}"`,
+        limit: Math.min(limit, this.MAX_LIMIT),
+      });
 
-      return {
-        device: device || null,
-        source: result.source,
-        error: result.error,
-      };
+      const response = await this.makeRequest<unknown>(url);
+      const { meta, devices } = this.parseDeviceResponse(response.data);
+      this.cacheDevices(devices, meta);
+
+      return { devices, source: "api" };
     } catch (error) {
+      // OpenFDA answers "no matches" with a 404
+      if (error instanceof NotFoundError) {
+        return { devices: [], source: "api" };
+      }
+
       console.error(
-        `FDA API Client: Failed to fetch device ${kNumber}:`,
+        `FDA API Client: Failed to fetch dependents of ${kNumber}:`,
         error,
       );
 
-      // Fallback to mock data search
-      const mockDevice = mockDevices.find((d) => d.kNumber === kNumber);
-
       return {
-        device: mockDevice || null,
+        devices: getMockDependents(),
         source: "mock",
         error: error instanceof Error ? error : new Error("Unknown API error"),
       };
@@ -225,25 +514,43 @@ export class FDAAPIClient extends BaseAPIClient {
       limit: Math.min(filters.limit || this.DEFAULT_LIMIT, this.MAX_LIMIT),
     };
 
+    if (filters.skip) {
+      params.skip = Math.min(filters.skip, this.MAX_SKIP);
+    }
+
     // Build search query string
     const searchCriteria: string[] = [];
 
-    // Search term in device name or applicant
+    // Search term parsed with the device query language
     if (filters.searchTerm) {
-      const term = filters.searchTerm.toLowerCase().trim();
-      searchCriteria.push(
-        `(device_name:"${term}" OR applicant:"${term}" OR k_number:"${term}")`,
-      );
+      const querySearch = toOpenFDASearch(parseQuery(filters.searchTerm));
+      if (querySearch) {
+        searchCriteria.push(querySearch);
+      }
     }
 
     // Product class filter
     if (filters.productClass && filters.productClass.length > 0) {
       const classFilters = filters.productClass.map(
-        (cls) => `openfda.device_class:"${cls}"`,
+        (cls) => `openfda.device_class:${OPENFDA_DEVICE_CLASS[cls]}`,
       );
       searchCriteria.push(`(${classFilters.join(" OR ")})`);
     }
 
+    // Product code filter
+    if (filters.productCode && filters.productCode.length > 0) {
+      const codeFilters = filters.productCode.map(
+        (code) => `product_code:${code.toUpperCase()}`,
+      );
+      searchCriteria.push(`(${codeFilters.join(" OR ")})`);
+    }
+
+    // Panel filter (panel names are mapped back to advisory_committee codes)
+    if (filters.panelType && filters.panelType.length > 0) {
+      const panelFilters = filters.panelType.map(toOpenFDAPanelTerm);
+      searchCriteria.push(`(${panelFilters.join(" OR ")})`);
+    }
+
     // Date range filter
     if (filters.dateRange) {
       searchCriteria.push(
@@ -251,6 +558,14 @@ export class FDAAPIClient extends BaseAPIClient {
       );
     }
 
+    // Clearance year filter
+    if (filters.clearanceYears && filters.clearanceYears.length > 0) {
+      const yearFilters = filters.clearanceYears.map(
+        (year) => `decision_date:[${year}-01-01 TO ${year}-12-31]`,
+      );
+      searchCriteria.push(`(${yearFilters.join(" OR ")})`);
+    }
+
     // Manufacturer filter
     if (filters.manufacturer && filters.manufacturer.length > 0) {
       const mfgFilters = filters.manufacturer.map(
@@ -271,72 +586,173 @@ export class FDAAPIClient extends BaseAPIClient {
    * Build complete API URL with parameters
    */
   private buildURL(params: OpenFDASearchParams): string {
-    const url = new URL(this.BASE_URL);
+    return this.buildEndpointURL({ ...params });
+  }
 
-    Object.entries(params).forEach(([key, value]) => {
-      if (value !== undefined) {
-        url.searchParams.append(key, value.toString());
-      }
-    });
+  /**
+   * Persist transformed devices to the offline cache (fire and forget)
+   */
+  private cacheDevices(
+    devices: FDADevice[],
+    meta: OpenFDAResponse["meta"],
+  ): void {
+    void deviceCache.putDevices(devices, meta.last_updated);
+  }
 
-    return url.toString();
+  /**
+   * Create the error raised for payloads that don't match the schema
+   */
+  private createSchemaError(error: z.ZodError): SchemaValidationError {
+    return new SchemaValidationError(
+      `Unexpected OpenFDA response: ${formatZodIssues(error, 3).replace(/\n/g, "; ")}`,
+      error.issues,
+    );
   }
 
   /**
-   * Transform OpenFDA device data to our FDADevice format
+   * Validate a search response and transform its records
+   *
+   * @param data - Parsed JSON body
+   * @returns Metadata, devices and the validation report
+   * @throws SchemaValidationError when the envelope is invalid
    */
-  private transformDevices(openFDADevices: OpenFDADevice[]): FDADevice[] {
-    return openFDADevices.map((device) => this.transformDevice(device));
+  private parseDeviceResponse(data: unknown): ParsedDeviceResponse {
+    const envelope = openFDAResponseSchema.safeParse(data);
+    if (!envelope.success) {
+      throw this.createSchemaError(envelope.error);
+    }
+
+    const validation = createValidationReport(envelope.data.results.length);
+    const devices = validateOpenFDARecords(
+      envelope.data.results,
+      validation,
+    ).map((record) => this.transformDevice(record, validation));
+    validation.accepted = devices.length;
+
+    if (this.config.debugApi && hasValidationFindings(validation)) {
+      console.warn("FDA API Client: Response validation findings", validation);
+    }
+
+    return { meta: envelope.data.meta, devices, validation };
   }
 
   /**
    * Transform single OpenFDA device to FDADevice format
+   *
+   * Missing fields are defaulted or taken from fallback fields, and each
+   * substitution is recorded in the report.
    */
-  private transformDevice(openFDADevice: OpenFDADevice): FDADevice {
+  private transformDevice(
+    openFDADevice: OpenFDADevice,
+    report: OpenFDAValidationReport,
+  ): FDADevice {
+    const kNumber = openFDADevice.k_number;
+    const coerce = <T>(field: string, to: T, label = String(to)): T => {
+      report.coerced.push({ kNumber, field, to: label });
+      return to;
+    };
+
     // Extract predicate devices
-    const predicateDevices = (openFDADevice.predicate_devices || [])
-      .map((pred) => pred.k_number)
-      .filter(Boolean);
+    const predicateEntries = openFDADevice.predicate_devices || [];
+    const predicateDevices = predicateEntries
+      .map((pred) => pred.k_number?.trim())
+      .filter((k): k is string => !!k);
+    if (predicateDevices.length < predicateEntries.length) {
+      coerce(
+        "predicate_devices",
+        null,
+        `${predicateEntries.length - predicateDevices.length} entries without k_number dropped`,
+      );
+    }
 
-    // Map device class
-    const productClass = this.mapProductClass(
-      openFDADevice.openfda?.device_class,
-    );
+    // Map device class; anything but I/II/III is reported, not guessed
+    const rawClass = openFDADevice.openfda?.device_class ?? null;
+    const productClass = this.mapProductClass(rawClass ?? undefined);
+    if (productClass === "unknown") {
+      report.unknownClasses.push({ kNumber, value: rawClass });
+    }
 
     return {
-      kNumber: openFDADevice.k_number,
-      deviceName: openFDADevice.device_name || "Unknown Device",
-      manufacturer: openFDADevice.applicant || "Unknown Manufacturer",
+      kNumber,
+      deviceName:
+        openFDADevice.device_name || coerce("device_name", "Unknown Device"),
+      manufacturer:
+        openFDADevice.applicant || coerce("applicant", "Unknown Manufacturer"),
       clearanceDate:
-        openFDADevice.decision_date || openFDADevice.date_received || "",
+        openFDADevice.decision_date ||
+        (openFDADevice.date_received
+          ? coerce(
+              "decision_date",
+              openFDADevice.date_received,
+              "date_received",
+            )
+          : coerce("decision_date", "", "empty")),
       productClass,
       productCode:
-        openFDADevice.product_code || openFDADevice.openfda?.product_code || "",
+        openFDADevice.product_code ||
+        (openFDADevice.openfda?.product_code
+          ? coerce(
+              "product_code",
+              openFDADevice.openfda.product_code,
+              "openfda.product_code",
+            )
+          : coerce("product_code", "", "empty")),
       predicateDevices,
       intendedUse:
-        openFDADevice.statement_or_summary || "No description available",
-      panelType: openFDADevice.advisory_committee || undefined,
+        openFDADevice.statement_or_summary ||
+        coerce("statement_or_summary", "No description available"),
+      panelType: normalizeReviewPanel(
+        openFDADevice.advisory_committee ||
+          openFDADevice.advisory_committee_description,
+      ),
       regulationNumber: openFDADevice.openfda?.regulation_number || undefined,
     };
   }
 
+  /**
+   * Transform OpenFDA count results to facet buckets
+   *
+   * Daily `time` buckets are rolled up to clearance years, device class
+   * digits are mapped to ProductClass values and advisory committee codes
+   * to panel names.
+   */
+  private transformCountResults(
+    field: FacetFilterKey,
+    results: OpenFDACountResponse["results"],
+  ): FacetBucket[] {
+    const counter = new Map<string, number>();
+
+    results.forEach((result) => {
+      let value: string | undefined;
+      if (field === "clearanceYears") {
+        value = result.time?.slice(0, 4);
+      } else if (field === "productClass") {
+        value = this.mapProductClass(result.term?.toString());
+      } else if (field === "panelType") {
+        value = normalizeReviewPanel(result.term?.toString());
+      } else {
+        value = result.term?.toString();
+      }
+
+      if (value) {
+        counter.set(value, (counter.get(value) || 0) + result.count);
+      }
+    });
+
+    const buckets = [...counter.entries()]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+    return sortFacetBuckets(buckets, field);
+  }
+
   /**
    * Map OpenFDA device class to our ProductClass type
+   * Unclassified ("U"), not classified ("N"), missing or unrecognized
+   * values all become "unknown"
    */
   private mapProductClass(deviceClass?: string): ProductClass {
-    switch (deviceClass) {
-      case "1":
-      case "I":
-        return "I";
-      case "2":
-      case "II":
-        return "II";
-      case "3":
-      case "III":
-        return "III";
-      default:
-        return "II"; // Default to Class II if unknown
-    }
+    return parseProductClass(deviceClass) ?? "unknown";
   }
 
   /**
@@ -347,39 +763,7 @@ export class FDAAPIClient extends BaseAPIClient {
     total: number;
     source: "mock";
   } {
-    let filteredDevices = [...mockDevices];
-
-    // Apply search term filter
-    if (filters.searchTerm) {
-      const term = filters.searchTerm.toLowerCase();
-      filteredDevices = filteredDevices.filter(
-        (device) =>
-          device.deviceName.toLowerCase().includes(term) ||
-          device.manufacturer.toLowerCase().includes(term) ||
-          device.kNumber.toLowerCase().includes(term),
-      );
-    }
-
-    // Apply product class filter
-    if (filters.productClass && filters.productClass.length > 0) {
-      filteredDevices = filteredDevices.filter((device) =>
-        filters.productClass!.includes(device.productClass),
-      );
-    }
-
-    // Apply manufacturer filter
-    if (filters.manufacturer && filters.manufacturer.length > 0) {
-      filteredDevices = filteredDevices.filter((device) =>
-        filters.manufacturer!.some((mfg) =>
-          device.manufacturer.toLowerCase().includes(mfg.toLowerCase()),
-        ),
-      );
-    }
-
-    // Apply limit
-    if (filters.limit) {
-      filteredDevices = filteredDevices.slice(0, filters.limit);
-    }
+    const filteredDevices = applyDeviceFilters(mockDevices, filters);
 
     return {
       devices: filteredDevices,
@@ -0,0 +1,156 @@
+/**
+ * OpenFDA Proxy
+ *
+ * Server side of the /api/fda/510k route: forwards 510(k) queries to
+ * OpenFDA with the server's API key and keeps responses in an LRU cache
+ * shared by every client, so repeated queries don't spend upstream quota.
+ * Server-only: never import from client components.
+ */
+
+import { BaseAPIClient } from "./base-client";
+import { APIError, HttpError, RateLimitError, TimeoutError } from "./errors";
+import { LRUCache } from "./response-cache";
+
+/**
+ * Query parameters forwarded upstream; anything else (e.g. a client-supplied
+ * api_key) is dropped
+ */
+const FORWARDED_PARAMS = ["search", "count", "sort", "limit", "skip"] as const;
+
+const MAX_CACHE_ENTRIES = 500;
+
+/**
+ * Proxied response, ready to send to the client
+ */
+export interface ProxyResult {
+  status: number;
+  /** OpenFDA body (meta and results), or an OpenFDA-style error object */
+  body: unknown;
+  cache: "HIT" | "MISS";
+  /** Seconds since the response was fetched upstream */
+  age: number;
+  /** Seconds until the quota allows another request, on 429 responses */
+  retryAfter?: number;
+}
+
+/**
+ * Normalize a query so equivalent requests share a cache entry
+ *
+ * Keeps forwarded parameters only, trims values, drops empty ones, writes
+ * numbers canonically and sorts keys.
+ *
+ * @param searchParams - Incoming query parameters
+ * @returns Normalized query string (no leading "?")
+ */
+export const normalizeProxyQuery = (searchParams: URLSearchParams): string => {
+  const query = new URLSearchParams();
+
+  [...FORWARDED_PARAMS].sort().forEach((key) => {
+    const value = searchParams.get(key)?.trim();
+    if (!value) return;
+
+    const isNumeric = key === "limit" || key === "skip";
+    query.set(key, isNumeric && /^\d+$/.test(value) ? String(+value) : value);
+  });
+
+  return query.toString();
+};
+
+/**
+ * OpenFDA Proxy Class
+ *
+ * Direct-transport client whose rate limiter tracks the server's upstream
+ * quota; cache hits don't count against it. Over-budget requests fail with
+ * a 429 right away rather than holding the route handler in the queue.
+ * Concurrent requests for the same query share one upstream call.
+ */
+export class OpenFDAProxy extends BaseAPIClient {
+  private cache: LRUCache<{ status: number; body: unknown }>;
+  private inFlight = new Map<string, Promise<ProxyResult>>();
+
+  constructor(maxEntries = MAX_CACHE_ENTRIES) {
+    super({ transport: "direct", maxRateLimitWaitMs: 0 });
+    this.cache = new LRUCache(maxEntries, this.config.cacheTime * 60 * 1000);
+  }
+
+  /**
+   * Answer a normalized query from the cache or OpenFDA
+   *
+   * @param query - Output of normalizeProxyQuery
+   * @returns Status and body to return to the client
+   */
+  async get(query: string): Promise<ProxyResult> {
+    const cached = this.cache.get(query);
+    if (cached) {
+      return {
+        ...cached.value,
+        cache: "HIT",
+        age: Math.floor(cached.age / 1000),
+      };
+    }
+
+    const pending = this.inFlight.get(query);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.fetchUpstream(query).finally(() =>
+      this.inFlight.delete(query),
+    );
+    this.inFlight.set(query, request);
+    return request;
+  }
+
+  /**
+   * Cache size and hit counts
+   */
+  getCacheStats() {
+    return this.cache.getStats();
+  }
+
+  private async fetchUpstream(query: string): Promise<ProxyResult> {
+    const url = query ? `${this.endpoint}?${query}` : this.endpoint;
+
+    try {
+      const response = await this.makeRequest<unknown>(url);
+      const result = { status: response.status, body: response.data };
+      this.cache.set(query, result);
+      return { ...result, cache: "MISS", age: 0 };
+    } catch (error) {
+      // Upstream HTTP errors keep their status; failures to get a usable
+      // answer at all become gateway errors
+      const status =
+        error instanceof HttpError
+          ? error.status
+          : error instanceof TimeoutError
+            ? 504
+            : 502;
+      const result = {
+        status,
+        body: {
+          error: {
+            code: error instanceof APIError ? error.code : "API_ERROR",
+            message: error instanceof Error ? error.message : String(error),
+          },
+        },
+      };
+
+      // OpenFDA answers "no matches" with a 404; that's as cacheable as data
+      if (status === 404) {
+        this.cache.set(query, result);
+      }
+      return {
+        ...result,
+        cache: "MISS",
+        age: 0,
+        retryAfter:
+          error instanceof RateLimitError ? error.retryAfter : undefined,
+      };
+    }
+  }
+}
+
+/**
+ * Shared proxy instance (one cache per server process)
+ */
+export const openFDAProxy = new OpenFDAProxy();
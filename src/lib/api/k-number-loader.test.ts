@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createDevice } from "@/test/fixtures";
+import { KNumberLoader, type KNumberBatchResult } from "./k-number-loader";
+
+// Finds every requested K-number except those starting with "K0"
+const fetchBatch = vi.fn(
+  async (kNumbers: string[]): Promise<KNumberBatchResult> => ({
+    devices: kNumbers
+      .filter((k) => !k.startsWith("K0"))
+      .map((k) => createDevice(k)),
+    source: "api",
+  }),
+);
+
+describe("KNumberLoader", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchBatch.mockClear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("batches lookups from the same tick into one fetch", async () => {
+    const loader = new KNumberLoader(fetchBatch);
+    const lookups = Promise.all([
+      loader.load("K1"),
+      loader.load("K2"),
+      loader.load("K01"),
+    ]);
+    await vi.runAllTimersAsync();
+
+    expect(fetchBatch).toHaveBeenCalledTimes(1);
+    expect(fetchBatch).toHaveBeenCalledWith(["K1", "K2", "K01"]);
+    expect(await lookups).toEqual([
+      { device: createDevice("K1"), source: "api", error: undefined },
+      { device: createDevice("K2"), source: "api", error: undefined },
+      { device: null, source: "api", error: undefined },
+    ]);
+  });
+
+  it("shares pending lookups across case and whitespace", async () => {
+    const loader = new KNumberLoader(fetchBatch);
+    const first = loader.load("k123");
+    const second = loader.load(" K123 ");
+    await vi.runAllTimersAsync();
+
+    expect(second).toBe(first);
+    expect(fetchBatch).toHaveBeenCalledWith(["K123"]);
+    expect((await first).device?.kNumber).toBe("K123");
+  });
+
+  it("matches devices returned with different casing", async () => {
+    const loader = new KNumberLoader(async () => ({
+      devices: [createDevice("k555")],
+      source: "mock",
+    }));
+    const lookup = loader.load("K555");
+    await vi.runAllTimersAsync();
+
+    expect((await lookup).device?.kNumber).toBe("k555");
+  });
+
+  it("splits large batches and fetches again once settled", async () => {
+    const loader = new KNumberLoader(fetchBatch, 2);
+    ["K1", "K2", "K3"].forEach((k) => void loader.load(k));
+    await vi.runAllTimersAsync();
+
+    expect(fetchBatch.mock.calls).toEqual([[["K1", "K2"]], [["K3"]]]);
+
+    void loader.load("K1");
+    await vi.runAllTimersAsync();
+    expect(fetchBatch).toHaveBeenCalledTimes(3);
+  });
+
+  it("rejects every lookup in a failed batch", async () => {
+    const error = new Error("Network down");
+    const loader = new KNumberLoader(async () => {
+      throw error;
+    });
+    const lookups = [loader.load("K1"), loader.load("K2")];
+    lookups.forEach((lookup) => lookup.catch(() => undefined));
+    await vi.runAllTimersAsync();
+
+    await expect(lookups[0]).rejects.toBe(error);
+    await expect(lookups[1]).rejects.toBe(error);
+  });
+});
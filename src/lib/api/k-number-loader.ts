@@ -0,0 +1,124 @@
+/**
+ * K-Number Loader
+ *
+ * Batches single-device lookups: K-numbers requested within the same tick
+ * are fetched with one OpenFDA query, and a K-number already being fetched
+ * shares the pending request instead of starting another. K-numbers are
+ * compared upper-cased and trimmed, so "k123456" and "K123456" share one.
+ */
+
+import type { FDADevice } from "@/types/fda";
+
+/**
+ * Devices found for one batch of K-numbers
+ */
+export interface KNumberBatchResult {
+  devices: FDADevice[];
+  source: "api" | "mock";
+  error?: Error;
+}
+
+/**
+ * Result of a single lookup; device is null when the batch didn't find it
+ */
+export interface KNumberLookup {
+  device: FDADevice | null;
+  source: "api" | "mock";
+  error?: Error;
+}
+
+interface PendingLookup {
+  promise: Promise<KNumberLookup>;
+  resolve: (lookup: KNumberLookup) => void;
+  reject: (reason: unknown) => void;
+}
+
+const DEFAULT_MAX_BATCH_SIZE = 100;
+
+const normalizeKNumber = (kNumber: string) => kNumber.trim().toUpperCase();
+
+/**
+ * K-Number Loader Class
+ */
+export class KNumberLoader {
+  private queued: string[] = [];
+  private inFlight = new Map<string, PendingLookup>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param fetchBatch - Fetches the devices for a list of K-numbers
+   * @param maxBatchSize - K-numbers per query (keeps URLs short)
+   */
+  constructor(
+    private readonly fetchBatch: (
+      kNumbers: string[],
+    ) => Promise<KNumberBatchResult>,
+    private readonly maxBatchSize = DEFAULT_MAX_BATCH_SIZE,
+  ) {}
+
+  /**
+   * Look up a device, batched with other lookups in the same tick
+   *
+   * @param kNumber - Device K-number
+   * @returns Device (or null) with the source of the batch it came from
+   */
+  load(rawKNumber: string): Promise<KNumberLookup> {
+    const kNumber = normalizeKNumber(rawKNumber);
+    const existing = this.inFlight.get(kNumber);
+    if (existing) {
+      return existing.promise;
+    }
+
+    let resolve!: PendingLookup["resolve"];
+    let reject!: PendingLookup["reject"];
+    const promise = new Promise<KNumberLookup>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+
+    this.inFlight.set(kNumber, { promise, resolve, reject });
+    this.queued.push(kNumber);
+
+    // setTimeout rather than a microtask, so lookups issued after a few
+    // awaits (e.g. through the data provider) still join the batch
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), 0);
+    }
+
+    return promise;
+  }
+
+  /**
+   * Send every queued K-number, maxBatchSize per query
+   */
+  private flush(): void {
+    this.flushTimer = null;
+    const kNumbers = this.queued;
+    this.queued = [];
+
+    for (let i = 0; i < kNumbers.length; i += this.maxBatchSize) {
+      void this.runBatch(kNumbers.slice(i, i + this.maxBatchSize));
+    }
+  }
+
+  private async runBatch(kNumbers: string[]): Promise<void> {
+    try {
+      const { devices, source, error } = await this.fetchBatch(kNumbers);
+      const found = new Map(
+        devices.map((device) => [normalizeKNumber(device.kNumber), device]),
+      );
+
+      kNumbers.forEach((kNumber) =>
+        this.inFlight.get(kNumber)?.resolve({
+          device: found.get(kNumber) ?? null,
+          source,
+          error,
+        }),
+      );
+    } catch (error) {
+      kNumbers.forEach((kNumber) => this.inFlight.get(kNumber)?.reject(error));
+    } finally {
+      kNumbers.forEach((kNumber) => this.inFlight.delete(kNumber));
+    }
+  }
+}
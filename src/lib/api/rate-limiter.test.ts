@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RateLimitError } from "./errors";
+import { RateLimiter, type RateLimitWindow } from "./rate-limiter";
+
+const SECOND: RateLimitWindow = { name: "second", limit: 2, windowMs: 1000 };
+const MINUTE: RateLimitWindow = { name: "minute", limit: 3, windowMs: 60_000 };
+
+/**
+ * Acquire a slot, recording when it settles
+ */
+const track = (limiter: RateLimiter, signal?: AbortSignal) => {
+  const state: {
+    settled: "pending" | "resolved" | "rejected";
+    error?: unknown;
+  } = { settled: "pending" };
+  limiter.acquire(signal).then(
+    () => {
+      state.settled = "resolved";
+    },
+    (error) => {
+      state.settled = "rejected";
+      state.error = error;
+    },
+  );
+  return state;
+};
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("queues requests over budget until the window slides", async () => {
+    const limiter = new RateLimiter([SECOND]);
+    const requests = [track(limiter), track(limiter), track(limiter)];
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(requests.map((r) => r.settled)).toEqual([
+      "resolved",
+      "resolved",
+      "pending",
+    ]);
+    expect(limiter.getStatus()).toMatchObject({ remaining: 0, queued: 1 });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(requests[2].settled).toBe("pending");
+    await vi.advanceTimersByTimeAsync(1);
+    expect(requests[2].settled).toBe("resolved");
+    expect(limiter.getStatus().queued).toBe(0);
+  });
+
+  it("waits on the most constrained of several windows", async () => {
+    const limiter = new RateLimiter([MINUTE, SECOND], { maxWaitMs: 120_000 });
+    const requests = Array.from({ length: 4 }, () => track(limiter));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(requests.map((r) => r.settled)).toEqual([
+      "resolved",
+      "resolved",
+      "resolved",
+      "pending",
+    ]);
+    expect(
+      limiter
+        .getStatus()
+        .windows.map(({ name, remaining }) => [name, remaining]),
+    ).toEqual([
+      ["second", 1],
+      ["minute", 0],
+    ]);
+
+    await vi.advanceTimersByTimeAsync(58_999);
+    expect(requests[3].settled).toBe("pending");
+    await vi.advanceTimersByTimeAsync(1);
+    expect(requests[3].settled).toBe("resolved");
+  });
+
+  it("rejects the queue when the next slot is beyond maxWaitMs", async () => {
+    const limiter = new RateLimiter([MINUTE], { maxWaitMs: 1000 });
+    const requests = Array.from({ length: 5 }, () => track(limiter));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(requests.map((r) => r.settled)).toEqual([
+      "resolved",
+      "resolved",
+      "resolved",
+      "rejected",
+      "rejected",
+    ]);
+    const error = requests[3].error as RateLimitError;
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(60);
+    expect(requests[4].error).toBeInstanceOf(RateLimitError);
+    expect(limiter.getStatus().queued).toBe(0);
+  });
+
+  it("leaves the queue on abort and drops the listener once settled", async () => {
+    const limiter = new RateLimiter([SECOND]);
+    const controller = new AbortController();
+    const removeListener = vi.spyOn(controller.signal, "removeEventListener");
+
+    const first = track(limiter, controller.signal);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(first.settled).toBe("resolved");
+    expect(removeListener).toHaveBeenCalledWith("abort", expect.any(Function));
+
+    track(limiter);
+    const queued = track(limiter, controller.signal);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(limiter.getStatus().queued).toBe(1);
+
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queued.settled).toBe("rejected");
+    expect((queued.error as DOMException).name).toBe("AbortError");
+    expect(limiter.getStatus().queued).toBe(0);
+
+    await expect(limiter.acquire(controller.signal)).rejects.toThrow("Aborted");
+  });
+
+  it("shares a persisted budget between instances", async () => {
+    const first = new RateLimiter([SECOND], { storageKey: "test-rate-limit" });
+    const second = new RateLimiter([SECOND], { storageKey: "test-rate-limit" });
+
+    await first.acquire();
+    await first.acquire();
+
+    expect(second.getStatus().remaining).toBe(0);
+    const waiting = track(second);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(waiting.settled).toBe("resolved");
+  });
+
+  it("takes the remaining quota from response headers", () => {
+    const limiter = new RateLimiter([SECOND, MINUTE]);
+    limiter.syncFromHeaders(
+      new Headers({ "X-RateLimit-Limit": "3", "X-RateLimit-Remaining": "1" }),
+    );
+
+    const status = limiter.getStatus();
+    expect(status.windows.map((w) => w.remaining)).toEqual([2, 1]);
+    expect(status.remaining).toBe(1);
+
+    limiter.syncFromHeaders(new Headers());
+    expect(limiter.getStatus().remaining).toBe(1);
+  });
+
+  it("notifies subscribers until they unsubscribe", async () => {
+    const limiter = new RateLimiter([SECOND]);
+    const listener = vi.fn();
+    const unsubscribe = limiter.subscribe(listener);
+
+    await limiter.acquire();
+    expect(listener).toHaveBeenCalled();
+
+    listener.mockClear();
+    unsubscribe();
+    await limiter.acquire();
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Rate Limiter
+ *
+ * Sliding-window request budget over several windows at once (OpenFDA:
+ * 240 requests per minute and 1,000 per day without an API key).
+ * The request log is kept in localStorage so reloads and other tabs share
+ * one budget, and OpenFDA's X-RateLimit headers correct it when present.
+ * Requests over budget wait in a FIFO queue instead of failing.
+ */
+
+import { RateLimitError } from "./errors";
+
+export interface RateLimitWindow {
+  /** Label for status displays, e.g. "minute" */
+  name: string;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitWindowStatus extends RateLimitWindow {
+  remaining: number;
+  /**
+   * When the next request slot frees up if exhausted, otherwise when the
+   * oldest counted request leaves the window (now when there is none)
+   */
+  resetTime: Date;
+}
+
+export interface RateLimitStatus {
+  windows: RateLimitWindowStatus[];
+  /** Remaining requests in the most constrained window */
+  remaining: number;
+  /** Limit of the longest window */
+  total: number;
+  /** When a request may be sent again; now when not limited */
+  resetTime: Date;
+  /** Requests waiting in the queue */
+  queued: number;
+}
+
+export interface RateLimiterOptions {
+  /** localStorage key for the request log; in-memory only when omitted */
+  storageKey?: string;
+  /** Longest a request may wait for a slot before failing */
+  maxWaitMs?: number;
+}
+
+/**
+ * Persisted request log
+ *
+ * Requests are [timestamp, count] buckets, oldest first. Requests older
+ * than the shortest window are merged into one-minute buckets, which keeps
+ * a day of 120,000 requests to at most ~1,500 entries.
+ */
+interface RateLimitLog {
+  requests: [number, number][];
+  /** Quota last reported by the server */
+  server?: { limit: number; remaining: number; observedAt: number };
+}
+
+interface QueuedRequest {
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+}
+
+const COMPACT_BUCKET_MS = 60 * 1000;
+const DEFAULT_MAX_WAIT_MS = 60 * 1000;
+
+/**
+ * Rate Limiter Class
+ */
+export class RateLimiter {
+  private readonly windows: RateLimitWindow[];
+  private readonly storageKey?: string;
+  private readonly maxWaitMs: number;
+  private memoryLog: RateLimitLog = { requests: [] };
+  private queue: QueuedRequest[] = [];
+  private drainTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor(windows: RateLimitWindow[], options: RateLimiterOptions = {}) {
+    this.windows = [...windows].sort((a, b) => a.windowMs - b.windowMs);
+    this.storageKey = options.storageKey;
+    this.maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+
+    // Another tab spending the shared budget
+    if (this.storageKey && typeof window !== "undefined") {
+      window.addEventListener("storage", (event) => {
+        if (event.key === this.storageKey) this.notify();
+      });
+    }
+  }
+
+  // ============================================================================
+  // Request log
+  // ============================================================================
+
+  private get longestWindowMs(): number {
+    return this.windows[this.windows.length - 1]?.windowMs ?? 0;
+  }
+
+  private get shortestWindowMs(): number {
+    return this.windows[0]?.windowMs ?? 0;
+  }
+
+  /**
+   * Read the log (from storage when persisted), dropping expired entries
+   */
+  private readLog(now = Date.now()): RateLimitLog {
+    let log = this.memoryLog;
+
+    if (this.storageKey && typeof window !== "undefined") {
+      try {
+        const stored = localStorage.getItem(this.storageKey);
+        log = stored ? (JSON.parse(stored) as RateLimitLog) : { requests: [] };
+        if (!Array.isArray(log.requests)) log = { requests: [] };
+      } catch {
+        log = this.memoryLog;
+      }
+    }
+
+    const cutoff = now - this.longestWindowMs;
+    return {
+      requests: log.requests.filter(([time]) => time > cutoff),
+      server:
+        log.server && log.server.observedAt > cutoff ? log.server : undefined,
+    };
+  }
+
+  private writeLog(log: RateLimitLog): void {
+    this.memoryLog = log;
+
+    if (this.storageKey && typeof window !== "undefined") {
+      try {
+        localStorage.setItem(this.storageKey, JSON.stringify(log));
+      } catch {
+        // Quota exceeded or storage disabled; the in-memory log still works
+      }
+    }
+  }
+
+  /**
+   * Append a request, merging entries past the shortest window into
+   * one-minute buckets
+   */
+  private recordRequest(now = Date.now()): void {
+    const log = this.readLog(now);
+    const compactBefore = now - this.shortestWindowMs;
+    const requests: [number, number][] = [];
+
+    log.requests.forEach(([time, count]) => {
+      const last = requests[requests.length - 1];
+      if (
+        time <= compactBefore &&
+        last &&
+        last[0] <= compactBefore &&
+        time - last[0] < COMPACT_BUCKET_MS
+      ) {
+        last[1] += count;
+      } else {
+        requests.push([time, count]);
+      }
+    });
+    requests.push([now, 1]);
+
+    this.writeLog({ ...log, requests });
+  }
+
+  /**
+   * Take the quota from OpenFDA's X-RateLimit-Limit / X-RateLimit-Remaining
+   * headers, if the response has them
+   *
+   * @param headers - Response headers
+   */
+  syncFromHeaders(headers: Headers): void {
+    const limit = Number(headers.get("X-RateLimit-Limit"));
+    const remaining = Number(headers.get("X-RateLimit-Remaining"));
+    if (
+      !headers.has("X-RateLimit-Remaining") ||
+      !Number.isFinite(remaining) ||
+      !Number.isFinite(limit)
+    ) {
+      return;
+    }
+
+    const log = this.readLog();
+    this.writeLog({
+      ...log,
+      server: { limit, remaining, observedAt: Date.now() },
+    });
+    this.notify();
+  }
+
+  // ============================================================================
+  // Status
+  // ============================================================================
+
+  /**
+   * Get current rate limit status
+   *
+   * @returns Remaining requests and reset times per window
+   */
+  getStatus(): RateLimitStatus {
+    const now = Date.now();
+    const log = this.readLog(now);
+    const { server } = log;
+
+    // Server figures describe the window with the same limit, else the
+    // longest one
+    const serverWindow = server
+      ? (this.windows.find((w) => w.limit === server.limit) ??
+        this.windows[this.windows.length - 1])
+      : undefined;
+
+    const windows = this.windows.map((window): RateLimitWindowStatus => {
+      const cutoff = now - window.windowMs;
+      const inWindow = log.requests.filter(([time]) => time > cutoff);
+      const used = inWindow.reduce((sum, [, count]) => sum + count, 0);
+      let remaining = Math.max(0, window.limit - used);
+
+      if (server && window === serverWindow && server.observedAt > cutoff) {
+        const sentSince = log.requests
+          .filter(([time]) => time > server.observedAt)
+          .reduce((sum, [, count]) => sum + count, 0);
+        remaining = Math.min(
+          remaining,
+          Math.max(0, server.remaining - sentSince),
+        );
+      }
+
+      // Budget starts recovering when the oldest request leaves the window;
+      // when exhausted, a slot frees up once enough of them have left, or
+      // when the server's report expires
+      let resetTime =
+        inWindow.length > 0 ? inWindow[0][0] + window.windowMs : now;
+      if (remaining === 0 && used < window.limit && server) {
+        resetTime = server.observedAt + window.windowMs;
+      } else if (remaining === 0) {
+        let freed = 0;
+        const needed = Math.max(1, used - window.limit + 1);
+        const oldest = inWindow.find(([, count]) => (freed += count) >= needed);
+        resetTime = (oldest?.[0] ?? now) + window.windowMs;
+      }
+
+      return { ...window, remaining, resetTime: new Date(resetTime) };
+    });
+
+    const limiting = windows.filter((w) => w.remaining === 0);
+    return {
+      windows,
+      remaining: Math.min(...windows.map((w) => w.remaining)),
+      total: this.windows[this.windows.length - 1]?.limit ?? 0,
+      resetTime: new Date(
+        Math.max(now, ...limiting.map((w) => w.resetTime.getTime())),
+      ),
+      queued: this.queue.length,
+    };
+  }
+
+  // ============================================================================
+  // Queue
+  // ============================================================================
+
+  /**
+   * Wait for a request slot and claim it
+   *
+   * @param signal - Leaves the queue when aborted (rejects with AbortError)
+   * @throws RateLimitError when no slot frees up within maxWaitMs
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException("Aborted", "AbortError"));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      // The abort listener goes with the request however it leaves the
+      // queue, so long-lived signals don't keep settled requests alive
+      const onAbort = () => {
+        const index = this.queue.indexOf(request);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(new DOMException("Aborted", "AbortError"));
+          this.notify();
+        }
+      };
+      const request: QueuedRequest = {
+        resolve: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+        reject: (reason) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(reason);
+        },
+      };
+
+      this.queue.push(request);
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.drain();
+    });
+  }
+
+  /**
+   * Release queued requests while slots remain, then wait for the next one
+   *
+   * When the next slot is more than maxWaitMs away, the whole queue is
+   * rejected with a RateLimitError (FIFO order means no later request could
+   * be served sooner).
+   */
+  private drain(): void {
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
+    }
+
+    while (this.queue.length > 0) {
+      const status = this.getStatus();
+
+      if (status.remaining > 0) {
+        this.recordRequest();
+        this.queue.shift()!.resolve();
+        continue;
+      }
+
+      const waitMs = status.resetTime.getTime() - Date.now();
+      if (waitMs > this.maxWaitMs) {
+        const rejected = this.queue.splice(0);
+        const error = new RateLimitError(
+          `Rate limit exceeded. Resets at ${status.resetTime.toLocaleString()}`,
+          status.resetTime,
+          { rateLimit: status },
+        );
+        rejected.forEach((request) => request.reject(error));
+        break;
+      }
+
+      this.drainTimer = setTimeout(() => this.drain(), Math.max(waitMs, 0));
+      break;
+    }
+
+    this.notify();
+  }
+
+  // ============================================================================
+  // Subscriptions
+  // ============================================================================
+
+  /**
+   * Listen for budget and queue changes; returns the unsubscribe function
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LRUCache } from "./response-cache";
+
+describe("LRUCache", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns stored values with their age", () => {
+    const cache = new LRUCache<string>(10, 60_000);
+    cache.set("a", "first");
+    vi.advanceTimersByTime(1500);
+
+    expect(cache.get("a")).toEqual({ value: "first", age: 1500 });
+    expect(cache.get("b")).toBeNull();
+  });
+
+  it("evicts the least recently used entry over capacity", () => {
+    const cache = new LRUCache<number>(2, 60_000);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+    cache.set("c", 3);
+
+    expect(cache.get("b")).toBeNull();
+    expect(cache.get("a")?.value).toBe(1);
+    expect(cache.get("c")?.value).toBe(3);
+  });
+
+  it("treats overwrites as fresh entries", () => {
+    const cache = new LRUCache<number>(2, 1000);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    vi.advanceTimersByTime(600);
+    cache.set("a", 10);
+    cache.set("c", 3);
+    vi.advanceTimersByTime(600);
+
+    expect(cache.get("b")).toBeNull();
+    expect(cache.get("a")).toEqual({ value: 10, age: 600 });
+  });
+
+  it("expires entries after the TTL and counts hits and misses", () => {
+    const cache = new LRUCache<string>(10, 1000);
+    cache.set("a", "value");
+
+    vi.advanceTimersByTime(999);
+    expect(cache.get("a")).not.toBeNull();
+    vi.advanceTimersByTime(1);
+    expect(cache.get("a")).toBeNull();
+
+    expect(cache.getStats()).toEqual({
+      size: 0,
+      maxEntries: 10,
+      hits: 1,
+      misses: 1,
+    });
+  });
+});
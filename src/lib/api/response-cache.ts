@@ -0,0 +1,99 @@
+/**
+ * Response Cache
+ *
+ * In-memory LRU cache with per-entry expiry, used by the OpenFDA proxy route
+ * to share responses between all users of a server instance
+ */
+
+interface CacheEntry<V> {
+  value: V;
+  storedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Cache lookup result with the entry's age
+ */
+export interface CacheHit<V> {
+  value: V;
+  /** Milliseconds since the entry was stored */
+  age: number;
+}
+
+/**
+ * LRU Cache Class
+ *
+ * Map insertion order doubles as recency order: reads re-insert the entry,
+ * so the first key is always the least recently used one.
+ */
+export class LRUCache<V> {
+  private entries = new Map<string, CacheEntry<V>>();
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * @param maxEntries - Entries kept before the least recently used is evicted
+   * @param ttlMs - Lifetime of an entry
+   */
+  constructor(
+    private readonly maxEntries: number,
+    private readonly ttlMs: number,
+  ) {}
+
+  /**
+   * Fresh entry for the key, or null when missing or expired
+   */
+  get(key: string): CacheHit<V> | null {
+    const entry = this.entries.get(key);
+    const now = Date.now();
+
+    if (!entry || entry.expiresAt <= now) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return { value: entry.value, age: now - entry.storedAt };
+  }
+
+  /**
+   * Store a value, evicting least recently used entries over capacity
+   */
+  set(key: string, value: V): void {
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      storedAt: now,
+      expiresAt: now + this.ttlMs,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Remove every entry
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Cache size and hit counts
+   */
+  getStats() {
+    return {
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+}
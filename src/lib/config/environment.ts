@@ -7,11 +7,21 @@
 
 export type DataMode = "mock" | "api" | "hybrid";
 
+/**
+ * How the API client reaches OpenFDA: straight to api.fda.gov, or through
+ * the app's /api/fda/510k route, which holds the API key and a shared cache
+ */
+export type APITransport = "direct" | "proxy";
+
 export interface EnvironmentConfig {
   fdaApiBaseUrl: string;
   fdaApiKey?: string;
+  fdaApiTransport: APITransport;
   dataMode: DataMode;
+  /** Requests per day */
   rateLimit: number;
+  /** Requests per minute */
+  rateLimitPerMinute: number;
   cacheTime: number;
   debugApi: boolean;
   showDataSource: boolean;
@@ -24,13 +34,37 @@ export interface EnvironmentConfig {
 const DEFAULT_CONFIG: EnvironmentConfig = {
   fdaApiBaseUrl: "https://api.fda.gov/device/510k.json",
   fdaApiKey: undefined,
+  fdaApiTransport: "proxy",
   dataMode: "mock", // Safe default for development
   rateLimit: 1000,
+  rateLimitPerMinute: 240,
   cacheTime: 5,
   debugApi: true,
   showDataSource: true,
 };
 
+// Data mode switched at runtime (error recovery); wins over env and
+// localStorage for the rest of the session
+let dataModeOverride: DataMode | null = null;
+
+/**
+ * Switch the data mode in place, without a reload
+ *
+ * Callers should reset their queries so data is fetched again in the new
+ * mode. The choice is also saved for the development localStorage override.
+ *
+ * @param mode - Data mode to use from now on
+ */
+export const setDataMode = (mode: DataMode): void => {
+  dataModeOverride = mode;
+
+  try {
+    localStorage.setItem("FDA_DATA_MODE", mode);
+  } catch {
+    // Session-only without localStorage
+  }
+};
+
 /**
  * Validates and returns environment configuration
  *
@@ -63,12 +97,25 @@ export const getEnvironmentConfig = (): EnvironmentConfig => {
     console.warn("localStorage not available during SSR");
   }
 
+  if (dataModeOverride) {
+    dataMode = dataModeOverride;
+  }
+
   // Get environment variables with fallbacks
   const config: EnvironmentConfig = {
     fdaApiBaseUrl: process.env.FDA_API_BASE_URL || DEFAULT_CONFIG.fdaApiBaseUrl,
     fdaApiKey: process.env.FDA_API_KEY || DEFAULT_CONFIG.fdaApiKey,
+    // Server code holds the key itself, so only browsers use the proxy
+    fdaApiTransport:
+      typeof window === "undefined"
+        ? "direct"
+        : (process.env.NEXT_PUBLIC_FDA_API_TRANSPORT as APITransport) ||
+          DEFAULT_CONFIG.fdaApiTransport,
     dataMode,
     rateLimit: parseInt(process.env.FDA_API_RATE_LIMIT || "1000"),
+    rateLimitPerMinute: parseInt(
+      process.env.FDA_API_RATE_LIMIT_PER_MINUTE || "240",
+    ),
     cacheTime: parseInt(process.env.FDA_API_CACHE_TIME || "5"),
     debugApi: process.env.NEXT_PUBLIC_DEBUG_API === "true",
     showDataSource: process.env.NEXT_PUBLIC_SHOW_DATA_SOURCE === "true",
@@ -82,6 +129,14 @@ export const getEnvironmentConfig = (): EnvironmentConfig => {
     config.dataMode = "mock";
   }
 
+  // Validate transport
+  if (!["direct", "proxy"].includes(config.fdaApiTransport)) {
+    console.warn(
+      `Invalid FDA_API_TRANSPORT: ${config.fdaApiTransport}, falling back to '${DEFAULT_CONFIG.fdaApiTransport}'`,
+    );
+    config.fdaApiTransport = DEFAULT_CONFIG.fdaApiTransport;
+  }
+
   return config;
 };
 
@@ -161,13 +216,22 @@ export const shouldUseAPI = (): boolean => {
     case "api":
       return true;
     case "hybrid":
-      // Use API if available, otherwise fall back to mock
-      return !!config.fdaApiKey;
+      // Query the API first, gaps are filled from the local dataset
+      return true;
     default:
       return false;
   }
 };
 
+/**
+ * Determines if API results should be merged with the local dataset
+ *
+ * @returns Whether hybrid data mode is active
+ */
+export const isHybridMode = (): boolean => {
+  return getEnvironmentConfig().dataMode === "hybrid";
+};
+
 /**
  * Get data source description for UI display
  *
@@ -185,8 +249,8 @@ export const getDataSourceDescription = (): string => {
         : "Using FDA API without authentication (limited)";
     case "hybrid":
       return config.fdaApiKey
-        ? "Using FDA API with mock data fallback"
-        : "Using mock data (API key not available)";
+        ? "Using FDA API merged with local data"
+        : "Using FDA API without authentication, merged with local data";
     default:
       return "Unknown data source configuration";
   }
@@ -2,34 +2,116 @@
  * Data Provider
  *
  * Centralized data source management with environment-based switching
- * Handles mock data, API data, and fallback strategies
+ * Handles mock data, API data, imported internal devices, and fallback
+ * strategies
  */
 
 import { mockDevices, getMockDataStats } from "@/lib/mock-data";
 import {
   shouldUseAPI,
+  isHybridMode,
   getDataSourceDescription,
   getEnvironmentConfig,
 } from "@/lib/config/environment";
-import { fdaAPIClient } from "@/lib/api/fda-api";
-import type { FDADevice, DeviceFilters } from "@/types/fda";
+import {
+  fdaAPIClient,
+  type BulkFetchOptions,
+  type BulkFetchProgress,
+} from "@/lib/api/fda-api";
+import { deviceCache } from "@/lib/data/device-cache";
+import { internalDevices } from "@/lib/data/internal-devices";
+import {
+  applyDeviceFilters,
+  countDevicesBy,
+  type FacetBucket,
+  type FacetFilterKey,
+} from "@/lib/search/device-filters";
+import type { OpenFDAValidationReport } from "@/lib/validation/openfda-schema";
+import type {
+  FDADevice,
+  DeviceFilters,
+  DeviceProvenance,
+  ProductClass,
+} from "@/types/fda";
 
 export interface DataProviderResponse {
   devices: FDADevice[];
-  source: "mock" | "api" | "fallback";
+  source: "mock" | "api" | "cache" | "hybrid" | "fallback";
   timestamp: number;
   totalCount: number;
+  /** OpenFDA `meta.last_updated` of the dataset (api and cache sources) */
+  lastUpdated?: string;
+  /** What OpenFDA response validation dropped or defaulted (api source) */
+  validation?: OpenFDAValidationReport;
+  /**
+   * Bulk fetch stopped at OpenFDA's skip limit: devices holds only part of
+   * the totalCount matching records
+   */
+  truncated?: boolean;
+  error?: Error;
+}
+
+/**
+ * Human-readable data source names for reports and exports
+ */
+export const DATA_SOURCE_LABELS: Record<
+  DataProviderResponse["source"],
+  string
+> = {
+  api: "OpenFDA API",
+  mock: "Local sample dataset",
+  hybrid: "OpenFDA API with local fallback",
+  cache: "Offline cache",
+  fallback: "Local sample dataset (API unavailable)",
+};
+
+export interface LineageOptions {
+  /** Number of predicate generations to walk upwards */
+  upDepth?: number;
+  /** Number of dependent generations to walk downwards */
+  downDepth?: number;
+}
+
+export interface LineageResponse {
+  root: FDADevice | null;
+  /** Deduplicated lineage subgraph, root included */
+  devices: FDADevice[];
+  /** Generation per K-number: 0 = root, >0 = predicates, <0 = dependents */
+  depths: Record<string, number>;
+  /** Predicate K-numbers that could not be resolved from any source */
+  unresolved: string[];
+  source: DataProviderResponse["source"];
+}
+
+export interface DataProviderAggregation {
+  field: FacetFilterKey;
+  buckets: FacetBucket[];
+  source: DataProviderResponse["source"];
+  timestamp: number;
   error?: Error;
 }
 
 export interface DataProviderSearchParams {
   search?: string;
-  productClass?: "I" | "II" | "III";
-  panelType?: string;
+  productClass?: ProductClass[];
+  productCode?: string[];
+  panelType?: string[];
+  manufacturer?: string[];
+  dateRange?: DeviceFilters["dateRange"];
+  clearanceYears?: number[];
   limit?: number;
   skip?: number;
 }
 
+/**
+ * Whether the browser reports being offline
+ */
+const isOffline = (): boolean =>
+  typeof navigator !== "undefined" && navigator.onLine === false;
+
+const DEFAULT_LINEAGE_DEPTH = 3;
+const MAX_LINEAGE_DEPTH = 10;
+
 /**
  * Data Provider Class
  *
@@ -65,35 +147,235 @@ export class DataProvider {
 
     try {
       if (shouldUseApiData) {
-        // Use real FDA API client
-        const filters: DeviceFilters = {
-          searchTerm: params.search,
-          productClass: params.productClass ? [params.productClass] : undefined,
-          limit: params.limit,
-        };
-
-        const apiResponse = await fdaAPIClient.fetchDevices(filters);
-
-        return {
-          devices: apiResponse.devices,
-          source: apiResponse.source as "api" | "mock",
-          timestamp: Date.now(),
-          totalCount: apiResponse.total,
-          error: apiResponse.error,
-        };
+        const apiResponse = await this.getAPIDevices(params);
+        return this.mergeInternal(
+          isHybridMode() ? this.mergeWithLocal(apiResponse) : apiResponse,
+          params,
+        );
       } else {
-        return this.getMockDevices(params);
+        return this.mergeInternal(this.getMockDevices(params), params);
       }
     } catch (error) {
       // Fallback to mock data on any error
       console.warn("Data provider error, falling back to mock data:", error);
       const mockResponse = this.getMockDevices(params);
+      return this.mergeInternal(
+        {
+          ...mockResponse,
+          source: "fallback",
+          error: error instanceof Error ? error : new Error(String(error)),
+        },
+        params,
+        false,
+      );
+    }
+  }
+
+  /**
+   * Get every device matching the params, beyond the 1000-record page limit
+   *
+   * In API mode pages are fetched with skip/limit through the rate limiter
+   * (up to OpenFDA's skip limit); otherwise the local dataset is filtered.
+   * Failed pages throw rather than falling back, since a partial list would
+   * pass for a complete one; for the same reason a fetch cut short by the
+   * skip limit is flagged `truncated`.
+   *
+   * @param params - Search and filter parameters (limit and skip ignored)
+   * @param options - Page size, record cap, cancellation and progress
+   * @returns All matching devices; fewer when cancelled or truncated
+   */
+  public async getAllDevices(
+    params: DataProviderSearchParams = {},
+    options: BulkFetchOptions = {},
+  ): Promise<DataProviderResponse> {
+    const unpaged = { ...params, limit: undefined, skip: undefined };
+
+    if (!shouldUseAPI()) {
+      const mockResponse = this.getMockDevices(unpaged);
+      options.onProgress?.({
+        fetched: mockResponse.devices.length,
+        total: mockResponse.devices.length,
+        page: 1,
+      });
+      return this.mergeInternal(mockResponse, unpaged);
+    }
+
+    const devices: FDADevice[] = [];
+    let lastProgress: BulkFetchProgress | undefined;
+    for await (const page of fdaAPIClient.fetchAllDevices(
+      this.toDeviceFilters(unpaged),
+      {
+        ...options,
+        onProgress: (progress) => {
+          lastProgress = progress;
+          options.onProgress?.(progress);
+        },
+      },
+    )) {
+      devices.push(...page);
+    }
+
+    const truncated = lastProgress?.truncated === true;
+    const apiResponse: DataProviderResponse = {
+      devices,
+      source: "api",
+      timestamp: Date.now(),
+      totalCount: truncated ? (lastProgress?.total ?? 0) : devices.length,
+      truncated,
+    };
+    return this.mergeInternal(
+      isHybridMode() ? this.mergeWithLocal(apiResponse) : apiResponse,
+      unpaged,
+    );
+  }
+
+  /**
+   * Add imported internal devices matching the params to a response
+   *
+   * Their direct predicates are added too, so internal devices link to the
+   * real devices they cite: from the response, other internal devices, the
+   * FDA API (when allowed) or the local dataset.
+   *
+   * @param response - Device data from the active source
+   * @param params - Search and filter parameters (limit and skip ignored)
+   * @param allowFetch - Whether missing predicates may be fetched
+   * @returns Response including matching internal devices
+   */
+  private async mergeInternal(
+    response: DataProviderResponse,
+    params: DataProviderSearchParams,
+    allowFetch = shouldUseAPI(),
+  ): Promise<DataProviderResponse> {
+    const internal = internalDevices.getDevices();
+    if (internal.length === 0) {
+      return response;
+    }
+
+    const merged = new Map(response.devices.map((d) => [d.kNumber, d]));
+    const matching = this.applyFilters(internal, {
+      ...params,
+      limit: undefined,
+      skip: undefined,
+    }).filter((device) => !merged.has(device.kNumber));
+    matching.forEach((device) => merged.set(device.kNumber, device));
+
+    const missing = [
+      ...new Set(matching.flatMap((device) => device.predicateDevices)),
+    ].filter((k) => !merged.has(k));
+    const localDevices = new Map(mockDevices.map((d) => [d.kNumber, d]));
+
+    const predicates = await Promise.all(
+      missing.map(async (k) => {
+        const internalDevice = internalDevices.getDevice(k);
+        if (internalDevice) {
+          return internalDevice;
+        }
+        if (allowFetch) {
+          return this.getDeviceByKNumber(k).catch(() => null);
+        }
+        return localDevices.get(k) ?? null;
+      }),
+    );
+    predicates.forEach((device) => {
+      if (device) merged.set(device.kNumber, device);
+    });
+
+    return {
+      ...response,
+      devices: [...merged.values()],
+      totalCount: response.totalCount + (merged.size - response.devices.length),
+    };
+  }
+
+  /**
+   * Get devices from the FDA API, or the offline cache when unreachable
+   *
+   * @param params - Search and filter parameters
+   * @returns API (or cached) device data with metadata
+   */
+  private async getAPIDevices(
+    params: DataProviderSearchParams,
+  ): Promise<DataProviderResponse> {
+    const filters = this.toDeviceFilters(params);
+
+    // Serve from the offline cache without attempting the network
+    if (isOffline()) {
+      const cachedResponse = await this.getCachedDevices(params);
+      if (cachedResponse) {
+        return cachedResponse;
+      }
+    }
+
+    const apiResponse = await fdaAPIClient.fetchDevices(filters);
+
+    // Prefer previously cached API data over mock fallback
+    if (apiResponse.error) {
+      const cachedResponse = await this.getCachedDevices(params);
+      if (cachedResponse) {
+        return { ...cachedResponse, error: apiResponse.error };
+      }
+    }
+
+    return {
+      devices: apiResponse.devices,
+      source: apiResponse.source as "api" | "mock",
+      timestamp: Date.now(),
+      totalCount: apiResponse.total,
+      lastUpdated: apiResponse.lastUpdated,
+      validation: apiResponse.validation,
+      error: apiResponse.error,
+    };
+  }
+
+  /**
+   * Merge API results with the local dataset (hybrid mode)
+   *
+   * Predicate K-numbers the API response does not resolve are filled from
+   * the mock dataset, transitively. Every device is tagged with provenance.
+   *
+   * @param response - API (or cached) device data
+   * @returns Merged device data tagged per device
+   */
+  private mergeWithLocal(response: DataProviderResponse): DataProviderResponse {
+    // The API failed outright, so the response already is local data
+    if (response.source === "mock" || response.source === "fallback") {
       return {
-        ...mockResponse,
-        source: "fallback",
-        error: error instanceof Error ? error : new Error(String(error)),
+        ...response,
+        devices: response.devices.map((d) => ({ ...d, provenance: "mock" })),
       };
     }
+
+    const provenance: DeviceProvenance =
+      response.source === "cache" ? "cache" : "api";
+    const localDevices = new Map(mockDevices.map((d) => [d.kNumber, d]));
+    const merged = new Map<string, FDADevice>(
+      response.devices.map((d) => [d.kNumber, { ...d, provenance }]),
+    );
+
+    // Fill unresolved predicates generation by generation
+    const queue = [...merged.values()];
+    let filledCount = 0;
+    while (queue.length > 0) {
+      const device = queue.shift()!;
+      device.predicateDevices.forEach((predKNumber) => {
+        const localDevice = localDevices.get(predKNumber);
+        if (merged.has(predKNumber) || !localDevice) {
+          return;
+        }
+
+        const filled: FDADevice = { ...localDevice, provenance: "mock" };
+        merged.set(predKNumber, filled);
+        queue.push(filled);
+        filledCount++;
+      });
+    }
+
+    return {
+      ...response,
+      devices: [...merged.values()],
+      source: "hybrid",
+      totalCount: response.totalCount + filledCount,
+    };
   }
 
   /**
@@ -105,52 +387,76 @@ export class DataProvider {
   private getMockDevices(
     params: DataProviderSearchParams,
   ): DataProviderResponse {
-    let filteredDevices = [...mockDevices];
-
-    // Apply search filter
-    if (params.search) {
-      const searchLower = params.search.toLowerCase();
-      filteredDevices = filteredDevices.filter(
-        (device) =>
-          device.kNumber.toLowerCase().includes(searchLower) ||
-          device.deviceName.toLowerCase().includes(searchLower) ||
-          device.manufacturer.toLowerCase().includes(searchLower) ||
-          device.intendedUse.toLowerCase().includes(searchLower) ||
-          (device.panelType &&
-            device.panelType.toLowerCase().includes(searchLower)),
-      );
-    }
+    const filteredDevices = this.applyFilters(mockDevices, params);
 
-    // Apply product class filter
-    if (params.productClass) {
-      filteredDevices = filteredDevices.filter(
-        (device) => device.productClass === params.productClass,
-      );
-    }
+    return {
+      devices: filteredDevices,
+      source: "mock",
+      timestamp: Date.now(),
+      totalCount: filteredDevices.length,
+    };
+  }
 
-    // Apply panel type filter
-    if (params.panelType) {
-      filteredDevices = filteredDevices.filter(
-        (device) =>
-          device.panelType
-            ?.toLowerCase()
-            .includes(params.panelType!.toLowerCase()) || false,
-      );
-    }
+  /**
+   * Get devices from the offline cache with filtering
+   *
+   * @param params - Search and filter parameters
+   * @returns Filtered cached device data, or null if the cache is empty
+   */
+  private async getCachedDevices(
+    params: DataProviderSearchParams,
+  ): Promise<DataProviderResponse | null> {
+    const [cachedDevices, meta] = await Promise.all([
+      deviceCache.getAllDevices(),
+      deviceCache.getMeta(),
+    ]);
 
-    // Apply pagination
-    if (params.skip) {
-      filteredDevices = filteredDevices.slice(params.skip);
-    }
-    if (params.limit) {
-      filteredDevices = filteredDevices.slice(0, params.limit);
+    if (cachedDevices.length === 0) {
+      return null;
     }
 
+    const filteredDevices = this.applyFilters(cachedDevices, params);
+
     return {
       devices: filteredDevices,
-      source: "mock",
-      timestamp: Date.now(),
+      source: "cache",
+      timestamp: meta?.cachedAt ?? Date.now(),
       totalCount: filteredDevices.length,
+      lastUpdated: meta?.lastUpdated,
+    };
+  }
+
+  /**
+   * Apply search, filter and pagination params to a device list
+   *
+   * @param devices - Devices to filter
+   * @param params - Search and filter parameters
+   * @returns Filtered devices
+   */
+  private applyFilters(
+    devices: FDADevice[],
+    params: DataProviderSearchParams,
+  ): FDADevice[] {
+    return applyDeviceFilters(devices, this.toDeviceFilters(params));
+  }
+
+  /**
+   * Map data provider params to API client filters
+   *
+   * @param params - Search and filter parameters
+   * @returns Equivalent DeviceFilters
+   */
+  private toDeviceFilters(params: DataProviderSearchParams): DeviceFilters {
+    return {
+      searchTerm: params.search,
+      productClass: params.productClass,
+      productCode: params.productCode,
+      panelType: params.panelType,
+      manufacturer: params.manufacturer,
+      dateRange: params.dateRange,
+      clearanceYears: params.clearanceYears,
+      limit: params.limit,
+      skip: params.skip,
     };
   }
 
@@ -203,6 +509,55 @@ export class DataProvider {
     };
   }
 
+  /**
+   * Count devices per value of a field (term/count buckets)
+   *
+   * @param field - Facet to group by
+   * @param params - Search and filter parameters (limit and skip ignored)
+   * @returns Buckets from the OpenFDA count endpoint or computed locally
+   */
+  public async getDeviceCounts(
+    field: FacetFilterKey,
+    params: DataProviderSearchParams = {},
+  ): Promise<DataProviderAggregation> {
+    const unpaged = { ...params, limit: undefined, skip: undefined };
+
+    if (shouldUseAPI()) {
+      // Count the offline cache rather than failing
+      if (isOffline()) {
+        const cachedResponse = await this.getCachedDevices(unpaged);
+        if (cachedResponse) {
+          return {
+            field,
+            buckets: countDevicesBy(cachedResponse.devices, field),
+            source: "cache",
+            timestamp: cachedResponse.timestamp,
+          };
+        }
+      }
+
+      const apiResponse = await fdaAPIClient.countBy(
+        field,
+        this.toDeviceFilters(unpaged),
+      );
+
+      return {
+        field,
+        buckets: apiResponse.buckets,
+        source: apiResponse.source,
+        timestamp: Date.now(),
+        error: apiResponse.error,
+      };
+    }
+
+    return {
+      field,
+      buckets: countDevicesBy(this.applyFilters(mockDevices, unpaged), field),
+      source: "mock",
+      timestamp: Date.now(),
+    };
+  }
+
   /**
    * Get device by K-number
    *
@@ -210,10 +565,35 @@ export class DataProvider {
    * @returns Device data or null if not found
    */
   public async getDeviceByKNumber(kNumber: string): Promise<FDADevice | null> {
+    const internalDevice = internalDevices.getDevice(kNumber);
+    if (internalDevice) {
+      return internalDevice;
+    }
+
     const shouldUseApiData = shouldUseAPI();
 
     if (shouldUseApiData) {
+      if (isOffline()) {
+        return deviceCache.getDevice(kNumber);
+      }
+
       const apiResponse = await fdaAPIClient.getDeviceByKNumber(kNumber);
+      if (apiResponse.error) {
+        const cachedDevice = await deviceCache.getDevice(kNumber);
+        if (cachedDevice) {
+          return cachedDevice;
+        }
+      }
+
+      // Hybrid mode: fall back to the local dataset for unknown K-numbers
+      if (isHybridMode()) {
+        if (apiResponse.device && apiResponse.source === "api") {
+          return { ...apiResponse.device, provenance: "api" };
+        }
+        const localDevice = mockDevices.find((d) => d.kNumber === kNumber);
+        return localDevice ? { ...localDevice, provenance: "mock" } : null;
+      }
+
       return apiResponse.device;
     } else {
       const response = await this.getDevices();
@@ -226,6 +606,10 @@ export class DataProvider {
   /**
    * Search devices by predicate relationships
    *
+   * In API mode, the device and predicates missing from the loaded page are
+   * fetched by K-number (batched into one query) and dependents are searched
+   * across all of OpenFDA
+   *
    * @param kNumber - Device K-number
    * @returns Related devices (predicates and dependents)
    */
@@ -234,27 +618,163 @@ export class DataProvider {
     predicates: FDADevice[];
     dependents: FDADevice[];
   }> {
+    const shouldUseApiData = shouldUseAPI();
     const response = await this.getDevices();
     const devices = response.devices;
 
-    const device = devices.find((d) => d.kNumber === kNumber) || null;
+    // Resolve a K-number from the loaded devices, fetching it if allowed
+    const resolve = async (k: string): Promise<FDADevice | null> => {
+      const loaded = devices.find((d) => d.kNumber === k);
+      if (loaded || !shouldUseApiData) {
+        return loaded || null;
+      }
+      return this.getDeviceByKNumber(k);
+    };
+
+    const device = await resolve(kNumber);
 
     if (!device) {
       return { device: null, predicates: [], dependents: [] };
     }
 
     // Find predicate devices
-    const predicates = device.predicateDevices
-      .map((predKNumber) => devices.find((d) => d.kNumber === predKNumber))
-      .filter(Boolean) as FDADevice[];
+    const predicates = (
+      await Promise.all(device.predicateDevices.map(resolve))
+    ).filter(Boolean) as FDADevice[];
 
     // Find dependent devices (devices that use this device as predicate)
     const dependents = devices.filter((d) =>
       d.predicateDevices.includes(kNumber),
     );
 
+    if (shouldUseApiData) {
+      const apiResponse = await fdaAPIClient.getDependentDevices(kNumber);
+      apiResponse.devices.forEach((d) => {
+        if (!dependents.some((existing) => existing.kNumber === d.kNumber)) {
+          dependents.push(d);
+        }
+      });
+    }
+
     return { device, predicates, dependents };
   }
+
+  /**
+   * Walk the predicate lineage of a device across multiple generations
+   *
+   * Ancestors are followed through `predicateDevices`, descendants through
+   * devices citing the current generation. In API mode, K-numbers missing
+   * from the first page of results are fetched by K-number, one batched
+   * query per generation.
+   *
+   * @param kNumber - Device K-number to start from
+   * @param options - Generations to walk up (predicates) and down (dependents)
+   * @returns Lineage subgraph with per-device generation depth
+   */
+  public async getLineage(
+    kNumber: string,
+    options: LineageOptions = {},
+  ): Promise<LineageResponse> {
+    const clampDepth = (depth: number) =>
+      Math.max(0, Math.min(Math.floor(depth), MAX_LINEAGE_DEPTH));
+    const upDepth = clampDepth(options.upDepth ?? DEFAULT_LINEAGE_DEPTH);
+    const downDepth = clampDepth(options.downDepth ?? DEFAULT_LINEAGE_DEPTH);
+
+    const shouldUseApiData = shouldUseAPI();
+    const response = await this.getDevices();
+    const known = new Map(response.devices.map((d) => [d.kNumber, d]));
+
+    // Resolve a K-number from the loaded devices, fetching it if allowed
+    const resolve = async (k: string): Promise<FDADevice | null> => {
+      const cached = known.get(k);
+      if (cached || !shouldUseApiData) {
+        return cached || null;
+      }
+
+      const device = await this.getDeviceByKNumber(k);
+      if (device) {
+        known.set(k, device);
+      }
+      return device;
+    };
+
+    const root = await resolve(kNumber);
+    if (!root) {
+      return {
+        root: null,
+        devices: [],
+        depths: {},
+        unresolved: [kNumber],
+        source: response.source,
+      };
+    }
+
+    const depths = new Map<string, number>([[root.kNumber, 0]]);
+    const unresolved = new Set<string>();
+
+    // Ancestors: one predicate generation per iteration
+    let frontier: FDADevice[] = [root];
+    for (let depth = 1; depth <= upDepth && frontier.length > 0; depth++) {
+      const candidates = [
+        ...new Set(frontier.flatMap((d) => d.predicateDevices)),
+      ].filter((k) => !depths.has(k) && !unresolved.has(k));
+
+      const resolved = await Promise.all(candidates.map(resolve));
+
+      frontier = [];
+      resolved.forEach((device, index) => {
+        if (!device) {
+          unresolved.add(candidates[index]);
+          return;
+        }
+        depths.set(device.kNumber, depth);
+        frontier.push(device);
+      });
+    }
+
+    // Descendants: one dependent generation per iteration
+    frontier = [root];
+    for (let depth = 1; depth <= downDepth && frontier.length > 0; depth++) {
+      const generation = await Promise.all(
+        frontier.map(async (device) => {
+          const dependents = [...known.values()].filter((d) =>
+            d.predicateDevices.includes(device.kNumber),
+          );
+
+          if (shouldUseApiData) {
+            const apiResponse = await fdaAPIClient.getDependentDevices(
+              device.kNumber,
+            );
+            apiResponse.devices.forEach((d) => {
+              if (!known.has(d.kNumber)) {
+                known.set(d.kNumber, d);
+                dependents.push(d);
+              }
+            });
+          }
+
+          return dependents;
+        }),
+      );
+
+      frontier = [];
+      generation.flat().forEach((device) => {
+        if (depths.has(device.kNumber)) {
+          return;
+        }
+        depths.set(device.kNumber, -depth);
+        frontier.push(device);
+      });
+    }
+
+    return {
+      root,
+      devices: [...depths.keys()].map((k) => known.get(k)!),
+      depths: Object.fromEntries(depths),
+      unresolved: [...unresolved],
+      source: response.source,
+    };
+  }
 }
 
 /**
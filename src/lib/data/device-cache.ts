@@ -0,0 +1,229 @@
+/**
+ * Device Cache
+ *
+ * Persistent IndexedDB store for FDA devices keyed by K-number
+ * Populated from OpenFDA responses so lookups keep working offline
+ */
+
+import type { FDADevice } from "@/types/fda";
+
+const DB_NAME = "complizen-fda";
+const DB_VERSION = 1;
+const DEVICE_STORE = "devices";
+const META_STORE = "meta";
+const META_KEY = "openfda";
+
+/**
+ * Cached device record with the time it was written
+ */
+interface CachedDevice extends FDADevice {
+  cachedAt: number;
+}
+
+/**
+ * Cache metadata mirrored from the last OpenFDA response
+ */
+export interface DeviceCacheMeta {
+  /** `meta.last_updated` of the OpenFDA dataset the devices came from */
+  lastUpdated: string;
+  /** When the cache was last written (epoch ms) */
+  cachedAt: number;
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Device Cache Class
+ *
+ * Thin promise-based wrapper around IndexedDB. Every method degrades to a
+ * no-op when IndexedDB is unavailable (SSR, private browsing).
+ */
+export class DeviceCache {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Whether IndexedDB can be used in the current environment
+   */
+  public isAvailable(): boolean {
+    return typeof indexedDB !== "undefined";
+  }
+
+  /**
+   * Open (and upgrade if needed) the cache database
+   */
+  private openDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(DEVICE_STORE)) {
+            db.createObjectStore(DEVICE_STORE, { keyPath: "kNumber" });
+          }
+          if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE);
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Store devices from an OpenFDA response
+   *
+   * @param devices - Transformed devices to upsert
+   * @param lastUpdated - `meta.last_updated` of the response
+   */
+  public async putDevices(
+    devices: FDADevice[],
+    lastUpdated: string,
+  ): Promise<void> {
+    if (!this.isAvailable() || devices.length === 0) {
+      return;
+    }
+
+    try {
+      const db = await this.openDB();
+      const transaction = db.transaction(
+        [DEVICE_STORE, META_STORE],
+        "readwrite",
+      );
+      const cachedAt = Date.now();
+
+      const deviceStore = transaction.objectStore(DEVICE_STORE);
+      devices.forEach((device) => {
+        const record: CachedDevice = { ...device, cachedAt };
+        deviceStore.put(record);
+      });
+
+      const meta: DeviceCacheMeta = { lastUpdated, cachedAt };
+      transaction.objectStore(META_STORE).put(meta, META_KEY);
+
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    } catch (error) {
+      console.warn("Device cache: Failed to store devices:", error);
+    }
+  }
+
+  /**
+   * Look up a single device by K-number
+   *
+   * @param kNumber - Device K-number
+   * @returns Cached device or null if not cached
+   */
+  public async getDevice(kNumber: string): Promise<FDADevice | null> {
+    if (!this.isAvailable()) {
+      return null;
+    }
+
+    try {
+      const db = await this.openDB();
+      const store = db
+        .transaction(DEVICE_STORE, "readonly")
+        .objectStore(DEVICE_STORE);
+      const record = await promisifyRequest<CachedDevice | undefined>(
+        store.get(kNumber),
+      );
+
+      return record ? this.toDevice(record) : null;
+    } catch (error) {
+      console.warn(`Device cache: Failed to read ${kNumber}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get every cached device
+   *
+   * @returns All cached devices (empty when cache is unavailable)
+   */
+  public async getAllDevices(): Promise<FDADevice[]> {
+    if (!this.isAvailable()) {
+      return [];
+    }
+
+    try {
+      const db = await this.openDB();
+      const store = db
+        .transaction(DEVICE_STORE, "readonly")
+        .objectStore(DEVICE_STORE);
+      const records = await promisifyRequest<CachedDevice[]>(store.getAll());
+
+      return records.map((record) => this.toDevice(record));
+    } catch (error) {
+      console.warn("Device cache: Failed to read devices:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get metadata of the last cache write
+   *
+   * @returns Cache metadata or null if the cache was never written
+   */
+  public async getMeta(): Promise<DeviceCacheMeta | null> {
+    if (!this.isAvailable()) {
+      return null;
+    }
+
+    try {
+      const db = await this.openDB();
+      const store = db
+        .transaction(META_STORE, "readonly")
+        .objectStore(META_STORE);
+      const meta = await promisifyRequest<DeviceCacheMeta | undefined>(
+        store.get(META_KEY),
+      );
+
+      return meta || null;
+    } catch (error) {
+      console.warn("Device cache: Failed to read metadata:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Copy the device fields of a stored record, leaving out cache
+   * bookkeeping (cachedAt)
+   */
+  private toDevice(record: CachedDevice): FDADevice {
+    return {
+      kNumber: record.kNumber,
+      deviceName: record.deviceName,
+      manufacturer: record.manufacturer,
+      clearanceDate: record.clearanceDate,
+      productClass: record.productClass,
+      productCode: record.productCode,
+      predicateDevices: record.predicateDevices,
+      intendedUse: record.intendedUse,
+      panelType: record.panelType,
+      regulationNumber: record.regulationNumber,
+      provenance: record.provenance,
+    };
+  }
+}
+
+/**
+ * Default device cache instance
+ */
+export const deviceCache = new DeviceCache();
@@ -0,0 +1,129 @@
+/**
+ * Internal Devices
+ *
+ * Local data source for devices tracked outside OpenFDA (unreleased
+ * products, competitors' pending submissions), imported from CSV/JSON lists.
+ * Kept in localStorage so imports survive reloads; DataProvider merges them
+ * into every device response.
+ */
+
+import { z } from "zod";
+import { fdaDeviceSchema } from "@/lib/validation/device-schema";
+import type { FDADevice } from "@/types/fda";
+
+const STORAGE_KEY = "complizen-internal-devices";
+
+const storedDevicesSchema = z.array(fdaDeviceSchema);
+
+/**
+ * Internal Device Store Class
+ *
+ * Synchronous in-memory map mirrored to localStorage. Without localStorage
+ * (SSR, private browsing) devices live for the session only.
+ */
+export class InternalDeviceStore {
+  private devices: Map<string, FDADevice> | null = null;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Load the stored list on first access, dropping it if it's unreadable
+   */
+  private load(): Map<string, FDADevice> {
+    if (this.devices) {
+      return this.devices;
+    }
+
+    this.devices = new Map();
+    if (typeof window === "undefined") {
+      return this.devices;
+    }
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const parsed = stored
+        ? storedDevicesSchema.safeParse(JSON.parse(stored))
+        : null;
+      if (parsed?.success) {
+        parsed.data.forEach((device) =>
+          this.devices!.set(device.kNumber, device),
+        );
+      }
+    } catch (error) {
+      console.warn("Internal devices: stored list unreadable", error);
+    }
+
+    return this.devices;
+  }
+
+  private persist(): void {
+    if (typeof window === "undefined") {
+      this.listeners.forEach((listener) => listener());
+      return;
+    }
+
+    try {
+      localStorage.setItem(
+        STORAGE_KEY,
+        JSON.stringify([...this.load().values()]),
+      );
+    } catch (error) {
+      console.warn("Internal devices: could not persist", error);
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * All internal devices, in import order
+   */
+  public getDevices(): FDADevice[] {
+    return [...this.load().values()];
+  }
+
+  /**
+   * Internal device by K-number, or null
+   */
+  public getDevice(kNumber: string): FDADevice | null {
+    return this.load().get(kNumber) ?? null;
+  }
+
+  /**
+   * Number of internal devices (stable snapshot for useSyncExternalStore)
+   */
+  public getCount = (): number => this.load().size;
+
+  /**
+   * Add or replace devices by K-number, marking them internal
+   *
+   * @param devices - Validated devices
+   */
+  public putDevices(devices: FDADevice[]): void {
+    const stored = this.load();
+    devices.forEach((device) =>
+      stored.set(device.kNumber, { ...device, provenance: "internal" }),
+    );
+    this.persist();
+  }
+
+  /**
+   * Remove every internal device
+   */
+  public clear(): void {
+    this.load().clear();
+    this.persist();
+  }
+
+  /**
+   * Listen for changes; returns the unsubscribe function
+   */
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
+
+/**
+ * Shared internal device store instance
+ */
+export const internalDevices = new InternalDeviceStore();
@@ -0,0 +1,183 @@
+/**
+ * Device Table Export
+ *
+ * Tabular export of a device list as CSV or XLSX, one row per device with
+ * every FDADevice field, flattened predicate lists and graph metrics
+ * (children count, depth). Both formats open with a header block recording
+ * where the data came from and which filters produced it, for audit trails.
+ */
+
+import {
+  DATA_SOURCE_LABELS,
+  type DataProviderResponse,
+} from "@/lib/data/data-provider";
+import {
+  analyzeDeviceGraph,
+  type DeviceGraphStats,
+} from "@/lib/graph/graph-analysis";
+import { describeDeviceFilters } from "@/lib/search/device-filters";
+import type { DeviceFilters, FDADevice } from "@/types/fda";
+import { buildXlsx, type XlsxCell } from "./xlsx";
+
+/**
+ * Provenance of the exported list, written to the header block
+ */
+export interface DeviceExportContext {
+  /** Data source of the list; null when it's a loaded saved graph */
+  source: DataProviderResponse["source"] | null;
+  /** File name of a loaded saved graph */
+  savedGraphName?: string;
+  /** OpenFDA `meta.last_updated` of the dataset */
+  lastUpdated?: string;
+  /** Search term and facet filters that produced the list */
+  filters: DeviceFilters;
+  /**
+   * The list stopped at OpenFDA's paging limit and holds only part of the
+   * matching devices
+   */
+  truncated?: boolean;
+  /** Devices matching the filters, when more than were exported */
+  totalCount?: number;
+  /** Defaults to now */
+  exportedAt?: Date;
+}
+
+/**
+ * Header block plus device rows, shared by the CSV and XLSX writers
+ */
+export interface DeviceTable {
+  header: [string, string][];
+  columns: string[];
+  rows: XlsxCell[][];
+}
+
+// Separator for multi-value cells (predicate lists)
+const LIST_SEPARATOR = "; ";
+
+interface DeviceColumn {
+  label: string;
+  /** Width in characters for the XLSX sheet */
+  width: number;
+  value: (device: FDADevice, stats: DeviceGraphStats | undefined) => XlsxCell;
+}
+
+const DEVICE_COLUMNS: DeviceColumn[] = [
+  { label: "K-Number", width: 22, value: (d) => d.kNumber },
+  { label: "Device Name", width: 40, value: (d) => d.deviceName },
+  { label: "Manufacturer", width: 30, value: (d) => d.manufacturer },
+  { label: "Clearance Date", width: 14, value: (d) => d.clearanceDate },
+  { label: "Product Class", width: 8, value: (d) => d.productClass },
+  { label: "Product Code", width: 8, value: (d) => d.productCode },
+  { label: "Panel", width: 16, value: (d) => d.panelType },
+  { label: "Regulation Number", width: 12, value: (d) => d.regulationNumber },
+  { label: "Intended Use", width: 60, value: (d) => d.intendedUse },
+  {
+    label: "Predicate Devices",
+    width: 30,
+    value: (d) => d.predicateDevices.join(LIST_SEPARATOR),
+  },
+  {
+    label: "Predicate Count",
+    width: 10,
+    value: (d) => new Set(d.predicateDevices).size,
+  },
+  { label: "Children Count", width: 10, value: (_, s) => s?.fanOut },
+  { label: "Depth", width: 8, value: (_, s) => s?.depth },
+  { label: "In Predicate Cycle", width: 10, value: (_, s) => s?.inCycle },
+  { label: "Record Source", width: 10, value: (d) => d.provenance },
+];
+
+/**
+ * Assemble the header block and rows for a device list
+ *
+ * Children count and depth are computed over the exported list itself, so
+ * they describe the graph the user was looking at.
+ *
+ * @param devices - Devices in display order
+ * @param context - Source, freshness and filters of the list
+ * @returns Table ready for toDeviceCSV/toDeviceXLSX
+ */
+export const buildDeviceTable = (
+  devices: FDADevice[],
+  context: DeviceExportContext,
+): DeviceTable => {
+  const analysis = analyzeDeviceGraph(devices);
+  const filterLines = describeDeviceFilters(context.filters);
+  const source = context.savedGraphName
+    ? `Saved graph file (${context.savedGraphName})`
+    : context.source
+      ? DATA_SOURCE_LABELS[context.source]
+      : "Unknown";
+  // A truncated list must not pass for the complete result set
+  const deviceCount = context.truncated
+    ? `${devices.length}${context.totalCount ? ` of ${context.totalCount} matching` : ""} (incomplete: stopped at OpenFDA's paging limit)`
+    : String(devices.length);
+
+  return {
+    header: [
+      ["Complizen device export", ""],
+      ["Exported at", (context.exportedAt ?? new Date()).toISOString()],
+      ["Data source", source],
+      ["OpenFDA last updated", context.lastUpdated ?? "Not available"],
+      [
+        "Active filters",
+        filterLines.length > 0 ? filterLines.join(LIST_SEPARATOR) : "None",
+      ],
+      ["Devices", deviceCount],
+      [
+        "Derived metrics",
+        "Children count and depth are computed within the exported devices",
+      ],
+    ],
+    columns: DEVICE_COLUMNS.map((column) => column.label),
+    rows: devices.map((device) =>
+      DEVICE_COLUMNS.map((column) =>
+        column.value(device, analysis.devices[device.kNumber]),
+      ),
+    ),
+  };
+};
+
+/**
+ * Quote a CSV field per RFC 4180; text that spreadsheets would evaluate as
+ * a formula is prefixed with an apostrophe
+ */
+const csvField = (value: XlsxCell): string => {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Write the table as CSV: header block, blank line, column row, devices
+ *
+ * Starts with a byte order mark so Excel reads it as UTF-8.
+ */
+export const toDeviceCSV = (table: DeviceTable): string => {
+  const lines = [
+    ...table.header.map((row) => row.map(csvField).join(",")),
+    "",
+    table.columns.map(csvField).join(","),
+    ...table.rows.map((row) => row.map(csvField).join(",")),
+  ];
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+};
+
+/**
+ * Write the table as a single-sheet XLSX workbook laid out like the CSV
+ */
+export const toDeviceXLSX = (table: DeviceTable): Uint8Array => {
+  const columnRow = table.header.length + 1;
+
+  return buildXlsx([
+    {
+      name: "Devices",
+      rows: [...table.header, [], table.columns, ...table.rows],
+      boldRows: [0, columnRow],
+      columnWidths: DEVICE_COLUMNS.map((column) => column.width),
+    },
+  ]);
+};
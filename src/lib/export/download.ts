@@ -0,0 +1,108 @@
+/**
+ * Browser Output Helpers
+ *
+ * Save generated files and print generated documents from the client
+ * Both work after async work completes (no popup window required)
+ */
+
+/**
+ * Save content as a file through a temporary object URL
+ *
+ * @param content - File content
+ * @param filename - Suggested file name
+ * @param mimeType - Content type of the file
+ */
+export const downloadFile = (
+  content: BlobPart,
+  filename: string,
+  mimeType: string,
+): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Open the print dialog for a standalone HTML document
+ * Printed from a hidden iframe; "Save as PDF" produces the PDF version
+ *
+ * @param html - Complete HTML document
+ */
+export const printHtml = (html: string): void => {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.setAttribute("aria-hidden", "true");
+
+  frame.onload = () => {
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) {
+      frame.remove();
+      return;
+    }
+    frameWindow.addEventListener("afterprint", () => frame.remove(), {
+      once: true,
+    });
+    frameWindow.focus();
+    frameWindow.print();
+  };
+
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
+
+/**
+ * Rasterize an SVG document to a PNG blob through an offscreen canvas
+ *
+ * @param svg - Standalone SVG markup with explicit width/height
+ * @param width - SVG width in CSS pixels
+ * @param height - SVG height in CSS pixels
+ * @param scale - Output pixel ratio (2 keeps text sharp on slides)
+ * @returns PNG image data
+ */
+export const rasterizeSvg = (
+  svg: string,
+  width: number,
+  height: number,
+  scale = 2,
+): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(
+      new Blob([svg], { type: "image/svg+xml;charset=utf-8" }),
+    );
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas rendering is not available"));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error("PNG encoding failed")),
+        "image/png",
+      );
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Couldn't render the SVG"));
+    };
+
+    image.src = url;
+  });
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { createDevice } from "@/test/fixtures";
+import type { FDADevice } from "@/types/fda";
+import type { GraphEdge, GraphNode } from "@/types/graph";
+import {
+  GraphImportError,
+  SAVED_GRAPH_VERSION,
+  parseSavedGraph,
+  toSavedGraphJSON,
+} from "./graph-formats";
+
+const node = (
+  device: FDADevice,
+  position: { x: number; y: number },
+): GraphNode => ({
+  id: device.kNumber,
+  type: "deviceNode",
+  position,
+  data: { label: device.deviceName, device, isSelected: false },
+});
+
+const devices = [
+  createDevice("K100001", { provenance: "api" }),
+  createDevice("K100002", {
+    predicateDevices: ["K100001", "K000009"],
+    productClass: "unknown",
+    panelType: "Cardiovascular",
+    provenance: "internal",
+  }),
+];
+const nodes = [
+  node(devices[0], { x: 0, y: -12.3456 }),
+  node(devices[1], { x: 250.5, y: 180 }),
+];
+const edges: GraphEdge[] = [
+  {
+    id: "K100001-K100002",
+    source: "K100001",
+    target: "K100002",
+    type: "predicateEdge",
+  },
+  {
+    id: "K000009-K100002",
+    source: "K000009",
+    target: "K100002",
+    type: "predicateEdge",
+  },
+];
+
+const savedFile = () => JSON.parse(toSavedGraphJSON(nodes, edges));
+
+const expectImportError = (file: unknown, message: string) => {
+  const text = typeof file === "string" ? file : JSON.stringify(file);
+  expect(() => parseSavedGraph(text, "graph.json")).toThrow(GraphImportError);
+  expect(() => parseSavedGraph(text, "graph.json")).toThrow(message);
+};
+
+describe("saved graph JSON", () => {
+  it("round-trips devices and positions", () => {
+    const saved = parseSavedGraph(toSavedGraphJSON(nodes, edges), "graph.json");
+
+    expect(saved).toEqual({
+      name: "graph.json",
+      devices,
+      positions: {
+        K100001: { x: 0, y: -12.35 },
+        K100002: { x: 250.5, y: 180 },
+      },
+    });
+  });
+
+  it("keeps only edges between exported nodes", () => {
+    expect(savedFile().edges).toEqual([
+      { id: "K100001-K100002", source: "K100001", target: "K100002" },
+    ]);
+  });
+
+  it("rejects files from a newer version", () => {
+    expectImportError(
+      { ...savedFile(), version: SAVED_GRAPH_VERSION + 1 },
+      `version ${SAVED_GRAPH_VERSION + 1} is newer`,
+    );
+  });
+
+  it("rejects other JSON and non-JSON files", () => {
+    expectImportError({ ...savedFile(), format: "cytoscape" }, "not a saved");
+    expectImportError({ nodes: [] }, "not a saved");
+    expectImportError("<graphml/>", "not valid JSON");
+  });
+
+  it("reports malformed nodes by path", () => {
+    const file = savedFile();
+    file.nodes[1].position = { x: "left" };
+    file.nodes[0].data.device.productClass = "IV";
+
+    expectImportError(file, "Saved graph is malformed");
+    expectImportError(file, "nodes.1.position.x");
+    expectImportError(file, "nodes.0.data.device.productClass");
+  });
+});
@@ -0,0 +1,473 @@
+/**
+ * Graph File Formats
+ *
+ * Serializes the rendered predicate graph (GraphNode[]/GraphEdge[] with
+ * positions and DeviceNodeData) for external tools:
+ * - GraphML (yEd, Cytoscape, NetworkX)
+ * - GEXF 1.2 with viz positions and colors (Gephi)
+ * - Graphviz DOT with pinned positions
+ * - Versioned JSON, which parseSavedGraph reads back into GraphCanvas
+ *
+ * Edges to predicates outside the graph are dropped; most readers reject
+ * edges with unknown endpoints.
+ */
+
+import { z } from "zod";
+import { escapeXml } from "@/lib/graph/graph-snapshot";
+import type { LayoutPositions } from "@/lib/graph/layout-worker-protocol";
+import { formatProductClass } from "@/lib/validation/product-class";
+import {
+  fdaDeviceSchema,
+  formatZodIssues,
+} from "@/lib/validation/device-schema";
+import type { FDADevice } from "@/types/fda";
+import type { DeviceNodeData, GraphEdge, GraphNode } from "@/types/graph";
+
+export type GraphExportFormat = "graphml" | "gexf" | "dot" | "json";
+
+/**
+ * Exporter with file metadata for the export menu
+ */
+export interface GraphExporter {
+  id: GraphExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (nodes: GraphNode[], edges: GraphEdge[]) => string;
+}
+
+/**
+ * Graph loaded from a saved JSON file
+ */
+export interface SavedGraph {
+  /** File name or title the graph was loaded from */
+  name: string;
+  devices: FDADevice[];
+  positions: LayoutPositions;
+}
+
+/**
+ * Raised when a saved graph file can't be read
+ */
+export class GraphImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GraphImportError";
+  }
+}
+
+// Identifies JSON files written by this exporter
+export const SAVED_GRAPH_FORMAT = "complizen-graph";
+export const SAVED_GRAPH_VERSION = 1;
+
+// Node colors per device class, matching DeviceNode
+const CLASS_COLORS: Record<string, string> = {
+  I: "#10b981",
+  II: "#f59e0b",
+  III: "#ef4444",
+};
+const UNKNOWN_CLASS_COLOR = "#6b7280";
+
+/**
+ * Exported attribute per node: name, GraphML/GEXF type and value getter
+ */
+const NODE_ATTRIBUTES: {
+  name: string;
+  type: "string" | "int";
+  value: (data: DeviceNodeData) => string | number | undefined;
+}[] = [
+  { name: "label", type: "string", value: (d) => d.label },
+  { name: "kNumber", type: "string", value: (d) => d.device.kNumber },
+  { name: "deviceName", type: "string", value: (d) => d.device.deviceName },
+  {
+    name: "manufacturer",
+    type: "string",
+    value: (d) => d.device.manufacturer,
+  },
+  {
+    name: "clearanceDate",
+    type: "string",
+    value: (d) => d.device.clearanceDate,
+  },
+  {
+    name: "productClass",
+    type: "string",
+    value: (d) => d.device.productClass,
+  },
+  { name: "productCode", type: "string", value: (d) => d.device.productCode },
+  { name: "intendedUse", type: "string", value: (d) => d.device.intendedUse },
+  { name: "panelType", type: "string", value: (d) => d.device.panelType },
+  {
+    name: "regulationNumber",
+    type: "string",
+    value: (d) => d.device.regulationNumber,
+  },
+  {
+    name: "predicateDevices",
+    type: "string",
+    value: (d) => d.device.predicateDevices.join(" "),
+  },
+  {
+    name: "predicateCount",
+    type: "int",
+    value: (d) => d.metadata?.predicateCount,
+  },
+  {
+    name: "childrenCount",
+    type: "int",
+    value: (d) => d.metadata?.childrenCount,
+  },
+  {
+    name: "hierarchyDepth",
+    type: "int",
+    value: (d) => d.metadata?.hierarchyDepth,
+  },
+];
+
+/**
+ * Distinct edges whose endpoints are both in the graph
+ */
+const getInternalEdges = (nodes: GraphNode[], edges: GraphEdge[]) => {
+  const ids = new Set(nodes.map((node) => node.id));
+  const seen = new Set<string>();
+  return edges.filter((edge) => {
+    if (seen.has(edge.id) || !ids.has(edge.source) || !ids.has(edge.target)) {
+      return false;
+    }
+    seen.add(edge.id);
+    return true;
+  });
+};
+
+const getClassColor = (node: GraphNode) =>
+  CLASS_COLORS[node.data.device.productClass] || UNKNOWN_CLASS_COLOR;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// ================================
+// GraphML
+// ================================
+
+/**
+ * Serialize to GraphML with typed node attributes and x/y positions
+ */
+export const toGraphML = (nodes: GraphNode[], edges: GraphEdge[]): string => {
+  const keys = [
+    ...NODE_ATTRIBUTES.map(
+      ({ name, type }) =>
+        `  <key id="${name}" for="node" attr.name="${name}" attr.type="${type}"/>`,
+    ),
+    `  <key id="x" for="node" attr.name="x" attr.type="double"/>`,
+    `  <key id="y" for="node" attr.name="y" attr.type="double"/>`,
+    `  <key id="color" for="node" attr.name="color" attr.type="string"/>`,
+    `  <key id="relationshipType" for="edge" attr.name="relationshipType" attr.type="string"/>`,
+  ];
+
+  const nodeMarkup = nodes.map((node) => {
+    const values = NODE_ATTRIBUTES.map(({ name, value }) => {
+      const v = value(node.data);
+      return v === undefined || v === ""
+        ? ""
+        : `\n      <data key="${name}">${escapeXml(String(v))}</data>`;
+    }).join("");
+
+    return `    <node id="${escapeXml(node.id)}">${values}
+      <data key="x">${round(node.position.x)}</data>
+      <data key="y">${round(node.position.y)}</data>
+      <data key="color">${getClassColor(node)}</data>
+    </node>`;
+  });
+
+  const edgeMarkup = getInternalEdges(nodes, edges).map(
+    (edge) =>
+      `    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">
+      <data key="relationshipType">${edge.data?.relationshipType ?? "predicate"}</data>
+    </edge>`,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">
+${keys.join("\n")}
+  <graph id="predicates" edgedefault="directed">
+${[...nodeMarkup, ...edgeMarkup].join("\n")}
+  </graph>
+</graphml>
+`;
+};
+
+// ================================
+// GEXF
+// ================================
+
+const hexToRgb = (hex: string) => ({
+  r: parseInt(hex.slice(1, 3), 16),
+  g: parseInt(hex.slice(3, 5), 16),
+  b: parseInt(hex.slice(5, 7), 16),
+});
+
+/**
+ * Serialize to GEXF 1.2 with attributes, viz positions and class colors
+ * GEXF's y axis points up, so y is negated to keep the on-screen layout
+ */
+export const toGEXF = (nodes: GraphNode[], edges: GraphEdge[]): string => {
+  // "label" is a built-in GEXF node field rather than an attribute
+  const attributes = NODE_ATTRIBUTES.filter(({ name }) => name !== "label");
+  const gexfType = (type: "string" | "int") =>
+    type === "int" ? "integer" : "string";
+
+  const nodeMarkup = nodes.map((node) => {
+    const values = attributes
+      .map(({ name, value }) => {
+        const v = value(node.data);
+        return v === undefined || v === ""
+          ? ""
+          : `\n          <attvalue for="${name}" value="${escapeXml(String(v))}"/>`;
+      })
+      .join("");
+    const { r, g, b } = hexToRgb(getClassColor(node));
+
+    return `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.data.label)}">
+        <attvalues>${values}
+        </attvalues>
+        <viz:position x="${round(node.position.x)}" y="${round(-node.position.y)}" z="0"/>
+        <viz:color r="${r}" g="${g}" b="${b}"/>
+      </node>`;
+  });
+
+  const edgeMarkup = getInternalEdges(nodes, edges).map(
+    (edge) =>
+      `      <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}"/>`,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gexf xmlns="http://www.gexf.net/1.2draft" xmlns:viz="http://www.gexf.net/1.2draft/viz" version="1.2">
+  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">
+    <creator>Complizen</creator>
+    <description>FDA 510(k) predicate device graph</description>
+  </meta>
+  <graph mode="static" defaultedgetype="directed">
+    <attributes class="node">
+${attributes
+  .map(
+    ({ name, type }) =>
+      `      <attribute id="${name}" title="${name}" type="${gexfType(type)}"/>`,
+  )
+  .join("\n")}
+    </attributes>
+    <nodes>
+${nodeMarkup.join("\n")}
+    </nodes>
+    <edges>
+${edgeMarkup.join("\n")}
+    </edges>
+  </graph>
+</gexf>
+`;
+};
+
+// ================================
+// Graphviz DOT
+// ================================
+
+/**
+ * Quote a DOT identifier or attribute value
+ */
+const dotString = (value: string) =>
+  `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+
+/**
+ * Serialize to Graphviz DOT
+ * Positions are pinned (pos "x,y!") in points; render with `neato -n` to
+ * keep the app's layout, or with `dot` to re-rank
+ */
+export const toDOT = (nodes: GraphNode[], edges: GraphEdge[]): string => {
+  const nodeLines = nodes.map((node) => {
+    const { device } = node.data;
+    const attributes = [
+      `label=${dotString(`${node.data.label}\n${device.kNumber}\n${formatProductClass(device.productClass)}`)}`,
+      `fillcolor=${dotString(getClassColor(node))}`,
+      `pos=${dotString(`${round(node.position.x)},${round(-node.position.y)}!`)}`,
+      `tooltip=${dotString(device.intendedUse)}`,
+      `manufacturer=${dotString(device.manufacturer)}`,
+      `clearanceDate=${dotString(device.clearanceDate)}`,
+      `productCode=${dotString(device.productCode)}`,
+    ];
+    if (node.data.metadata) {
+      attributes.push(
+        `hierarchyDepth=${node.data.metadata.hierarchyDepth}`,
+        `childrenCount=${node.data.metadata.childrenCount}`,
+      );
+    }
+    return `  ${dotString(node.id)} [${attributes.join(", ")}];`;
+  });
+
+  const edgeLines = getInternalEdges(nodes, edges).map(
+    (edge) => `  ${dotString(edge.source)} -> ${dotString(edge.target)};`,
+  );
+
+  return `digraph predicates {
+  rankdir=TB;
+  node [shape=box, style="rounded,filled", fontname="Helvetica", fontsize=10, fontcolor="white"];
+  edge [color="#94a3b8"];
+
+${nodeLines.join("\n")}
+
+${edgeLines.join("\n")}
+}
+`;
+};
+
+// ================================
+// Versioned JSON
+// ================================
+
+/**
+ * Saved graph file schema (version 1)
+ */
+const savedGraphSchema = z.object({
+  format: z.literal(SAVED_GRAPH_FORMAT),
+  version: z.literal(SAVED_GRAPH_VERSION),
+  exportedAt: z.string(),
+  nodes: z.array(
+    z.object({
+      id: z.string(),
+      position: z.object({ x: z.number(), y: z.number() }),
+      data: z.object({
+        device: fdaDeviceSchema,
+        label: z.string(),
+        metadata: z
+          .object({
+            childrenCount: z.number(),
+            predicateCount: z.number(),
+            hierarchyDepth: z.number(),
+            inCycle: z.boolean().optional(),
+          })
+          .optional(),
+      }),
+    }),
+  ),
+  edges: z.array(
+    z.object({
+      id: z.string(),
+      source: z.string(),
+      target: z.string(),
+    }),
+  ),
+});
+
+export type SavedGraphFile = z.infer<typeof savedGraphSchema>;
+
+/**
+ * Serialize to the versioned JSON format read by parseSavedGraph
+ */
+export const toSavedGraphJSON = (
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+): string => {
+  const file: SavedGraphFile = {
+    format: SAVED_GRAPH_FORMAT,
+    version: SAVED_GRAPH_VERSION,
+    exportedAt: new Date().toISOString(),
+    nodes: nodes.map((node) => ({
+      id: node.id,
+      position: {
+        x: round(node.position.x),
+        y: round(node.position.y),
+      },
+      data: {
+        device: node.data.device,
+        label: node.data.label,
+        metadata: node.data.metadata,
+      },
+    })),
+    edges: getInternalEdges(nodes, edges).map(({ id, source, target }) => ({
+      id,
+      source,
+      target,
+    })),
+  };
+
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Read a saved graph JSON file
+ *
+ * Devices keep their predicate lists; edges in the file are implied by
+ * them and only validated for shape.
+ *
+ * @param text - File content
+ * @param name - File name shown while the graph is loaded
+ * @returns Devices and positions to render
+ * @throws GraphImportError when the file isn't a readable saved graph
+ */
+export const parseSavedGraph = (text: string, name: string): SavedGraph => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new GraphImportError("File is not valid JSON");
+  }
+
+  const header = z
+    .object({ format: z.string(), version: z.number() })
+    .safeParse(json);
+  if (!header.success || header.data.format !== SAVED_GRAPH_FORMAT) {
+    throw new GraphImportError("File is not a saved Complizen graph");
+  }
+  if (header.data.version > SAVED_GRAPH_VERSION) {
+    throw new GraphImportError(
+      `Saved graph version ${header.data.version} is newer than this app supports (${SAVED_GRAPH_VERSION})`,
+    );
+  }
+
+  const result = savedGraphSchema.safeParse(json);
+  if (!result.success) {
+    throw new GraphImportError(
+      `Saved graph is malformed:\n${formatZodIssues(result.error)}`,
+    );
+  }
+
+  const positions: LayoutPositions = {};
+  const devices = new Map<string, FDADevice>();
+  result.data.nodes.forEach((node) => {
+    positions[node.id] = node.position;
+    devices.set(node.id, node.data.device);
+  });
+
+  return { name, devices: [...devices.values()], positions };
+};
+
+/**
+ * Registered graph exporters, in menu order
+ */
+export const GRAPH_EXPORTERS: GraphExporter[] = [
+  {
+    id: "json",
+    label: "Saved graph (JSON)",
+    extension: "json",
+    mimeType: "application/json",
+    serialize: toSavedGraphJSON,
+  },
+  {
+    id: "graphml",
+    label: "GraphML (yEd, Cytoscape)",
+    extension: "graphml",
+    mimeType: "application/graphml+xml",
+    serialize: toGraphML,
+  },
+  {
+    id: "gexf",
+    label: "GEXF (Gephi)",
+    extension: "gexf",
+    mimeType: "application/gexf+xml",
+    serialize: toGEXF,
+  },
+  {
+    id: "dot",
+    label: "DOT (Graphviz)",
+    extension: "dot",
+    mimeType: "text/vnd.graphviz",
+    serialize: toDOT,
+  },
+];
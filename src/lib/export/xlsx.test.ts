@@ -0,0 +1,126 @@
+import { crc32 } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { buildXlsx } from "./xlsx";
+
+/**
+ * Read a stored (uncompressed) ZIP through its central directory, checking
+ * each entry's CRC along the way
+ */
+const readZip = (zip: Uint8Array): Map<string, string> => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const entries = new Map<string, string>();
+  let position = view.getUint32(end + 16, true);
+
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    expect(view.getUint16(position + 10, true)).toBe(0); // Stored
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(
+      zip.subarray(position + 46, position + 46 + nameLength),
+    );
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    const data = zip.subarray(dataStart, dataStart + size);
+    expect(crc32(data)).toBe(crc);
+
+    entries.set(name, decoder.decode(data));
+    position += 46 + nameLength;
+  }
+
+  return entries;
+};
+
+const parseXml = (xml: string) => {
+  const document = new DOMParser().parseFromString(xml, "application/xml");
+  expect(document.getElementsByTagName("parsererror")).toHaveLength(0);
+  return document;
+};
+
+describe("buildXlsx", () => {
+  it("packages a workbook whose parts are well-formed XML", () => {
+    const files = readZip(
+      buildXlsx([
+        { name: "Devices", rows: [["K-Number"], ["K201234"]] },
+        { name: "Summary", rows: [["Total", 1]] },
+      ]),
+    );
+
+    expect([...files.keys()]).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+      "xl/worksheets/sheet2.xml",
+    ]);
+    files.forEach((xml) => parseXml(xml));
+
+    const sheets = parseXml(files.get("xl/workbook.xml")!).querySelectorAll(
+      "sheet",
+    );
+    expect([...sheets].map((sheet) => sheet.getAttribute("name"))).toEqual([
+      "Devices",
+      "Summary",
+    ]);
+  });
+
+  it("writes typed, escaped and bold cells", () => {
+    const files = readZip(
+      buildXlsx([
+        {
+          name: "Devices",
+          rows: [
+            ["Name", "Count", "Active"],
+            ['Stent <"A" & B>', 42, true],
+            [null, undefined, ""],
+          ],
+          boldRows: [0],
+          columnWidths: [20, 8],
+        },
+      ]),
+    );
+    const sheet = parseXml(files.get("xl/worksheets/sheet1.xml")!);
+    const cell = (ref: string) => sheet.querySelector(`c[r="${ref}"]`);
+
+    expect(cell("A1")?.getAttribute("s")).toBe("1");
+    expect(cell("A2")?.getAttribute("s")).toBeNull();
+    expect(cell("A2")?.textContent).toBe('Stent <"A" & B>');
+    expect(cell("B2")?.getAttribute("t")).toBeNull();
+    expect(cell("B2")?.textContent).toBe("42");
+    expect(cell("C2")?.getAttribute("t")).toBe("b");
+    expect(cell("C2")?.textContent).toBe("1");
+    expect(sheet.querySelectorAll('row[r="3"] c')).toHaveLength(0);
+    expect(sheet.querySelectorAll("col")).toHaveLength(2);
+  });
+
+  it("names columns past Z and cleans sheet names", () => {
+    const files = readZip(
+      buildXlsx([
+        {
+          name: "Q1/Q2: devices [draft] with a very long name",
+          rows: [Array.from({ length: 28 }, (_, i) => i)],
+        },
+      ]),
+    );
+    const sheet = parseXml(files.get("xl/worksheets/sheet1.xml")!);
+    const refs = [...sheet.querySelectorAll("c")].map((c) =>
+      c.getAttribute("r"),
+    );
+
+    expect(refs.slice(-3)).toEqual(["Z1", "AA1", "AB1"]);
+    expect(
+      parseXml(files.get("xl/workbook.xml")!)
+        .querySelector("sheet")
+        ?.getAttribute("name"),
+    ).toBe("Q1 Q2  devices  draft  with a v");
+  });
+});
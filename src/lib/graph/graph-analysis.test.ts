@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { createDevice } from "@/test/fixtures";
+import { analyzeDeviceGraph } from "./graph-analysis";
+
+const sortedCycles = (cycles: string[][]) =>
+  cycles.map((cycle) => [...cycle].sort()).sort();
+
+describe("analyzeDeviceGraph", () => {
+  it("computes depth, fan-in and fan-out on an acyclic graph", () => {
+    const { devices, metrics, cycles } = analyzeDeviceGraph([
+      createDevice("A"),
+      createDevice("B", { predicateDevices: ["A"] }),
+      createDevice("C", { predicateDevices: ["A", "B", "B"] }),
+    ]);
+
+    expect(devices.A).toEqual({
+      depth: 0,
+      fanIn: 0,
+      fanOut: 2,
+      inCycle: false,
+    });
+    expect(devices.C).toEqual({
+      depth: 2,
+      fanIn: 2,
+      fanOut: 0,
+      inCycle: false,
+    });
+    expect(metrics).toMatchObject({
+      nodeCount: 3,
+      edgeCount: 3,
+      rootNodeCount: 1,
+      maxDepth: 2,
+      cycleCount: 0,
+    });
+    expect(cycles).toEqual([]);
+  });
+
+  it("places citers of external predicates at depth 1", () => {
+    const { devices, metrics } = analyzeDeviceGraph([
+      createDevice("A", { predicateDevices: ["EXTERNAL"] }),
+      createDevice("B", { predicateDevices: ["A"] }),
+    ]);
+
+    expect(devices.A.depth).toBe(1);
+    expect(devices.B.depth).toBe(2);
+    expect(metrics.externalPredicateCount).toBe(1);
+    expect(metrics.rootNodeCount).toBe(0);
+  });
+
+  it("gives members of a cycle the cycle's depth", () => {
+    // B and C cite each other; both also cite the root A; D cites C
+    const { devices, cycles, metrics } = analyzeDeviceGraph([
+      createDevice("A"),
+      createDevice("B", { predicateDevices: ["A", "C"] }),
+      createDevice("C", { predicateDevices: ["B", "A"] }),
+      createDevice("D", { predicateDevices: ["C"] }),
+    ]);
+
+    expect(sortedCycles(cycles)).toEqual([["B", "C"]]);
+    expect(devices.B).toMatchObject({ depth: 1, inCycle: true });
+    expect(devices.C).toMatchObject({ depth: 1, inCycle: true });
+    expect(devices.D).toMatchObject({ depth: 2, inCycle: false });
+    expect(devices.A.inCycle).toBe(false);
+    expect(metrics.cycleCount).toBe(1);
+  });
+
+  it("finds separate cycles and self-citations", () => {
+    const { cycles, devices } = analyzeDeviceGraph([
+      createDevice("A", { predicateDevices: ["A"] }),
+      createDevice("B", { predicateDevices: ["D"] }),
+      createDevice("C", { predicateDevices: ["B"] }),
+      createDevice("D", { predicateDevices: ["C"] }),
+      createDevice("E", { predicateDevices: ["D"] }),
+    ]);
+
+    expect(sortedCycles(cycles)).toEqual([["A"], ["B", "C", "D"]]);
+    expect(devices.A).toMatchObject({ depth: 0, inCycle: true });
+    expect(devices.E).toMatchObject({ depth: 1, inCycle: false });
+  });
+
+  it("handles long chains without recursion limits", () => {
+    const chain = Array.from({ length: 20000 }, (_, i) =>
+      createDevice(`K${i}`, {
+        predicateDevices: i > 0 ? [`K${i - 1}`] : [],
+      }),
+    );
+
+    const { metrics, devices } = analyzeDeviceGraph(chain);
+
+    expect(metrics.maxDepth).toBe(19999);
+    expect(devices.K19999.depth).toBe(19999);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Graph Analysis
+ *
+ * Structural metrics for device predicate graphs: hierarchy depth, roots,
+ * fan-in/fan-out and predicate cycles, computed in O(V + E)
+ *
+ * Edges run predicate → device. Predicates cited but missing from the
+ * dataset count as external and sit at depth 0, so their citers are depth 1.
+ * Predicate data occasionally contains cycles (mis-keyed or re-submitted
+ * clearances); devices in a cycle share the cycle's depth instead of
+ * recursing forever.
+ */
+
+import type { FDADevice } from "@/types/fda";
+import type { GraphMetrics } from "@/types/graph";
+
+/**
+ * Per-device structural statistics
+ */
+export interface DeviceGraphStats {
+  /** Longest predicate chain above the device (0 = root) */
+  depth: number;
+
+  /** Distinct predicates the device cites */
+  fanIn: number;
+
+  /** Devices in the graph citing this device */
+  fanOut: number;
+
+  /** Whether the device is part of a predicate cycle */
+  inCycle: boolean;
+}
+
+/**
+ * Result of analysing a device graph
+ */
+export interface GraphAnalysis {
+  metrics: GraphMetrics;
+
+  /** Statistics keyed by K-number */
+  devices: Record<string, DeviceGraphStats>;
+
+  /** Each cycle's K-numbers (strongly connected components) */
+  cycles: string[][];
+}
+
+/**
+ * Distinct predicates per device (submissions sometimes repeat a K-number)
+ */
+const getPredicates = (device: FDADevice): string[] => [
+  ...new Set(device.predicateDevices),
+];
+
+/**
+ * Find strongly connected components with an iterative Tarjan's algorithm
+ *
+ * @returns Components in reverse topological order (dependents first)
+ */
+const findComponents = (
+  ids: string[],
+  successors: Map<string, string[]>,
+): string[][] => {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  ids.forEach((start) => {
+    if (index.has(start)) return;
+
+    // Explicit call stack of [node, next successor position]
+    const callStack: [string, number][] = [[start, 0]];
+    index.set(start, nextIndex);
+    lowLink.set(start, nextIndex++);
+    stack.push(start);
+    onStack.add(start);
+
+    while (callStack.length > 0) {
+      const frame = callStack[callStack.length - 1];
+      const [node, position] = frame;
+      const next = successors.get(node) || [];
+
+      if (position < next.length) {
+        frame[1]++;
+        const successor = next[position];
+
+        if (!index.has(successor)) {
+          index.set(successor, nextIndex);
+          lowLink.set(successor, nextIndex++);
+          stack.push(successor);
+          onStack.add(successor);
+          callStack.push([successor, 0]);
+        } else if (onStack.has(successor)) {
+          lowLink.set(
+            node,
+            Math.min(lowLink.get(node)!, index.get(successor)!),
+          );
+        }
+        continue;
+      }
+
+      // All successors visited: close the component if node is its root
+      callStack.pop();
+      if (callStack.length > 0) {
+        const parent = callStack[callStack.length - 1][0];
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(node)!));
+      }
+
+      if (lowLink.get(node) === index.get(node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== node);
+        components.push(component);
+      }
+    }
+  });
+
+  return components;
+};
+
+/**
+ * Analyse the predicate structure of a device list
+ *
+ * @param devices - Devices forming the graph
+ * @param layoutCalculationTime - Optional layout duration to include
+ * @returns Graph metrics, per-device statistics and cycles
+ */
+export const analyzeDeviceGraph = (
+  devices: FDADevice[],
+  layoutCalculationTime?: number,
+): GraphAnalysis => {
+  const byKNumber = new Map(devices.map((d) => [d.kNumber, d]));
+  const ids = [...byKNumber.keys()];
+
+  // Adjacency: predicate → devices citing it (in-graph edges only)
+  const successors = new Map<string, string[]>(ids.map((id) => [id, []]));
+  let edgeCount = 0;
+  let externalPredicateCount = 0;
+  let totalPredicates = 0;
+
+  byKNumber.forEach((device) => {
+    const predicates = getPredicates(device);
+    totalPredicates += predicates.length;
+
+    predicates.forEach((predicate) => {
+      if (successors.has(predicate)) {
+        successors.get(predicate)!.push(device.kNumber);
+        edgeCount++;
+      } else {
+        externalPredicateCount++;
+      }
+    });
+  });
+
+  const components = findComponents(ids, successors);
+  const componentOf = new Map<string, number>();
+  components.forEach((component, i) =>
+    component.forEach((id) => componentOf.set(id, i)),
+  );
+
+  const cycles = components.filter(
+    (component) =>
+      component.length > 1 ||
+      successors.get(component[0])!.includes(component[0]),
+  );
+  const cycleMembers = new Set(cycles.flat());
+
+  // Depth per component, walking predicates before dependents
+  const componentDepth: number[] = new Array(components.length).fill(0);
+  for (let i = components.length - 1; i >= 0; i--) {
+    let depth = 0;
+    components[i].forEach((id) => {
+      getPredicates(byKNumber.get(id)!).forEach((predicate) => {
+        const predicateComponent = componentOf.get(predicate);
+        if (predicateComponent === i) return; // Edge inside the cycle
+        const predicateDepth =
+          predicateComponent === undefined
+            ? 0 // External predicate
+            : componentDepth[predicateComponent];
+        depth = Math.max(depth, predicateDepth + 1);
+      });
+    });
+    componentDepth[i] = depth;
+  }
+
+  const stats: Record<string, DeviceGraphStats> = {};
+  let rootNodeCount = 0;
+  let maxDepth = 0;
+  let maxFanIn = 0;
+  let maxFanOut = 0;
+
+  byKNumber.forEach((device, id) => {
+    const entry: DeviceGraphStats = {
+      depth: componentDepth[componentOf.get(id)!],
+      fanIn: getPredicates(device).length,
+      fanOut: successors.get(id)!.length,
+      inCycle: cycleMembers.has(id),
+    };
+    stats[id] = entry;
+
+    if (entry.fanIn === 0) rootNodeCount++;
+    maxDepth = Math.max(maxDepth, entry.depth);
+    maxFanIn = Math.max(maxFanIn, entry.fanIn);
+    maxFanOut = Math.max(maxFanOut, entry.fanOut);
+  });
+
+  return {
+    metrics: {
+      nodeCount: ids.length,
+      edgeCount,
+      rootNodeCount,
+      maxDepth,
+      avgPredicatesPerDevice: ids.length > 0 ? totalPredicates / ids.length : 0,
+      maxFanIn,
+      maxFanOut,
+      externalPredicateCount,
+      cycleCount: cycles.length,
+      layoutCalculationTime,
+    },
+    devices: stats,
+    cycles,
+  };
+};
@@ -0,0 +1,344 @@
+/**
+ * Graph Snapshot
+ *
+ * Renders predicate graphs to standalone SVG strings drawn like GraphCanvas:
+ * DeviceNode class colors, selection and path highlights, PredicateEdge
+ * arrows. Used for image export of the live canvas and, via a fresh dagre
+ * layout, for printable reports and Markdown embeds.
+ */
+
+import { Position } from "@xyflow/react";
+import type { FDADevice } from "@/types/fda";
+import type { GraphEdge, GraphNode, LayoutDirection } from "@/types/graph";
+import { NODE_HEIGHT, NODE_WIDTH } from "./layout-algorithms";
+import { formatProductClass } from "@/lib/validation/product-class";
+import { applyLayout } from "./layout-registry";
+
+/**
+ * Rectangle in flow coordinates
+ */
+export interface GraphRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Rendering options for positioned graphs
+ */
+export interface GraphSvgOptions {
+  /** Area to draw; defaults to the nodes' bounds plus padding */
+  region?: GraphRegion;
+  /** Title block above the graph */
+  title?: string;
+  /** Smaller line under the title */
+  subtitle?: string;
+  /** Class color legend below the graph */
+  legend?: boolean;
+}
+
+/**
+ * Snapshot rendering options
+ */
+export interface GraphSnapshotOptions {
+  /** Device drawn with the selection outline */
+  highlightId?: string;
+  /** Rank direction for the hierarchical layout */
+  direction?: LayoutDirection;
+}
+
+// Node fill/border per device class, matching DeviceNode
+const CLASS_COLORS: Record<string, { fill: string; stroke: string }> = {
+  I: { fill: "#10b981", stroke: "#059669" },
+  II: { fill: "#f59e0b", stroke: "#d97706" },
+  III: { fill: "#ef4444", stroke: "#dc2626" },
+};
+const UNKNOWN_CLASS_COLORS = { fill: "#6b7280", stroke: "#4b5563" };
+
+// Legend entries, matching the GraphCanvas info panel
+const LEGEND_ENTRIES = [
+  { productClass: "I", label: "Class I (Low Risk)" },
+  { productClass: "II", label: "Class II (Moderate Risk)" },
+  { productClass: "III", label: "Class III (High Risk)" },
+  { productClass: "unknown", label: "Unclassified" },
+];
+
+const EDGE_COLOR = "#94a3b8";
+const SELECTED_COLOR = "#3b82f6";
+const PADDING = 20;
+const MAX_LABEL_LENGTH = 26;
+const TITLE_HEIGHT = 56;
+const SUBTITLE_ONLY_HEIGHT = 32;
+const LEGEND_HEIGHT = 36;
+const LEGEND_ENTRY_WIDTH = 160;
+const LEGEND_MIN_WIDTH = 800;
+const FONT_FAMILY = "system-ui, -apple-system, 'Segoe UI', sans-serif";
+
+/**
+ * Escape text for use in SVG/XML content and attributes
+ */
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const truncate = (value: string, length: number) =>
+  value.length > length ? `${value.slice(0, length - 1)}…` : value;
+
+// Handle offsets from a node's top-left corner
+const HANDLE_OFFSETS: Record<Position, { x: number; y: number }> = {
+  [Position.Top]: { x: NODE_WIDTH / 2, y: 0 },
+  [Position.Bottom]: { x: NODE_WIDTH / 2, y: NODE_HEIGHT },
+  [Position.Left]: { x: 0, y: NODE_HEIGHT / 2 },
+  [Position.Right]: { x: NODE_WIDTH, y: NODE_HEIGHT / 2 },
+};
+
+// Handle sides per rank direction (edges run predicate → device)
+const DIRECTION_HANDLES: Record<
+  LayoutDirection,
+  { sourcePosition: Position; targetPosition: Position }
+> = {
+  TB: { sourcePosition: Position.Bottom, targetPosition: Position.Top },
+  BT: { sourcePosition: Position.Top, targetPosition: Position.Bottom },
+  LR: { sourcePosition: Position.Right, targetPosition: Position.Left },
+  RL: { sourcePosition: Position.Left, targetPosition: Position.Right },
+};
+
+/**
+ * Bounds of the positioned nodes, padded
+ */
+export const getGraphBounds = (nodes: GraphNode[]): GraphRegion => {
+  if (nodes.length === 0) {
+    return { x: 0, y: 0, width: NODE_WIDTH, height: NODE_HEIGHT };
+  }
+
+  const xs = nodes.map((n) => n.position.x);
+  const ys = nodes.map((n) => n.position.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  return {
+    x: minX - PADDING,
+    y: minY - PADDING,
+    width: Math.max(...xs) - minX + NODE_WIDTH + PADDING * 2,
+    height: Math.max(...ys) - minY + NODE_HEIGHT + PADDING * 2,
+  };
+};
+
+/**
+ * Arrow marker id for an edge color (one marker definition per color)
+ */
+const markerId = (color: string) => `arrow-${color.replace(/[^a-z0-9]/gi, "")}`;
+
+/**
+ * Draw one device node (fill, border, highlight glow, three text lines)
+ */
+const renderNode = (node: GraphNode): string => {
+  const { device, colorOverride, metadata } = node.data;
+  const { x, y } = node.position;
+  const colors = CLASS_COLORS[device.productClass] || UNKNOWN_CLASS_COLORS;
+  const isSelected = node.selected || node.data.isSelected;
+  const stroke = isSelected
+    ? SELECTED_COLOR
+    : colorOverride
+      ? colorOverride
+      : colors.stroke;
+  const opacity = node.style?.opacity;
+  const centerX = x + NODE_WIDTH / 2;
+  const tooltip = metadata
+    ? `${device.kNumber} — ${device.deviceName} (${metadata.predicateCount} predicates, ${metadata.childrenCount} children, depth ${metadata.hierarchyDepth})`
+    : `${device.kNumber} — ${device.deviceName}`;
+
+  return [
+    `<g${opacity !== undefined ? ` opacity="${opacity}"` : ""}>`,
+    `<title>${escapeXml(tooltip)}</title>`,
+    colorOverride
+      ? `<rect x="${x - 3}" y="${y - 3}" width="${NODE_WIDTH + 6}" height="${NODE_HEIGHT + 6}" rx="10" fill="none" stroke="${colorOverride}" stroke-opacity="0.35" stroke-width="3"/>`
+      : "",
+    `<rect x="${x}" y="${y}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="8" fill="${colors.fill}" stroke="${stroke}" stroke-width="${isSelected || colorOverride ? 3 : 2}"${device.provenance === "internal" ? ` stroke-dasharray="6 3"` : ""}/>`,
+    `<text x="${centerX}" y="${y + 20}" font-size="11" font-weight="600" fill="#fff" text-anchor="middle">${escapeXml(truncate(node.data.label, MAX_LABEL_LENGTH))}</text>`,
+    `<text x="${centerX}" y="${y + 36}" font-size="10" fill="#fff" text-anchor="middle">${escapeXml(device.kNumber)}</text>`,
+    `<text x="${centerX}" y="${y + 50}" font-size="10" fill="#fff" fill-opacity="0.85" text-anchor="middle">${escapeXml(formatProductClass(device.productClass))}</text>`,
+    `</g>`,
+  ].join("");
+};
+
+/**
+ * Document dimensions for renderGraphSvg
+ */
+const measureGraphSvg = (nodes: GraphNode[], options: GraphSvgOptions) => {
+  const { title, subtitle, legend = false } = options;
+  const region = options.region ?? getGraphBounds(nodes);
+  // Narrow graphs are centered in a canvas wide enough for the legend
+  const width = Math.round(
+    legend ? Math.max(region.width, LEGEND_MIN_WIDTH) : region.width,
+  );
+  const graphHeight = Math.round(region.height);
+  const headerHeight = title
+    ? TITLE_HEIGHT
+    : subtitle
+      ? SUBTITLE_ONLY_HEIGHT
+      : 0;
+  const footerHeight = legend ? LEGEND_HEIGHT : 0;
+
+  return {
+    region,
+    width,
+    height: headerHeight + graphHeight + footerHeight,
+    headerHeight,
+    graphHeight,
+  };
+};
+
+/**
+ * Pixel size of the SVG renderGraphSvg produces for the same arguments
+ */
+export const getGraphSvgSize = (
+  nodes: GraphNode[],
+  options: GraphSvgOptions = {},
+): { width: number; height: number } => {
+  const { width, height } = measureGraphSvg(nodes, options);
+  return { width, height };
+};
+
+/**
+ * Render positioned nodes and edges as an SVG document
+ *
+ * Node highlight state (selected, colorOverride, style.opacity) and edge
+ * styles (stroke, strokeWidth, opacity, marker color) are drawn as in
+ * GraphCanvas.
+ *
+ * @param nodes - Positioned nodes
+ * @param edges - Edges; those with an endpoint outside nodes are skipped
+ * @param options - Region, title block and legend
+ * @returns Standalone SVG markup
+ */
+export const renderGraphSvg = (
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  options: GraphSvgOptions = {},
+): string => {
+  const { title, subtitle, legend = false } = options;
+  const { region, width, height, headerHeight, graphHeight } = measureGraphSvg(
+    nodes,
+    options,
+  );
+
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const markerColors = new Set<string>();
+
+  const edgeMarkup = edges.flatMap((edge) => {
+    const source = byId.get(edge.source);
+    const target = byId.get(edge.target);
+    if (!source || !target) return [];
+
+    const stroke = String(edge.style?.stroke ?? EDGE_COLOR);
+    const strokeWidth = edge.style?.strokeWidth ?? 2;
+    const opacity = edge.style?.opacity;
+    const markerColor =
+      typeof edge.markerEnd === "object" && edge.markerEnd.color
+        ? edge.markerEnd.color
+        : stroke;
+    markerColors.add(markerColor);
+
+    const from = HANDLE_OFFSETS[source.sourcePosition ?? Position.Bottom];
+    const to = HANDLE_OFFSETS[target.targetPosition ?? Position.Top];
+
+    return [
+      `<line x1="${source.position.x + from.x}" y1="${source.position.y + from.y}" x2="${target.position.x + to.x}" y2="${target.position.y + to.y}" stroke="${stroke}" stroke-width="${strokeWidth}"${opacity !== undefined ? ` opacity="${opacity}"` : ""}${edge.animated ? ` stroke-dasharray="5 5"` : ""} marker-end="url(#${markerId(markerColor)})"/>`,
+    ];
+  });
+
+  const header = title
+    ? [
+        `<text x="${PADDING}" y="28" font-size="18" font-weight="700" fill="#0f172a">${escapeXml(title)}</text>`,
+        subtitle
+          ? `<text x="${PADDING}" y="46" font-size="11" fill="#475569">${escapeXml(subtitle)}</text>`
+          : "",
+      ]
+    : subtitle
+      ? [
+          `<text x="${PADDING}" y="20" font-size="11" fill="#475569">${escapeXml(subtitle)}</text>`,
+        ]
+      : [];
+
+  const legendY = headerHeight + graphHeight + 22;
+  const arrowX = PADDING + LEGEND_ENTRIES.length * LEGEND_ENTRY_WIDTH;
+  const legendMarkup = legend
+    ? LEGEND_ENTRIES.map(({ productClass, label }, i) => {
+        const x = PADDING + i * LEGEND_ENTRY_WIDTH;
+        return `<rect x="${x}" y="${legendY - 11}" width="14" height="14" rx="3" fill="${(CLASS_COLORS[productClass] || UNKNOWN_CLASS_COLORS).fill}"/><text x="${x + 20}" y="${legendY}" font-size="11" fill="#334155">${label}</text>`;
+      }).concat(
+        `<line x1="${arrowX}" y1="${legendY - 4}" x2="${arrowX + 40}" y2="${legendY - 4}" stroke="${EDGE_COLOR}" stroke-width="2" marker-end="url(#${markerId(EDGE_COLOR)})"/><text x="${arrowX + 48}" y="${legendY}" font-size="11" fill="#334155">Predicate → device</text>`,
+      )
+    : [];
+  if (legend) markerColors.add(EDGE_COLOR);
+
+  const markers = [...markerColors].map(
+    (color) =>
+      `<marker id="${markerId(color)}" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="${color}"/></marker>`,
+  );
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    `<defs>${markers.join("")}</defs>`,
+    `<rect width="100%" height="100%" fill="#fff"/>`,
+    ...header,
+    `<svg x="0" y="${headerHeight}" width="${width}" height="${graphHeight}" viewBox="${region.x} ${region.y} ${region.width} ${region.height}">`,
+    ...edgeMarkup,
+    ...nodes.map(renderNode),
+    `</svg>`,
+    ...legendMarkup,
+    `</svg>`,
+  ].join("\n");
+};
+
+/**
+ * Lay out devices with dagre and render them as an SVG document
+ *
+ * @param devices - Devices in the subgraph; links outside it are dropped
+ * @param options - Highlighted device and layout direction
+ * @returns Standalone SVG markup
+ */
+export const renderGraphSnapshotSvg = (
+  devices: FDADevice[],
+  options: GraphSnapshotOptions = {},
+): string => {
+  const { highlightId, direction = "TB" } = options;
+  const ids = new Set(devices.map((d) => d.kNumber));
+
+  const nodes: GraphNode[] = devices.map((device) => ({
+    id: device.kNumber,
+    type: "deviceNode",
+    position: { x: 0, y: 0 },
+    data: {
+      device,
+      label: device.deviceName,
+      isSelected: device.kNumber === highlightId,
+    },
+  }));
+
+  const edges: GraphEdge[] = devices.flatMap((device) =>
+    device.predicateDevices
+      .filter((predicate) => ids.has(predicate))
+      .map((predicate) => ({
+        id: `${predicate}-${device.kNumber}`,
+        source: predicate,
+        target: device.kNumber,
+        type: "predicateEdge" as const,
+      })),
+  );
+
+  const layout = applyLayout(nodes, edges, { algorithm: "dagre", direction });
+  const handles =
+    DIRECTION_HANDLES[layout.algorithm === "dagre" ? direction : "TB"];
+
+  return renderGraphSvg(
+    layout.nodes.map((node) => ({ ...node, ...handles })),
+    edges,
+  );
+};
@@ -1,14 +1,32 @@
 /**
  * Graph Layout Algorithms
  *
- * Provides hierarchical layout algorithms for FDA device predicate graphs
- * Uses Dagre for directed graph positioning with predicate relationships
+ * Provides layout algorithms for FDA device predicate graphs:
+ * - Dagre hierarchical layout in four directions
+ * - Force-directed layout (spatially bucketed, scales past dagre's limits)
+ * - Radial "ego" layout in rings around a focus device
+ * - Grid layout as a last resort for very large graphs
  *
- * Performance: Optimized for <500 nodes, fallback strategy for larger graphs
+ * All algorithms return nodes positioned by their top-left corner
+ * Registered for selection in layout-registry.ts
  */
 
 import dagre from "dagre";
-import { GraphNode, GraphEdge } from "@/types/graph";
+import {
+  GraphNode,
+  GraphEdge,
+  LayoutConfig,
+  LayoutDirection,
+} from "@/types/graph";
+
+/**
+ * Reports layout completion as a fraction between 0 and 1
+ */
+export type LayoutProgressCallback = (progress: number) => void;
+
+// Rendered DeviceNode footprint used for spacing and centering
+export const NODE_WIDTH = 180;
+export const NODE_HEIGHT = 60;
 
 /**
  * Dagre Graph Configuration
@@ -19,7 +37,7 @@ import { GraphNode, GraphEdge } from "@/types/graph";
  * marginx/y: Padding around the entire graph
  */
 const DAGRE_CONFIG = {
-  rankdir: "TB" as const, // Top-to-bottom for predicate hierarchy
+  rankdir: "TB" as LayoutDirection, // Top-to-bottom for predicate hierarchy
   nodesep: 80, // Horizontal node separation
   ranksep: 120, // Vertical rank separation
   marginx: 50, // Graph margin X
@@ -31,11 +49,13 @@ const DAGRE_CONFIG = {
  *
  * @param nodes - Array of graph nodes to position
  * @param edges - Array of edges defining predicate relationships
+ * @param direction - Rank direction (defaults to top-to-bottom)
  * @returns Positioned nodes with x,y coordinates from Dagre algorithm
  */
 export const getLayoutedElements = (
   nodes: GraphNode[],
   edges: GraphEdge[],
+  direction: LayoutDirection = DAGRE_CONFIG.rankdir,
 ): GraphNode[] => {
   // Create new Dagre graph instance
   const dagreGraph = new dagre.graphlib.Graph();
@@ -43,7 +63,7 @@ export const getLayoutedElements = (
 
   // Configure graph layout settings
   dagreGraph.setGraph({
-    rankdir: DAGRE_CONFIG.rankdir,
+    rankdir: direction,
     nodesep: DAGRE_CONFIG.nodesep,
     ranksep: DAGRE_CONFIG.ranksep,
     marginx: DAGRE_CONFIG.marginx,
@@ -53,8 +73,8 @@ export const getLayoutedElements = (
   // Add nodes to Dagre graph with their dimensions
   nodes.forEach((node) => {
     dagreGraph.setNode(node.id, {
-      width: 180, // Node width for text content
-      height: 60, // Node height for device info
+      width: NODE_WIDTH, // Node width for text content
+      height: NODE_HEIGHT, // Node height for device info
     });
   });
 
@@ -74,8 +94,8 @@ export const getLayoutedElements = (
       ...node,
       position: {
         // Dagre calculates center position, adjust for top-left positioning
-        x: nodeWithPosition.x - 90, // Half of node width (180/2)
-        y: nodeWithPosition.y - 30, // Half of node height (60/2)
+        x: nodeWithPosition.x - NODE_WIDTH / 2,
+        y: nodeWithPosition.y - NODE_HEIGHT / 2,
       },
     };
   });
@@ -83,31 +103,298 @@ export const getLayoutedElements = (
   return layoutedNodes;
 };
 
+/**
+ * Force-directed Layout Configuration
+ *
+ * idealEdgeLength: Rest length of edges, also scales node repulsion
+ * cutoffFactor: Repulsion ignored beyond idealEdgeLength * cutoffFactor
+ * gravity: Pull toward the origin so disconnected components stay close
+ */
+const FORCE_CONFIG = {
+  idealEdgeLength: 260,
+  cutoffFactor: 3,
+  gravity: 0.05,
+};
+
+// Iterations between force layout progress reports
+const FORCE_PROGRESS_INTERVAL = 10;
+
+// Golden angle spiral spreads initial positions evenly and deterministically
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+/**
+ * Iteration budget shrinks with graph size to keep layout interactive
+ */
+const getForceIterations = (nodeCount: number): number =>
+  nodeCount > 2000 ? 60 : nodeCount > 500 ? 150 : 300;
+
+/**
+ * Applies a Fruchterman-Reingold force-directed layout
+ *
+ * Repulsion is only computed between nodes in neighbouring grid cells, so
+ * each iteration is roughly O(V + E) instead of O(V²)
+ *
+ * @param nodes - Array of graph nodes to position
+ * @param edges - Array of edges acting as springs
+ * @param config - Layout config; nodeSpacing.horizontal overrides edge length
+ * @param onProgress - Called periodically with the fraction of iterations done
+ * @returns Positioned nodes
+ */
+export const getForceLayoutedElements = (
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  config?: Partial<LayoutConfig>,
+  onProgress?: LayoutProgressCallback,
+): GraphNode[] => {
+  const count = nodes.length;
+  if (count === 0) {
+    return [];
+  }
+
+  const k = config?.nodeSpacing?.horizontal ?? FORCE_CONFIG.idealEdgeLength;
+  const cutoff = k * FORCE_CONFIG.cutoffFactor;
+  const index = new Map(nodes.map((node, i) => [node.id, i]));
+
+  // Initial positions on a sunflower spiral
+  const xs = new Float64Array(count);
+  const ys = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    const radius = (k / 2) * Math.sqrt(i + 0.5);
+    xs[i] = radius * Math.cos(i * GOLDEN_ANGLE);
+    ys[i] = radius * Math.sin(i * GOLDEN_ANGLE);
+  }
+
+  const links = edges
+    .map((edge) => [index.get(edge.source), index.get(edge.target)])
+    .filter(
+      (link): link is [number, number] =>
+        link[0] !== undefined && link[1] !== undefined && link[0] !== link[1],
+    );
+
+  const dx = new Float64Array(count);
+  const dy = new Float64Array(count);
+  const iterations = getForceIterations(count);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    dx.fill(0);
+    dy.fill(0);
+
+    // Bucket nodes into cutoff-sized cells
+    const cells = new Map<string, number[]>();
+    for (let i = 0; i < count; i++) {
+      const key = `${Math.floor(xs[i] / cutoff)},${Math.floor(ys[i] / cutoff)}`;
+      const cell = cells.get(key);
+      if (cell) cell.push(i);
+      else cells.set(key, [i]);
+    }
+
+    // Repulsion between nearby nodes, each pair once
+    for (let i = 0; i < count; i++) {
+      const cellX = Math.floor(xs[i] / cutoff);
+      const cellY = Math.floor(ys[i] / cutoff);
+
+      for (let offsetX = -1; offsetX <= 1; offsetX++) {
+        for (let offsetY = -1; offsetY <= 1; offsetY++) {
+          const cell = cells.get(`${cellX + offsetX},${cellY + offsetY}`);
+          if (!cell) continue;
+
+          for (const j of cell) {
+            if (j <= i) continue;
+
+            const deltaX = xs[i] - xs[j];
+            const deltaY = ys[i] - ys[j];
+            const distanceSq = deltaX * deltaX + deltaY * deltaY;
+            if (distanceSq > cutoff * cutoff) continue;
+
+            const distance = Math.max(Math.sqrt(distanceSq), 1);
+            const force = (k * k) / distance;
+            const forceX = (deltaX / distance) * force;
+            const forceY = (deltaY / distance) * force;
+            dx[i] += forceX;
+            dy[i] += forceY;
+            dx[j] -= forceX;
+            dy[j] -= forceY;
+          }
+        }
+      }
+    }
+
+    // Spring attraction along edges
+    for (const [source, target] of links) {
+      const deltaX = xs[source] - xs[target];
+      const deltaY = ys[source] - ys[target];
+      const distance = Math.max(Math.hypot(deltaX, deltaY), 1);
+      const force = (distance * distance) / k;
+      const forceX = (deltaX / distance) * force;
+      const forceY = (deltaY / distance) * force;
+      dx[source] -= forceX;
+      dy[source] -= forceY;
+      dx[target] += forceX;
+      dy[target] += forceY;
+    }
+
+    // Move each node, capped by a linearly cooling temperature
+    const temperature = k * (1 - iteration / iterations) + 1;
+    for (let i = 0; i < count; i++) {
+      dx[i] -= xs[i] * FORCE_CONFIG.gravity;
+      dy[i] -= ys[i] * FORCE_CONFIG.gravity;
+
+      const displacement = Math.hypot(dx[i], dy[i]);
+      if (displacement > 0) {
+        const scale = Math.min(displacement, temperature) / displacement;
+        xs[i] += dx[i] * scale;
+        ys[i] += dy[i] * scale;
+      }
+    }
+
+    if (onProgress && iteration % FORCE_PROGRESS_INTERVAL === 0) {
+      onProgress(iteration / iterations);
+    }
+  }
+
+  return nodes.map((node, i) => ({
+    ...node,
+    position: {
+      x: xs[i] - NODE_WIDTH / 2,
+      y: ys[i] - NODE_HEIGHT / 2,
+    },
+  }));
+};
+
+/**
+ * Radial Layout Configuration
+ *
+ * ringSpacing: Minimum distance between consecutive rings
+ * minArcLength: Minimum arc per node on a ring before the ring grows
+ */
+const RADIAL_CONFIG = {
+  ringSpacing: 260,
+  minArcLength: 220,
+};
+
+/**
+ * Applies a radial "ego" layout around a focus device
+ *
+ * The focus sits at the center; each ring holds devices one more predicate
+ * hop away (in either direction). Devices are placed in breadth-first order
+ * so neighbours of the same parent stay together. Devices unreachable from
+ * the focus share an outer ring.
+ *
+ * @param nodes - Array of graph nodes to position
+ * @param edges - Array of predicate edges
+ * @param config - Layout config; centerNodeId picks the focus device
+ * @returns Positioned nodes
+ */
+export const getRadialLayoutedElements = (
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  config?: Partial<LayoutConfig>,
+): GraphNode[] => {
+  if (nodes.length === 0) {
+    return [];
+  }
+
+  // Undirected adjacency - lineage runs both ways from the focus
+  const neighbours = new Map<string, string[]>(
+    nodes.map((node) => [node.id, []]),
+  );
+  edges.forEach((edge) => {
+    if (!neighbours.has(edge.source) || !neighbours.has(edge.target)) return;
+    neighbours.get(edge.source)!.push(edge.target);
+    neighbours.get(edge.target)!.push(edge.source);
+  });
+
+  // Focus: requested device, else the best-connected one
+  const centerId =
+    config?.centerNodeId && neighbours.has(config.centerNodeId)
+      ? config.centerNodeId
+      : nodes.reduce((best, node) =>
+          neighbours.get(node.id)!.length > neighbours.get(best.id)!.length
+            ? node
+            : best,
+        ).id;
+
+  // Breadth-first rings
+  const depths = new Map<string, number>([[centerId, 0]]);
+  const rings: string[][] = [[centerId]];
+  let frontier = [centerId];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    frontier.forEach((id) => {
+      [...neighbours.get(id)!].sort().forEach((neighbour) => {
+        if (depths.has(neighbour)) return;
+        depths.set(neighbour, rings.length);
+        next.push(neighbour);
+      });
+    });
+    if (next.length > 0) rings.push(next);
+    frontier = next;
+  }
+
+  const unreachable = nodes
+    .filter((node) => !depths.has(node.id))
+    .map((node) => node.id);
+  if (unreachable.length > 0) rings.push(unreachable);
+
+  // Ring radii grow with depth and with the number of devices on the ring
+  const positions = new Map<string, { x: number; y: number }>();
+  let radius = 0;
+  rings.forEach((ring, depth) => {
+    if (depth > 0) {
+      radius = Math.max(
+        radius + RADIAL_CONFIG.ringSpacing,
+        (ring.length * RADIAL_CONFIG.minArcLength) / (2 * Math.PI),
+      );
+    }
+
+    ring.forEach((id, i) => {
+      const angle = (2 * Math.PI * i) / ring.length - Math.PI / 2;
+      positions.set(id, {
+        x: radius * Math.cos(angle) - NODE_WIDTH / 2,
+        y: radius * Math.sin(angle) - NODE_HEIGHT / 2,
+      });
+    });
+  });
+
+  return nodes.map((node) => ({
+    ...node,
+    position: positions.get(node.id)!,
+  }));
+};
+
+/**
+ * Applies a simple square grid layout
+ * Cheapest option, used when a graph is too large for other algorithms
+ *
+ * @param nodes - Array of graph nodes to position
+ * @returns Positioned nodes in roughly square rows
+ */
+export const getGridLayoutedElements = (nodes: GraphNode[]): GraphNode[] => {
+  const columns = Math.max(1, Math.ceil(Math.sqrt(nodes.length)));
+
+  return nodes.map((node, index) => ({
+    ...node,
+    position: {
+      x: (index % columns) * (NODE_WIDTH + 20),
+      y: Math.floor(index / columns) * (NODE_HEIGHT + 90),
+    },
+  }));
+};
+
 /**
  * Performance monitoring for layout calculations
  * Logs layout time for optimization tracking
  */
 export const measureLayoutPerformance = (
+  algorithm: string,
   nodeCount: number,
   startTime: number,
 ): void => {
   const layoutTime = Date.now() - startTime;
 
-  console.log(`Dagre Layout Performance:`, {
+  console.log(`${algorithm} Layout Performance:`, {
     nodeCount,
     layoutTime: `${layoutTime}ms`,
-    avgTimePerNode: `${(layoutTime / nodeCount).toFixed(2)}ms`,
-    recommendation:
-      nodeCount > 500 ? "Consider Web Worker" : "Good performance",
+    avgTimePerNode: `${(layoutTime / Math.max(nodeCount, 1)).toFixed(2)}ms`,
   });
 };
-
-/**
- * Validates if Dagre layout is appropriate for current dataset
- * Returns recommendation for layout strategy
- */
-export const shouldUseDagre = (nodeCount: number): boolean => {
-  // Dagre works well for small to medium graphs
-  // For >500 nodes, consider D3-force in Web Worker
-  return nodeCount <= 500;
-};
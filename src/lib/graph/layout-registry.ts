@@ -0,0 +1,147 @@
+/**
+ * Graph Layout Registry
+ *
+ * Maps each LayoutConfig algorithm to its implementation plus the metadata
+ * the layout toolbar needs. Engines declare a node limit and a fallback so
+ * large graphs degrade dagre → force → grid instead of freezing the page.
+ */
+
+import type {
+  GraphEdge,
+  GraphNode,
+  LayoutAlgorithm,
+  LayoutConfig,
+} from "@/types/graph";
+import {
+  type LayoutProgressCallback,
+  getForceLayoutedElements,
+  getGridLayoutedElements,
+  getLayoutedElements,
+  getRadialLayoutedElements,
+  measureLayoutPerformance,
+} from "./layout-algorithms";
+
+/**
+ * Layout implementation with display metadata
+ */
+export interface LayoutEngine {
+  id: LayoutAlgorithm;
+  label: string;
+  description: string;
+
+  /** Whether LayoutConfig.direction applies */
+  supportsDirection: boolean;
+
+  /** Largest graph the engine lays out interactively */
+  maxNodes: number;
+
+  /** Engine used when the graph exceeds maxNodes */
+  fallback?: LayoutAlgorithm;
+
+  /** Engines that iterate report progress; others complete in one step */
+  layout: (
+    nodes: GraphNode[],
+    edges: GraphEdge[],
+    config: LayoutConfig,
+    onProgress?: LayoutProgressCallback,
+  ) => GraphNode[];
+}
+
+/**
+ * Registered layout engines, in toolbar order
+ */
+export const LAYOUT_ENGINES: Record<LayoutAlgorithm, LayoutEngine> = {
+  dagre: {
+    id: "dagre",
+    label: "Hierarchy",
+    description: "Predicate generations in ranks",
+    supportsDirection: true,
+    maxNodes: 500,
+    fallback: "force",
+    layout: (nodes, edges, config) =>
+      getLayoutedElements(nodes, edges, config.direction),
+  },
+  force: {
+    id: "force",
+    label: "Force",
+    description: "Clusters of closely related devices",
+    supportsDirection: false,
+    maxNodes: 5000,
+    fallback: "grid",
+    layout: getForceLayoutedElements,
+  },
+  radial: {
+    id: "radial",
+    label: "Radial",
+    description: "Rings of predicate hops around the selected device",
+    supportsDirection: false,
+    maxNodes: Infinity,
+    layout: getRadialLayoutedElements,
+  },
+  grid: {
+    id: "grid",
+    label: "Grid",
+    description: "Plain rows, for very large result sets",
+    supportsDirection: false,
+    maxNodes: Infinity,
+    layout: (nodes) => getGridLayoutedElements(nodes),
+  },
+};
+
+/**
+ * Layout used when nothing else is configured
+ */
+export const DEFAULT_LAYOUT_CONFIG: LayoutConfig = {
+  algorithm: "dagre",
+  direction: "TB",
+};
+
+/**
+ * Pick the engine for a graph, following fallbacks past node limits
+ *
+ * @param algorithm - Requested algorithm
+ * @param nodeCount - Number of nodes to lay out
+ * @returns Engine that will actually run
+ */
+export const resolveLayoutEngine = (
+  algorithm: LayoutAlgorithm,
+  nodeCount: number,
+): LayoutEngine => {
+  let engine = LAYOUT_ENGINES[algorithm];
+  while (nodeCount > engine.maxNodes && engine.fallback) {
+    engine = LAYOUT_ENGINES[engine.fallback];
+  }
+  return engine;
+};
+
+/**
+ * Lay out a graph with the configured algorithm
+ *
+ * @param nodes - Nodes to position
+ * @param edges - Predicate edges
+ * @param config - Layout configuration
+ * @param onProgress - Called with the fraction of work done
+ * @returns Positioned nodes and the algorithm that produced them
+ */
+export const applyLayout = (
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  config: LayoutConfig = DEFAULT_LAYOUT_CONFIG,
+  onProgress?: LayoutProgressCallback,
+): { nodes: GraphNode[]; algorithm: LayoutAlgorithm } => {
+  const startTime = Date.now();
+  const engine = resolveLayoutEngine(config.algorithm, nodes.length);
+
+  if (engine.id !== config.algorithm) {
+    console.warn(
+      `Dataset too large (${nodes.length} nodes) for ${config.algorithm}, using ${engine.id} layout`,
+    );
+  }
+
+  onProgress?.(0);
+  const layoutedNodes = engine.layout(nodes, edges, config, onProgress);
+  onProgress?.(1);
+  measureLayoutPerformance(engine.label, nodes.length, startTime);
+
+  return { nodes: layoutedNodes, algorithm: engine.id };
+};
@@ -0,0 +1,214 @@
+/**
+ * Layout Worker Client
+ *
+ * Main-thread side of the layout worker: one layout in flight at a time,
+ * newer requests cancel older ones, and cancellation terminates the worker
+ * so abandoned layouts stop consuming CPU immediately.
+ *
+ * Falls back to running the layout synchronously where Web Workers are
+ * unavailable (server rendering, tests).
+ */
+
+import type { GraphEdge, GraphNode, LayoutConfig } from "@/types/graph";
+import { applyLayout } from "./layout-registry";
+import type {
+  LayoutPositions,
+  LayoutResult,
+  LayoutWorkerRequest,
+  LayoutWorkerResponse,
+} from "./layout-worker-protocol";
+
+/**
+ * Raised when a layout is superseded, aborted or the client is disposed
+ */
+export class LayoutCancelledError extends Error {
+  constructor() {
+    super("Layout cancelled");
+    this.name = "LayoutCancelledError";
+  }
+}
+
+/**
+ * Options for a single layout request
+ */
+export interface LayoutRequestOptions {
+  /** Aborting cancels the layout and rejects with LayoutCancelledError */
+  signal?: AbortSignal;
+  /** Called with the fraction of work done, 0 to 1 */
+  onProgress?: (progress: number) => void;
+}
+
+interface PendingLayout {
+  requestId: number;
+  resolve: (result: LayoutResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * Check whether Web Workers can be created in this environment
+ */
+const isWorkerSupported = (): boolean => typeof Worker !== "undefined";
+
+/**
+ * Run a layout on the current thread, producing the worker's result shape
+ */
+const runLayoutSync = (
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  config: LayoutConfig,
+  onProgress?: (progress: number) => void,
+): LayoutResult => {
+  const startTime = Date.now();
+  const layout = applyLayout(nodes, edges, config, onProgress);
+  const positions: LayoutPositions = {};
+  layout.nodes.forEach((node) => {
+    positions[node.id] = node.position;
+  });
+
+  return {
+    positions,
+    algorithm: layout.algorithm,
+    duration: Date.now() - startTime,
+  };
+};
+
+export class LayoutWorkerClient {
+  private worker: Worker | null = null;
+  private pending: PendingLayout | null = null;
+  private nextRequestId = 1;
+
+  /**
+   * Lay out a graph in the worker
+   *
+   * @param nodes - Nodes to position
+   * @param edges - Predicate edges
+   * @param config - Layout configuration
+   * @param options - Abort signal and progress callback
+   * @returns Node positions and the algorithm applied
+   */
+  public layout(
+    nodes: GraphNode[],
+    edges: GraphEdge[],
+    config: LayoutConfig,
+    options: LayoutRequestOptions = {},
+  ): Promise<LayoutResult> {
+    const { signal, onProgress } = options;
+
+    // Newest request wins
+    this.cancel();
+
+    if (signal?.aborted) {
+      return Promise.reject(new LayoutCancelledError());
+    }
+
+    if (!isWorkerSupported()) {
+      return Promise.resolve(runLayoutSync(nodes, edges, config, onProgress));
+    }
+
+    return new Promise<LayoutResult>((resolve, reject) => {
+      const requestId = this.nextRequestId++;
+      this.pending = { requestId, resolve, reject, onProgress };
+
+      signal?.addEventListener(
+        "abort",
+        () => {
+          if (this.pending?.requestId === requestId) {
+            this.cancel();
+          }
+        },
+        { once: true },
+      );
+
+      const request: LayoutWorkerRequest = {
+        type: "layout",
+        requestId,
+        nodes,
+        edges,
+        config,
+      };
+      this.getWorker().postMessage(request);
+    });
+  }
+
+  /**
+   * Cancel the layout in flight, if any
+   * Terminates the worker; a fresh one is created for the next request
+   */
+  public cancel(): void {
+    if (!this.pending) {
+      return;
+    }
+
+    const { reject } = this.pending;
+    this.pending = null;
+    this.terminateWorker();
+    reject(new LayoutCancelledError());
+  }
+
+  /**
+   * Cancel any layout and release the worker
+   */
+  public dispose(): void {
+    this.cancel();
+    this.terminateWorker();
+  }
+
+  /**
+   * Get the worker, creating it on first use
+   */
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL("./layout.worker.ts", import.meta.url));
+      this.worker.onmessage = (event: MessageEvent<LayoutWorkerResponse>) =>
+        this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        event.preventDefault();
+        this.handleFailure(new Error(event.message || "Layout worker failed"));
+      };
+    }
+    return this.worker;
+  }
+
+  private terminateWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  /**
+   * Route a worker message to the pending request it belongs to
+   */
+  private handleMessage(response: LayoutWorkerResponse): void {
+    const pending = this.pending;
+    if (!pending || response.requestId !== pending.requestId) {
+      return; // Stale reply from a superseded request
+    }
+
+    switch (response.type) {
+      case "progress":
+        pending.onProgress?.(response.progress);
+        break;
+
+      case "result": {
+        this.pending = null;
+        const { positions, algorithm, duration } = response;
+        pending.resolve({ positions, algorithm, duration });
+        break;
+      }
+
+      case "error":
+        this.handleFailure(new Error(response.message));
+        break;
+    }
+  }
+
+  /**
+   * Reject the pending request and discard the (possibly broken) worker
+   */
+  private handleFailure(error: Error): void {
+    const pending = this.pending;
+    this.pending = null;
+    this.terminateWorker();
+    pending?.reject(error);
+  }
+}
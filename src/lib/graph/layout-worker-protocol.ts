@@ -0,0 +1,63 @@
+/**
+ * Layout Worker Protocol
+ *
+ * Typed messages exchanged between the main thread and layout.worker.ts
+ * Every message carries the requestId of the layout it belongs to, so stale
+ * replies from a superseded request can be ignored
+ */
+
+import type {
+  GraphEdge,
+  GraphNode,
+  LayoutAlgorithm,
+  LayoutConfig,
+} from "@/types/graph";
+
+/**
+ * Top-left node positions keyed by node id
+ */
+export type LayoutPositions = Record<string, { x: number; y: number }>;
+
+/**
+ * Main thread → worker
+ */
+export type LayoutWorkerRequest = {
+  type: "layout";
+  requestId: number;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  config: LayoutConfig;
+};
+
+/**
+ * Worker → main thread
+ */
+export type LayoutWorkerResponse =
+  | {
+      type: "progress";
+      requestId: number;
+      /** Fraction of work done, 0 to 1 */
+      progress: number;
+    }
+  | {
+      type: "result";
+      requestId: number;
+      positions: LayoutPositions;
+      /** Algorithm actually applied (after size fallbacks) */
+      algorithm: LayoutAlgorithm;
+      /** Layout time in milliseconds */
+      duration: number;
+    }
+  | {
+      type: "error";
+      requestId: number;
+      message: string;
+    };
+
+/**
+ * Completed layout as returned to callers
+ */
+export type LayoutResult = Omit<
+  Extract<LayoutWorkerResponse, { type: "result" }>,
+  "type" | "requestId"
+>;
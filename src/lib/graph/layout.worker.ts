@@ -0,0 +1,55 @@
+/**
+ * Layout Web Worker
+ *
+ * Runs registered layout engines off the main thread and reports progress
+ * Cancellation is handled by the client terminating the worker, since a
+ * running layout never yields to read further messages
+ *
+ * Protocol: layout-worker-protocol.ts
+ */
+
+import { applyLayout } from "./layout-registry";
+import type {
+  LayoutPositions,
+  LayoutWorkerRequest,
+  LayoutWorkerResponse,
+} from "./layout-worker-protocol";
+
+// Minimum progress change worth a message
+const PROGRESS_STEP = 0.05;
+
+const respond = (response: LayoutWorkerResponse) => self.postMessage(response);
+
+self.onmessage = (event: MessageEvent<LayoutWorkerRequest>) => {
+  const { requestId, nodes, edges, config } = event.data;
+  const startTime = Date.now();
+  let lastProgress = -1;
+
+  try {
+    const layout = applyLayout(nodes, edges, config, (progress) => {
+      if (progress === 1 || progress - lastProgress >= PROGRESS_STEP) {
+        lastProgress = progress;
+        respond({ type: "progress", requestId, progress });
+      }
+    });
+
+    const positions: LayoutPositions = {};
+    layout.nodes.forEach((node) => {
+      positions[node.id] = node.position;
+    });
+
+    respond({
+      type: "result",
+      requestId,
+      positions,
+      algorithm: layout.algorithm,
+      duration: Date.now() - startTime,
+    });
+  } catch (error) {
+    respond({
+      type: "error",
+      requestId,
+      message: error instanceof Error ? error.message : "Layout failed",
+    });
+  }
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import type { PathQuery } from "@/types/graph";
+import { findPredicatePaths, getPathElementIds } from "./path-finder";
+
+// Edges run predicate → device. D cites A directly, through B and C, and
+// through the longer chain E → F.
+const edges = [
+  ["A", "D"],
+  ["B", "D"],
+  ["C", "D"],
+  ["F", "D"],
+  ["A", "B"],
+  ["A", "C"],
+  ["E", "F"],
+  ["A", "E"],
+].map(([source, target]) => ({ source, target }));
+
+const query = (overrides: Partial<PathQuery> = {}): PathQuery => ({
+  from: "D",
+  to: "A",
+  mode: "simple",
+  maxLength: 6,
+  ...overrides,
+});
+
+describe("findPredicatePaths", () => {
+  it("returns only the shortest paths in shortest mode", () => {
+    expect(findPredicatePaths(edges, query({ mode: "shortest" }))).toEqual({
+      paths: [["D", "A"]],
+      direction: "predicates",
+      truncated: false,
+    });
+  });
+
+  it("respects the hop limit and orders paths shortest first", () => {
+    expect(findPredicatePaths(edges, query({ maxLength: 2 })).paths).toEqual([
+      ["D", "A"],
+      ["D", "B", "A"],
+      ["D", "C", "A"],
+    ]);
+    expect(findPredicatePaths(edges, query()).paths).toEqual([
+      ["D", "A"],
+      ["D", "B", "A"],
+      ["D", "C", "A"],
+      ["D", "F", "E", "A"],
+    ]);
+  });
+
+  it("finds nothing when the shortest path exceeds the limit", () => {
+    expect(findPredicatePaths(edges, query({ to: "E", maxLength: 1 }))).toEqual(
+      { paths: [], direction: null, truncated: false },
+    );
+  });
+
+  it("keeps the shortest paths when truncating", () => {
+    expect(findPredicatePaths(edges, query(), 2)).toEqual({
+      paths: [
+        ["D", "A"],
+        ["D", "B", "A"],
+      ],
+      direction: "predicates",
+      truncated: true,
+    });
+    expect(findPredicatePaths(edges, query(), 3).truncated).toBe(true);
+    expect(findPredicatePaths(edges, query(), 4).truncated).toBe(false);
+  });
+
+  it("searches dependents when the endpoints are reversed", () => {
+    const result = findPredicatePaths(
+      edges,
+      query({ from: "A", to: "D", mode: "shortest" }),
+    );
+
+    expect(result).toEqual({
+      paths: [["A", "D"]],
+      direction: "dependents",
+      truncated: false,
+    });
+  });
+
+  it("does not loop on cyclic citations", () => {
+    const cyclic = [...edges, { source: "D", target: "B" }];
+
+    expect(findPredicatePaths(cyclic, query({ maxLength: 2 })).paths).toEqual([
+      ["D", "A"],
+      ["D", "B", "A"],
+      ["D", "C", "A"],
+    ]);
+  });
+});
+
+describe("getPathElementIds", () => {
+  it("maps path hops back to predicate → device edge ids", () => {
+    const { nodeIds, edgeIds } = getPathElementIds(
+      findPredicatePaths(edges, query({ maxLength: 2 })),
+    );
+
+    expect([...nodeIds].sort()).toEqual(["A", "B", "C", "D"]);
+    expect([...edgeIds].sort()).toEqual(["A-B", "A-C", "A-D", "B-D", "C-D"]);
+  });
+});
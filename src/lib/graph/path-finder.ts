@@ -0,0 +1,251 @@
+/**
+ * Predicate Path Finder
+ *
+ * Answers "how does K241234 trace back to K870001?" over the predicate
+ * graph's edges (predicate → device). Paths are searched up the predicate
+ * chain first and, failing that, down through dependents, so the two
+ * endpoints can be entered in either order.
+ *
+ * Path counts grow exponentially in dense graphs, so every search stops
+ * after maxPaths results and reports truncation. Paths are enumerated one
+ * length at a time, shortest first, so truncation only drops the longest.
+ */
+
+import type { GraphEdge, PathQuery } from "@/types/graph";
+
+/**
+ * Direction a path runs from its start device
+ * - predicates: start cites (transitively) the end device
+ * - dependents: end device cites (transitively) the start
+ */
+export type PathDirection = "predicates" | "dependents";
+
+/**
+ * Path search outcome
+ */
+export interface PathSearchResult {
+  /** K-number sequences from query.from to query.to */
+  paths: string[][];
+  direction: PathDirection | null;
+  /** Whether more paths exist than were returned */
+  truncated: boolean;
+}
+
+// Default cap on returned paths
+export const DEFAULT_MAX_PATHS = 50;
+
+type Adjacency = Map<string, string[]>;
+
+/**
+ * Build predicate (device → predicates) and dependent (predicate → devices)
+ * adjacency lists from graph edges
+ */
+const buildAdjacency = (
+  edges: Pick<GraphEdge, "source" | "target">[],
+): Record<PathDirection, Adjacency> => {
+  const predicates: Adjacency = new Map();
+  const dependents: Adjacency = new Map();
+  const add = (map: Adjacency, from: string, to: string) => {
+    const list = map.get(from);
+    if (!list) map.set(from, [to]);
+    else if (!list.includes(to)) list.push(to);
+  };
+
+  edges.forEach(({ source, target }) => {
+    add(predicates, target, source);
+    add(dependents, source, target);
+  });
+
+  return { predicates, dependents };
+};
+
+/**
+ * Breadth-first hop distances from a start node
+ */
+const getDistances = (
+  adjacency: Adjacency,
+  start: string,
+): Map<string, number> => {
+  const distances = new Map([[start, 0]]);
+  const queue = [start];
+
+  for (let head = 0; head < queue.length; head++) {
+    const node = queue[head];
+    const distance = distances.get(node)!;
+    (adjacency.get(node) || []).forEach((next) => {
+      if (!distances.has(next)) {
+        distances.set(next, distance + 1);
+        queue.push(next);
+      }
+    });
+  }
+
+  return distances;
+};
+
+/**
+ * Reverse an adjacency list (used for distances to the target)
+ */
+const reverseAdjacency = (adjacency: Adjacency): Adjacency => {
+  const reversed: Adjacency = new Map();
+  adjacency.forEach((targets, source) =>
+    targets.forEach((target) => {
+      const list = reversed.get(target);
+      if (list) list.push(source);
+      else reversed.set(target, [source]);
+    }),
+  );
+  return reversed;
+};
+
+/**
+ * Enumerate simple paths of exactly `length` hops
+ *
+ * Pruned with exact distances to the target, so with length equal to the
+ * shortest distance only shortest paths are explored.
+ */
+const enumeratePaths = (
+  adjacency: Adjacency,
+  distanceToTarget: Map<string, number>,
+  from: string,
+  to: string,
+  length: number,
+  maxPaths: number,
+): { paths: string[][]; truncated: boolean } => {
+  const paths: string[][] = [];
+  const path = [from];
+  const onPath = new Set(path);
+  let truncated = false;
+
+  // Explicit stack of next-neighbour positions, parallel to path
+  const positions = [0];
+
+  while (path.length > 0) {
+    const node = path[path.length - 1];
+
+    if (node === to) {
+      if (path.length - 1 === length) {
+        if (paths.length === maxPaths) {
+          truncated = true;
+          break;
+        }
+        paths.push([...path]);
+      }
+      onPath.delete(path.pop()!);
+      positions.pop();
+      continue;
+    }
+
+    const neighbours = adjacency.get(node) || [];
+    const position = positions[positions.length - 1];
+
+    if (position >= neighbours.length) {
+      onPath.delete(path.pop()!);
+      positions.pop();
+      continue;
+    }
+
+    positions[positions.length - 1]++;
+    const next = neighbours[position];
+    const remaining = distanceToTarget.get(next);
+
+    // Hops used so far + this hop + shortest way on must fit the budget
+    if (
+      !onPath.has(next) &&
+      remaining !== undefined &&
+      path.length + remaining <= length
+    ) {
+      path.push(next);
+      onPath.add(next);
+      positions.push(0);
+    }
+  }
+
+  return { paths, truncated };
+};
+
+/**
+ * Find predicate paths between two devices
+ *
+ * @param edges - Predicate graph edges (source = predicate, target = device)
+ * @param query - Endpoints, mode and hop limit for simple paths
+ * @param maxPaths - Cap on returned paths
+ * @returns Paths from query.from to query.to and the direction they run
+ */
+export const findPredicatePaths = (
+  edges: Pick<GraphEdge, "source" | "target">[],
+  query: PathQuery,
+  maxPaths = DEFAULT_MAX_PATHS,
+): PathSearchResult => {
+  const { from, to, mode, maxLength } = query;
+
+  if (from === to) {
+    return { paths: [[from]], direction: null, truncated: false };
+  }
+
+  const adjacency = buildAdjacency(edges);
+  const directions: PathDirection[] = ["predicates", "dependents"];
+
+  for (const direction of directions) {
+    const shortest = getDistances(adjacency[direction], from).get(to);
+    if (shortest === undefined) continue;
+
+    const limit = mode === "shortest" ? shortest : maxLength;
+    if (shortest > limit) continue;
+
+    // One length at a time, so the paths kept under maxPaths are the
+    // shortest ones rather than whichever depth-first order reaches first
+    const distanceToTarget = getDistances(
+      reverseAdjacency(adjacency[direction]),
+      to,
+    );
+    const paths: string[][] = [];
+    let truncated = false;
+
+    for (let length = shortest; length <= limit && !truncated; length++) {
+      const result = enumeratePaths(
+        adjacency[direction],
+        distanceToTarget,
+        from,
+        to,
+        length,
+        maxPaths - paths.length,
+      );
+      paths.push(...result.paths);
+      truncated = result.truncated;
+    }
+
+    return { paths, direction, truncated };
+  }
+
+  return { paths: [], direction: null, truncated: false };
+};
+
+/**
+ * Node and edge ids covered by a set of paths, for highlighting
+ *
+ * @param result - Path search result
+ * @returns Node ids and edge ids (`${predicate}-${device}`) on any path
+ */
+export const getPathElementIds = (
+  result: PathSearchResult,
+): { nodeIds: Set<string>; edgeIds: Set<string> } => {
+  const nodeIds = new Set<string>();
+  const edgeIds = new Set<string>();
+
+  result.paths.forEach((path) =>
+    path.forEach((kNumber, i) => {
+      nodeIds.add(kNumber);
+      if (i === 0) return;
+
+      const previous = path[i - 1];
+      edgeIds.add(
+        result.direction === "predicates"
+          ? `${kNumber}-${previous}`
+          : `${previous}-${kNumber}`,
+      );
+    }),
+  );
+
+  return { nodeIds, edgeIds };
+};
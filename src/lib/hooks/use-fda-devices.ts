@@ -12,18 +12,62 @@
  * - Search parameter integration
  */
 
-import { useQuery, UseQueryResult } from "@tanstack/react-query";
+import { useMemo } from "react";
+import {
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+  type QueryClient,
+  type QueryKey,
+} from "@tanstack/react-query";
 import { dataProvider } from "@/lib/data/data-provider";
+import type {
+  DataProviderAggregation,
+  DataProviderResponse,
+  LineageOptions,
+  LineageResponse,
+} from "@/lib/data/data-provider";
 import { validateEnvironment } from "@/lib/config/environment";
+import { isRetryableError } from "@/lib/api/errors";
 import type { FDADevice, DeviceFilters } from "@/types/fda";
+import type { DeviceFacets, FacetFilterKey } from "@/lib/search/device-filters";
 
 // Query Keys for consistent cache management
 export const FDA_QUERY_KEYS = {
   devices: (filters?: DeviceFilters) => ["fda-devices", filters] as const,
   device: (kNumber: string) => ["fda-device", kNumber] as const,
   search: (query: string) => ["fda-search", query] as const,
+  lineage: (kNumber: string, options?: LineageOptions) =>
+    ["fda-lineage", kNumber, options] as const,
+  aggregation: (field: FacetFilterKey, filters?: DeviceFilters) =>
+    ["fda-aggregation", field, filters] as const,
 } as const;
 
+/**
+ * Whether a query key belongs to one of the FDA queries above
+ */
+export const isFDAQueryKey = (queryKey: QueryKey): boolean =>
+  String(queryKey[0]).startsWith("fda-");
+
+/**
+ * Seed single-device queries with devices that are already loaded, so
+ * looking them up afterwards doesn't go back to the API
+ *
+ * @param queryClient - Query client to prime
+ * @param devices - Devices fetched by another query
+ */
+export const primeDeviceQueries = (
+  queryClient: QueryClient,
+  devices: FDADevice[],
+): void => {
+  devices.forEach((device) => {
+    const queryKey = FDA_QUERY_KEYS.device(device.kNumber);
+    if (queryClient.getQueryData(queryKey) === undefined) {
+      queryClient.setQueryData(queryKey, device);
+    }
+  });
+};
+
 // Query Configuration Presets
 export const FDA_QUERY_CONFIG = {
   // Real-time data for critical operations
@@ -57,6 +101,11 @@ export interface UseFDADevicesResult {
   isError: boolean;
   error: Error | null;
   isFromAPI: boolean;
+  source: DataProviderResponse["source"] | null;
+  lastUpdated?: string;
+  validation?: DataProviderResponse["validation"];
+  /** API error the data provider fell back from (fallback or cache data) */
+  sourceError?: Error;
   totalCount: number;
   refetch: () => void;
   isFetching: boolean;
@@ -82,6 +131,7 @@ export const useFDADevices = (
     };
   },
 ): UseFDADevicesResult => {
+  const queryClient = useQueryClient();
   const config = options?.config || FDA_QUERY_CONFIG.STANDARD;
   const enabled = options?.enabled !== false;
 
@@ -97,9 +147,16 @@ export const useFDADevices = (
       // Use data provider which handles environment switching
       const response = await dataProvider.getDevices({
         search: filters?.searchTerm,
-        productClass: filters?.productClass?.[0], // Take first class for now
+        productClass: filters?.productClass,
+        productCode: filters?.productCode,
+        panelType: filters?.panelType,
+        manufacturer: filters?.manufacturer,
+        dateRange: filters?.dateRange,
+        clearanceYears: filters?.clearanceYears,
         limit: filters?.limit || 100,
+        skip: filters?.skip,
       });
+      primeDeviceQueries(queryClient, response.devices);
 
       if (envConfig.config.debugApi) {
         console.log(
@@ -123,8 +180,8 @@ export const useFDADevices = (
 
     // Smart retry logic
     retry: (failureCount, error) => {
-      // Don't retry rate limit errors
-      if (error && "status" in error && error.status === 429) {
+      // Don't retry rate limits, client errors or schema mismatches
+      if (!isRetryableError(error)) {
         return false;
       }
 
@@ -143,6 +200,10 @@ export const useFDADevices = (
     isError: query.isError,
     error: query.error,
     isFromAPI: query.data?.source === "api",
+    source: query.data?.source ?? null,
+    lastUpdated: query.data?.lastUpdated,
+    validation: query.data?.validation,
+    sourceError: query.data?.error,
     totalCount: query.data?.totalCount || 0,
     refetch: query.refetch,
     isFetching: query.isFetching,
@@ -199,7 +260,7 @@ export const useFDADevice = (
     enabled,
 
     retry: (failureCount, error) => {
-      if (error && "status" in error && error.status === 429) {
+      if (!isRetryableError(error)) {
         return false;
       }
       return failureCount < 2; // Less retries for single device
@@ -207,6 +268,214 @@ export const useFDADevice = (
   });
 };
 
+/**
+ * Device Lineage Hook
+ *
+ * Fetches the multi-generation predicate lineage of a device
+ *
+ * @param kNumber - Device K-number to start from
+ * @param lineageOptions - Generations to walk up and down
+ * @param options - Query configuration options
+ * @returns Lineage subgraph with loading states
+ */
+export const useDeviceLineage = (
+  kNumber: string,
+  lineageOptions?: LineageOptions,
+  options?: {
+    enabled?: boolean;
+    config?: {
+      staleTime: number;
+      gcTime: number;
+      refetchOnWindowFocus: boolean;
+    };
+  },
+): UseQueryResult<LineageResponse> => {
+  const queryClient = useQueryClient();
+  const config = options?.config || FDA_QUERY_CONFIG.STATIC;
+  const enabled = options?.enabled !== false && !!kNumber;
+
+  return useQuery({
+    queryKey: FDA_QUERY_KEYS.lineage(kNumber, lineageOptions),
+    queryFn: async () => {
+      const envConfig = validateEnvironment();
+
+      if (envConfig.config.debugApi) {
+        console.log("🔍 FDA Lineage Hook: Walking lineage of:", kNumber);
+      }
+
+      const lineage = await dataProvider.getLineage(kNumber, lineageOptions);
+      primeDeviceQueries(queryClient, lineage.devices);
+
+      if (envConfig.config.debugApi) {
+        console.log(
+          "✅ FDA Lineage Hook: Resolved",
+          lineage.devices.length,
+          "devices,",
+          lineage.unresolved.length,
+          "unresolved",
+        );
+      }
+
+      return lineage;
+    },
+
+    staleTime: config.staleTime,
+    gcTime: config.gcTime,
+    refetchOnWindowFocus: config.refetchOnWindowFocus,
+    enabled,
+
+    retry: (failureCount, error) => {
+      if (!isRetryableError(error)) {
+        return false;
+      }
+      return failureCount < 2;
+    },
+  });
+};
+
+/**
+ * Device Aggregation Hook
+ *
+ * Fetches term/count buckets for a field (e.g. clearances per year,
+ * per product code, per applicant) from the OpenFDA count endpoint,
+ * or computes them from mock data in mock mode
+ *
+ * @param field - Facet to group by
+ * @param filters - Optional search and filter parameters
+ * @param options - Query configuration options
+ * @returns Aggregation buckets with loading states
+ */
+export const useDeviceAggregation = (
+  field: FacetFilterKey,
+  filters?: DeviceFilters,
+  options?: {
+    enabled?: boolean;
+    config?: {
+      staleTime: number;
+      gcTime: number;
+      refetchOnWindowFocus: boolean;
+    };
+  },
+): UseQueryResult<DataProviderAggregation> => {
+  const config = options?.config || FDA_QUERY_CONFIG.STATIC;
+  const enabled = options?.enabled !== false;
+
+  return useQuery({
+    queryKey: FDA_QUERY_KEYS.aggregation(field, filters),
+    queryFn: async () => {
+      const envConfig = validateEnvironment();
+
+      if (envConfig.config.debugApi) {
+        console.log("🔍 FDA Aggregation Hook: Counting by:", field, filters);
+      }
+
+      const aggregation = await dataProvider.getDeviceCounts(field, {
+        search: filters?.searchTerm,
+        productClass: filters?.productClass,
+        productCode: filters?.productCode,
+        panelType: filters?.panelType,
+        manufacturer: filters?.manufacturer,
+        dateRange: filters?.dateRange,
+        clearanceYears: filters?.clearanceYears,
+      });
+
+      if (envConfig.config.debugApi) {
+        console.log(
+          "✅ FDA Aggregation Hook: Received",
+          aggregation.buckets.length,
+          "buckets from",
+          aggregation.source,
+        );
+      }
+
+      return aggregation;
+    },
+
+    staleTime: config.staleTime,
+    gcTime: config.gcTime,
+    refetchOnWindowFocus: config.refetchOnWindowFocus,
+    enabled,
+
+    retry: (failureCount, error) => {
+      if (!isRetryableError(error)) {
+        return false;
+      }
+      return failureCount < 2;
+    },
+  });
+};
+
+/**
+ * Response type for the facet counts hook
+ */
+export interface UseDeviceFacetCountsResult {
+  /** Dataset-wide buckets per facet; missing until that count has loaded */
+  counts: Partial<DeviceFacets>;
+  isLoading: boolean;
+  /** Source of the counts (API count endpoint, cache or mock) */
+  source: DataProviderAggregation["source"] | null;
+}
+
+/**
+ * Device Facet Counts Hook
+ *
+ * Runs useDeviceAggregation for every facet, so dashboards show totals for
+ * the whole matching dataset rather than for one page of loaded devices
+ *
+ * @param filters - Optional search and filter parameters
+ * @param options - Query configuration options
+ * @returns Buckets per facet with loading state
+ */
+export const useDeviceFacetCounts = (
+  filters?: DeviceFilters,
+  options?: { enabled?: boolean },
+): UseDeviceFacetCountsResult => {
+  const productClass = useDeviceAggregation("productClass", filters, options);
+  const productCode = useDeviceAggregation("productCode", filters, options);
+  const panelType = useDeviceAggregation("panelType", filters, options);
+  const manufacturer = useDeviceAggregation("manufacturer", filters, options);
+  const clearanceYears = useDeviceAggregation(
+    "clearanceYears",
+    filters,
+    options,
+  );
+
+  const results = [
+    productClass,
+    productCode,
+    panelType,
+    manufacturer,
+    clearanceYears,
+  ];
+
+  // Stable while no count changes, so callers can memoize on it
+  const counts = useMemo(() => {
+    const loaded: Partial<DeviceFacets> = {};
+    [
+      productClass.data,
+      productCode.data,
+      panelType.data,
+      manufacturer.data,
+      clearanceYears.data,
+    ].forEach((aggregation) => {
+      if (aggregation) loaded[aggregation.field] = aggregation.buckets;
+    });
+    return loaded;
+  }, [
+    productClass.data,
+    productCode.data,
+    panelType.data,
+    manufacturer.data,
+    clearanceYears.data,
+  ]);
+
+  return {
+    counts,
+    isLoading: results.some((result) => result.isLoading),
+    source: productClass.data?.source ?? null,
+  };
+};
+
 /**
  * Device Search Hook
  *
@@ -222,12 +491,14 @@ export const useDeviceSearch = (
     enabled?: boolean;
     limit?: number;
     debounceMs?: number;
+    filters?: DeviceFilters;
   },
 ): UseFDADevicesResult => {
   const limit = options?.limit || 50;
   const enabled = options?.enabled !== false && searchTerm.length >= 2;
 
   const filters: DeviceFilters = {
+    ...options?.filters,
     searchTerm: searchTerm.trim(),
     limit,
   };
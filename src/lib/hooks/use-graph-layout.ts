@@ -0,0 +1,151 @@
+/**
+ * Graph Layout Hook
+ *
+ * Computes node positions in a Web Worker so large graphs never block the
+ * main thread.
+ *
+ * Features:
+ * - Re-layout whenever nodes, edges or the layout config change
+ * - In-flight layouts are cancelled when inputs change mid-layout
+ * - Progress reporting for the canvas indicator
+ * - Synchronous fallback if the worker fails
+ * - Preset positions (saved graphs) skip the layout entirely
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { applyLayout } from "@/lib/graph/layout-registry";
+import {
+  LayoutCancelledError,
+  LayoutWorkerClient,
+} from "@/lib/graph/layout-worker-client";
+import type { LayoutPositions } from "@/lib/graph/layout-worker-protocol";
+import type {
+  GraphEdge,
+  GraphNode,
+  LayoutAlgorithm,
+  LayoutConfig,
+  LayoutDirection,
+} from "@/types/graph";
+
+export interface UseGraphLayoutResult {
+  /** Positioned nodes from the latest completed layout (null before the first) */
+  nodes: GraphNode[] | null;
+  /** Algorithm actually applied (after size fallbacks) */
+  algorithm: LayoutAlgorithm;
+  /** Direction the completed layout was computed for */
+  direction?: LayoutDirection;
+  /** Milliseconds the completed layout took to compute */
+  duration?: number;
+  isLayouting: boolean;
+  /** Fraction of the current layout done, 0 to 1 */
+  progress: number;
+}
+
+/**
+ * Apply worker positions to the nodes that were sent for layout
+ */
+const applyPositions = (
+  nodes: GraphNode[],
+  positions: LayoutPositions,
+): GraphNode[] =>
+  nodes.map((node) => ({
+    ...node,
+    position: positions[node.id] ?? node.position,
+  }));
+
+/**
+ * Lay out a graph off the main thread
+ *
+ * @param nodes - Unpositioned nodes (memoize to avoid needless re-layouts)
+ * @param edges - Predicate edges (memoized)
+ * @param config - Layout configuration
+ * @param presetPositions - Positions to use instead of running a layout
+ * @returns Latest positioned nodes with layout progress
+ */
+export function useGraphLayout(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  config: LayoutConfig,
+  presetPositions?: LayoutPositions | null,
+): UseGraphLayoutResult {
+  const clientRef = useRef<LayoutWorkerClient | null>(null);
+  const [state, setState] = useState<UseGraphLayoutResult>({
+    nodes: null,
+    algorithm: config.algorithm,
+    isLayouting: true,
+    progress: 0,
+  });
+
+  // One worker per hook instance, released on unmount
+  useEffect(() => {
+    const client = new LayoutWorkerClient();
+    clientRef.current = client;
+    return () => {
+      client.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  const { algorithm, direction, centerNodeId } = config;
+
+  useEffect(() => {
+    if (presetPositions) {
+      setState({
+        nodes: applyPositions(nodes, presetPositions),
+        algorithm,
+        direction,
+        isLayouting: false,
+        progress: 1,
+      });
+      return;
+    }
+
+    const client = clientRef.current;
+    if (!client) return;
+
+    const layoutConfig: LayoutConfig = { algorithm, direction, centerNodeId };
+    const controller = new AbortController();
+
+    setState((prev) => ({ ...prev, isLayouting: true, progress: 0 }));
+
+    client
+      .layout(nodes, edges, layoutConfig, {
+        signal: controller.signal,
+        onProgress: (progress) => setState((prev) => ({ ...prev, progress })),
+      })
+      .then((result) => {
+        setState({
+          nodes: applyPositions(nodes, result.positions),
+          algorithm: result.algorithm,
+          direction,
+          duration: result.duration,
+          isLayouting: false,
+          progress: 1,
+        });
+      })
+      .catch((error) => {
+        if (error instanceof LayoutCancelledError) {
+          return; // Superseded by a newer layout
+        }
+
+        console.error(
+          "Layout worker failed, laying out on main thread:",
+          error,
+        );
+        const startTime = Date.now();
+        const layout = applyLayout(nodes, edges, layoutConfig);
+        setState({
+          nodes: layout.nodes,
+          algorithm: layout.algorithm,
+          direction,
+          duration: Date.now() - startTime,
+          isLayouting: false,
+          progress: 1,
+        });
+      });
+
+    return () => controller.abort();
+  }, [nodes, edges, algorithm, direction, centerNodeId, presetPositions]);
+
+  return state;
+}
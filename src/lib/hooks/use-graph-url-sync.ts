@@ -0,0 +1,120 @@
+/**
+ * Graph URL Sync Hook
+ *
+ * Keeps the shareable graph state (search, selection, filters, layout
+ * algorithm and direction, viewport) mirrored in the page's query params.
+ *
+ * Features:
+ * - Restores state from the URL on load
+ * - Selection changes push a history entry, so back/forward steps through
+ *   selected devices
+ * - Search, filter, layout and viewport changes replace the current entry
+ *   (debounced) so typing and panning don't flood the history
+ */
+
+import { useEffect } from "react";
+import { useGraphStore } from "@/stores";
+import {
+  parseGraphUrlState,
+  serializeGraphUrlState,
+  type GraphUrlState,
+} from "@/lib/url/graph-url-state";
+
+// Delay before non-selection changes are written to the URL
+const URL_WRITE_DEBOUNCE_MS = 400;
+
+/**
+ * Pick the URL-backed slice of the graph store
+ */
+const selectUrlState = (
+  state: ReturnType<typeof useGraphStore.getState>,
+): GraphUrlState => ({
+  searchTerm: state.searchTerm,
+  selectedNodeId: state.selectedNodeId,
+  activeFilters: state.activeFilters,
+  layoutAlgorithm: state.layoutAlgorithm,
+  layoutDirection: state.layoutDirection,
+  viewport: state.viewport,
+});
+
+/**
+ * Build the page URL for a graph state
+ */
+const buildUrl = (state: GraphUrlState): string => {
+  const query = serializeGraphUrlState(state).toString();
+  return `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`;
+};
+
+/**
+ * Sync the graph store with the page URL
+ *
+ * Mount once per page (DashboardTemplate). Uses the History API directly,
+ * which Next.js keeps in step with its router.
+ */
+export function useGraphUrlSync(): void {
+  useEffect(() => {
+    let isRestoring = false;
+    let writeTimer: ReturnType<typeof setTimeout> | undefined;
+
+    // Apply the current URL to the store without writing it back
+    const restoreFromUrl = () => {
+      clearTimeout(writeTimer);
+      isRestoring = true;
+      useGraphStore
+        .getState()
+        .restoreUrlState(
+          parseGraphUrlState(new URLSearchParams(window.location.search)),
+        );
+      isRestoring = false;
+    };
+
+    const writeToUrl = (mode: "push" | "replace") => {
+      const url = buildUrl(selectUrlState(useGraphStore.getState()));
+      const currentUrl = `${window.location.pathname}${window.location.search}${window.location.hash}`;
+      if (url === currentUrl) {
+        return;
+      }
+
+      if (mode === "push") {
+        window.history.pushState(null, "", url);
+      } else {
+        window.history.replaceState(null, "", url);
+      }
+    };
+
+    restoreFromUrl();
+
+    const unsubscribe = useGraphStore.subscribe((state, prevState) => {
+      if (isRestoring) {
+        return;
+      }
+
+      const next = selectUrlState(state);
+      const prev = selectUrlState(prevState);
+      const changed = (Object.keys(next) as (keyof GraphUrlState)[]).some(
+        (key) => next[key] !== prev[key],
+      );
+      if (!changed) {
+        return;
+      }
+
+      clearTimeout(writeTimer);
+      if (next.selectedNodeId !== prev.selectedNodeId) {
+        writeToUrl("push");
+      } else {
+        writeTimer = setTimeout(
+          () => writeToUrl("replace"),
+          URL_WRITE_DEBOUNCE_MS,
+        );
+      }
+    });
+
+    window.addEventListener("popstate", restoreFromUrl);
+
+    return () => {
+      clearTimeout(writeTimer);
+      unsubscribe();
+      window.removeEventListener("popstate", restoreFromUrl);
+    };
+  }, []);
+}
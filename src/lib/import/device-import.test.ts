@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { DeviceImportError, parseDeviceImport } from "./device-import";
+
+describe("parseDeviceImport", () => {
+  it("reads CSV after a header block, matching columns loosely", () => {
+    const csv = [
+      "# Exported 2024-01-01",
+      "",
+      "K-Number,Device Name,Applicant,Decision Date,Class,Predicates,Panel,Notes",
+      'K201234,"Stent, coronary",Acme,2020-05-01,Class II,K181111; K171717,CV,ignored',
+      "K990001,'=Formula,Other Co,,unclassified,,,",
+    ].join("\r\n");
+
+    const result = parseDeviceImport(`\uFEFF${csv}`, "devices.csv");
+
+    expect(result.format).toBe("csv");
+    expect(result.errors).toEqual([]);
+    expect(result.totalRows).toBe(2);
+    expect(result.devices).toEqual([
+      {
+        kNumber: "K201234",
+        deviceName: "Stent, coronary",
+        manufacturer: "Acme",
+        clearanceDate: "2020-05-01",
+        productClass: "II",
+        productCode: "",
+        predicateDevices: ["K181111", "K171717"],
+        intendedUse: "",
+        panelType: "Cardiovascular",
+        regulationNumber: undefined,
+        provenance: "internal",
+      },
+      expect.objectContaining({
+        kNumber: "K990001",
+        deviceName: "=Formula",
+        clearanceDate: "",
+        productClass: "unknown",
+        predicateDevices: [],
+        panelType: undefined,
+      }),
+    ]);
+  });
+
+  it("keeps multi-line quoted fields and reports rows by starting line", () => {
+    const csv = [
+      "kNumber,deviceName,manufacturer,productClass,intendedUse",
+      'K1,Pump,Acme,II,"Line one',
+      'line ""two"""',
+      "K2,Pump,Acme,IV,",
+    ].join("\n");
+
+    const result = parseDeviceImport(csv, "devices.csv");
+
+    expect(result.devices[0].intendedUse).toBe('Line one\nline "two"');
+    expect(result.errors).toEqual([
+      {
+        row: 4,
+        kNumber: "K2",
+        message:
+          "productClass: Product class must be I, II, III or unclassified",
+      },
+    ]);
+  });
+
+  it("reads JSON arrays and devices wrappers, reporting invalid records", () => {
+    const records = [
+      {
+        kNumber: "K1",
+        deviceName: "Pump",
+        manufacturer: "Acme",
+        productClass: 2,
+        predicateDevices: ["K0", "K0"],
+        clearanceDate: "2020-01-01",
+      },
+      { kNumber: "K2", deviceName: " ", productClass: "I" },
+      {
+        kNumber: "K1",
+        deviceName: "Pump",
+        manufacturer: "Acme",
+        productClass: "II",
+      },
+      {
+        kNumber: "K3",
+        deviceName: "Pump",
+        manufacturer: "Acme",
+        productClass: "II",
+        clearanceDate: "01/02/2020",
+      },
+    ];
+
+    const fromArray = parseDeviceImport(JSON.stringify(records), "list.JSON");
+    const fromWrapper = parseDeviceImport(
+      JSON.stringify({ devices: records }),
+      "list.JSON",
+    );
+
+    expect(fromWrapper).toEqual(fromArray);
+    expect(fromArray.format).toBe("json");
+    expect(fromArray.devices).toHaveLength(1);
+    expect(fromArray.devices[0]).toMatchObject({
+      productClass: "II",
+      predicateDevices: ["K0"],
+    });
+    expect(fromArray.errors).toEqual([
+      {
+        row: 2,
+        kNumber: "K2",
+        message:
+          "deviceName: Device name is required; manufacturer: Manufacturer is required",
+      },
+      {
+        row: 3,
+        kNumber: "K1",
+        message: "Duplicate K-number (first seen on row 1)",
+      },
+      {
+        row: 4,
+        kNumber: "K3",
+        message: "clearanceDate: Clearance date must be YYYY-MM-DD",
+      },
+    ]);
+  });
+
+  it.each([
+    ["devices.csv", "name,manufacturer\nPump,Acme", "No header row"],
+    ["devices.csv", 'kNumber,deviceName\nK1,"Pump', "Unterminated quoted"],
+    ["devices.csv", "kNumber,deviceName\n", "no device records"],
+    ["devices.json", "{", "not valid JSON"],
+    ["devices.json", '{"items": []}', "Expected an array"],
+    ["devices.json", "[]", "no device records"],
+  ])("rejects unreadable %s files", (fileName, text, message) => {
+    expect(() => parseDeviceImport(text, fileName)).toThrow(DeviceImportError);
+    expect(() => parseDeviceImport(text, fileName)).toThrow(message);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Device List Import
+ *
+ * Reads internal device lists from CSV or JSON and validates every record
+ * against internalDeviceSchema. Invalid rows are reported individually and
+ * the valid ones are still imported.
+ *
+ * CSV: first row naming a K-number column is the header (so files written
+ * by the CSV export, header block included, import as-is). Column names are
+ * matched loosely ("K-Number", "k_number", "kNumber"); unknown columns are
+ * ignored.
+ * JSON: an array of device objects, or an object with a `devices` array.
+ */
+
+import { z } from "zod";
+import {
+  formatZodIssues,
+  internalDeviceSchema,
+} from "@/lib/validation/device-schema";
+import type { FDADevice } from "@/types/fda";
+
+export type DeviceImportFormat = "csv" | "json";
+
+/**
+ * A rejected record; row is the CSV line number or 1-based JSON index
+ */
+export interface DeviceImportRowError {
+  row: number;
+  kNumber?: string;
+  message: string;
+}
+
+export interface DeviceImportResult {
+  fileName: string;
+  format: DeviceImportFormat;
+  /** Valid devices, marked internal */
+  devices: FDADevice[];
+  errors: DeviceImportRowError[];
+  /** Records read, valid or not */
+  totalRows: number;
+}
+
+/**
+ * Raised when a file can't be read as a device list at all
+ */
+export class DeviceImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeviceImportError";
+  }
+}
+
+// Normalized column name → FDADevice field
+const COLUMN_ALIASES: Record<string, keyof FDADevice> = {
+  knumber: "kNumber",
+  devicename: "deviceName",
+  name: "deviceName",
+  manufacturer: "manufacturer",
+  applicant: "manufacturer",
+  clearancedate: "clearanceDate",
+  decisiondate: "clearanceDate",
+  productclass: "productClass",
+  class: "productClass",
+  deviceclass: "productClass",
+  productcode: "productCode",
+  predicatedevices: "predicateDevices",
+  predicates: "predicateDevices",
+  intendeduse: "intendedUse",
+  paneltype: "panelType",
+  panel: "panelType",
+  regulationnumber: "regulationNumber",
+};
+
+const normalizeColumn = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting, CRLF or LF)
+ *
+ * @returns Rows with the 1-based line each starts on
+ */
+const parseCsv = (text: string): { line: number; fields: string[] }[] => {
+  const rows: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.some((value) => value.trim() !== "")) {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || fields.length > 0) endRow();
+
+  if (inQuotes) {
+    throw new DeviceImportError(
+      `Unterminated quoted field starting on line ${rowLine}`,
+    );
+  }
+  return rows;
+};
+
+/**
+ * Turn CSV rows into records keyed by FDADevice field
+ */
+const readCsvRecords = (
+  text: string,
+): { row: number; record: Record<string, string> }[] => {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex((row) =>
+    row.fields.some(
+      (name) => COLUMN_ALIASES[normalizeColumn(name)] === "kNumber",
+    ),
+  );
+  if (headerIndex === -1) {
+    throw new DeviceImportError(
+      "No header row with a K-number column was found",
+    );
+  }
+
+  const columns = rows[headerIndex].fields.map(
+    (name) => COLUMN_ALIASES[normalizeColumn(name)],
+  );
+
+  return rows.slice(headerIndex + 1).map(({ line, fields }) => {
+    const record: Record<string, string> = {};
+    columns.forEach((field, index) => {
+      // Formula-escaped cells from the CSV export start with an apostrophe
+      if (field)
+        record[field] = (fields[index] ?? "").replace(/^'(?=[=+\-@])/, "");
+    });
+    return { row: line, record };
+  });
+};
+
+/**
+ * Read JSON records from an array or a `{ devices: [...] }` wrapper
+ */
+const readJsonRecords = (text: string): { row: number; record: unknown }[] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new DeviceImportError("File is not valid JSON");
+  }
+
+  const list = z
+    .union([z.array(z.unknown()), z.object({ devices: z.array(z.unknown()) })])
+    .safeParse(json);
+  if (!list.success) {
+    throw new DeviceImportError(
+      "Expected an array of devices or an object with a devices array",
+    );
+  }
+
+  const records = Array.isArray(list.data) ? list.data : list.data.devices;
+  return records.map((record, index) => ({ row: index + 1, record }));
+};
+
+/**
+ * Parse and validate an internal device list
+ *
+ * @param text - File content
+ * @param fileName - File name; ".json" selects JSON, anything else CSV
+ * @returns Valid devices and per-row errors
+ * @throws DeviceImportError when the file has no readable records
+ */
+export const parseDeviceImport = (
+  text: string,
+  fileName: string,
+): DeviceImportResult => {
+  const content = text.replace(/^\uFEFF/, "");
+  const format: DeviceImportFormat = /\.json$/i.test(fileName) ? "json" : "csv";
+  const records =
+    format === "json" ? readJsonRecords(content) : readCsvRecords(content);
+  if (records.length === 0) {
+    throw new DeviceImportError("File contains no device records");
+  }
+
+  const devices: FDADevice[] = [];
+  const errors: DeviceImportRowError[] = [];
+  const firstRowByKNumber = new Map<string, number>();
+
+  records.forEach(({ row, record }) => {
+    const result = internalDeviceSchema.safeParse(record);
+    if (!result.success) {
+      const kNumber =
+        typeof record === "object" && record !== null && "kNumber" in record
+          ? String(record.kNumber).trim() || undefined
+          : undefined;
+      errors.push({
+        row,
+        kNumber,
+        message: formatZodIssues(result.error).replace(/\n/g, "; "),
+      });
+      return;
+    }
+
+    const { kNumber } = result.data;
+    const firstRow = firstRowByKNumber.get(kNumber);
+    if (firstRow !== undefined) {
+      errors.push({
+        row,
+        kNumber,
+        message: `Duplicate K-number (first seen on row ${firstRow})`,
+      });
+      return;
+    }
+
+    firstRowByKNumber.set(kNumber, row);
+    devices.push(result.data);
+  });
+
+  return { fileName, format, devices, errors, totalRows: records.length };
+};
@@ -7,6 +7,10 @@
  */
 
 import type { FDADevice } from "@/types/fda";
+import {
+  analyzeDeviceGraph,
+  type GraphAnalysis,
+} from "@/lib/graph/graph-analysis";
 
 /**
  * Mock FDA Device Dataset
@@ -96,7 +100,7 @@ export const mockDevices: FDADevice[] = [
     productCode: "GAG",
     predicateDevices: [],
     intendedUse: "Control of bleeding during surgical procedures",
-    panelType: "General Surgery",
+    panelType: "General, Plastic Surgery",
     regulationNumber: "878.4400",
   },
 
@@ -180,7 +184,7 @@ export const mockDevices: FDADevice[] = [
     productCode: "GAG",
     predicateDevices: ["K863445"],
     intendedUse: "Advanced hemostatic control with bipolar technology",
-    panelType: "General Surgery",
+    panelType: "General, Plastic Surgery",
     regulationNumber: "878.4400",
   },
 
@@ -337,7 +341,7 @@ export const mockDevices: FDADevice[] = [
     productCode: "ONA",
     predicateDevices: [],
     intendedUse: "Non-invasive skin lesion analysis and documentation",
-    panelType: "Dermatology",
+    panelType: "General, Plastic Surgery",
     regulationNumber: "892.2050",
   },
 
@@ -390,7 +394,7 @@ export const mockDevices: FDADevice[] = [
     predicateDevices: ["K183445"],
     intendedUse:
       "AI-powered skin lesion analysis with diagnostic recommendations",
-    panelType: "Dermatology",
+    panelType: "General, Plastic Surgery",
     regulationNumber: "892.2050",
   },
 
@@ -431,7 +435,7 @@ export const mockDevices: FDADevice[] = [
     predicateDevices: [],
     intendedUse:
       "Robotic-assisted laparoscopic surgery for minimally invasive procedures",
-    panelType: "General Surgery",
+    panelType: "General, Plastic Surgery",
     regulationNumber: "878.4800",
   },
 
@@ -444,7 +448,7 @@ export const mockDevices: FDADevice[] = [
     productCode: "IQP",
     predicateDevices: ["K231189", "K934456"],
     intendedUse: "AI-enhanced robotic surgery with automated guidance systems",
-    panelType: "General Surgery",
+    panelType: "General, Plastic Surgery",
     regulationNumber: "878.4800",
   },
 ];
@@ -472,20 +476,27 @@ export const getChildDevices = (kNumber: string) => {
   );
 };
 
+// Structure of the mock dataset, analysed on first use
+let mockGraphAnalysis: GraphAnalysis | null = null;
+
 /**
  * Calculate hierarchy depth for a device
+ * Memoized and cycle-safe; devices outside the dataset are measured against it
  */
 export const getDeviceDepth = (device: FDADevice): number => {
-  if (device.predicateDevices.length === 0) return 0;
+  mockGraphAnalysis ??= analyzeDeviceGraph(mockDevices);
+  const { devices: stats } = mockGraphAnalysis;
 
-  const predicateDepths = device.predicateDevices.map((predicateKNumber) => {
-    const predicateDevice = mockDevices.find(
-      (d) => d.kNumber === predicateKNumber,
-    );
-    return predicateDevice ? getDeviceDepth(predicateDevice) : 0;
-  });
+  if (stats[device.kNumber]) return stats[device.kNumber].depth;
+  if (device.predicateDevices.length === 0) return 0;
 
-  return Math.max(...predicateDepths) + 1;
+  return (
+    Math.max(
+      ...device.predicateDevices.map(
+        (predicateKNumber) => stats[predicateKNumber]?.depth ?? 0,
+      ),
+    ) + 1
+  );
 };
 
 /**
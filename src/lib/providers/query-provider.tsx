@@ -14,6 +14,7 @@ import { ReactNode, useState } from "react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { ReactQueryDevtools } from "@tanstack/react-query-devtools";
 import { getEnvironmentConfig } from "@/lib/config/environment";
+import { isRetryableError } from "@/lib/api/errors";
 
 interface QueryProviderProps {
   children: ReactNode;
@@ -39,24 +40,11 @@ const createQueryClient = () => {
 
         // Network & Retry Strategy
         retry: (failureCount, error) => {
-          // Don't retry rate limit errors
-          if (
-            error &&
-            typeof error === "object" &&
-            "status" in error &&
-            error.status === 429
-          ) {
+          // Don't retry rate limits, client errors (4xx) or schema mismatches
+          if (!isRetryableError(error)) {
             return false;
           }
 
-          // Don't retry client errors (4xx)
-          if (error && typeof error === "object" && "status" in error) {
-            const status = error.status as number;
-            if (status >= 400 && status < 500) {
-              return false;
-            }
-          }
-
           // Retry up to 3 times for server errors and network issues
           return failureCount < 3;
         },
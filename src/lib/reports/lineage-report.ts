@@ -0,0 +1,452 @@
+/**
+ * Predicate Lineage Report
+ *
+ * Builds the predicate rationale documentation for a device from its
+ * lineage (DataProvider.getLineage): device table, predicate chain,
+ * intended-use comparison against each direct predicate and a graph
+ * snapshot. Rendered as Markdown or as a printable HTML document (browsers
+ * save it as PDF from the print dialog).
+ */
+
+import {
+  DATA_SOURCE_LABELS,
+  type LineageResponse,
+} from "@/lib/data/data-provider";
+import { escapeXml, renderGraphSnapshotSvg } from "@/lib/graph/graph-snapshot";
+import { formatProductClass } from "@/lib/validation/product-class";
+import type { FDADevice } from "@/types/fda";
+
+/**
+ * Device row in the report, ordered by generation
+ */
+export interface LineageReportDevice {
+  device: FDADevice;
+  /** Predicate generations above the subject device (0 = subject) */
+  generation: number;
+}
+
+/**
+ * Node of the predicate chain tree rooted at the subject device
+ */
+export interface PredicateChainNode {
+  kNumber: string;
+  device: FDADevice | null;
+  /** Already expanded earlier in the tree (shared ancestor) */
+  repeated: boolean;
+  predicates: PredicateChainNode[];
+}
+
+/**
+ * Subject device compared with one of its direct predicates
+ */
+export interface IntendedUseComparison {
+  predicate: FDADevice;
+  sameProductCode: boolean;
+  sameClass: boolean;
+  sameRegulationNumber: boolean;
+  /** Word overlap between intended-use statements, 0 to 1 */
+  similarity: number;
+  /** Significant terms both statements share */
+  sharedTerms: string[];
+}
+
+export interface LineageReport {
+  subject: FDADevice;
+  generatedAt: Date;
+  devices: LineageReportDevice[];
+  chain: PredicateChainNode;
+  comparisons: IntendedUseComparison[];
+  /** Predicates cited but not found in any data source */
+  unresolved: string[];
+  source: LineageResponse["source"];
+  /** SVG snapshot of the lineage subgraph */
+  snapshotSvg: string;
+}
+
+// Words ignored when comparing intended-use statements
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be by for from in into is it its of on or that the " +
+    "this to with which who used use intended indicated device devices " +
+    "patient patients"
+  ).split(" "),
+);
+
+/**
+ * Significant lowercase terms of an intended-use statement
+ */
+const getTerms = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9-]+/)
+      .filter((term) => term.length > 2 && !STOP_WORDS.has(term)),
+  );
+
+/**
+ * Compare the subject's intended use and classification with a predicate
+ */
+const compareWithPredicate = (
+  subject: FDADevice,
+  predicate: FDADevice,
+): IntendedUseComparison => {
+  const subjectTerms = getTerms(subject.intendedUse);
+  const predicateTerms = getTerms(predicate.intendedUse);
+  const sharedTerms = [...subjectTerms].filter((t) => predicateTerms.has(t));
+  const union = new Set([...subjectTerms, ...predicateTerms]).size;
+
+  return {
+    predicate,
+    sameProductCode: subject.productCode === predicate.productCode,
+    sameClass: subject.productClass === predicate.productClass,
+    sameRegulationNumber:
+      !!subject.regulationNumber &&
+      subject.regulationNumber === predicate.regulationNumber,
+    similarity: union > 0 ? sharedTerms.length / union : 0,
+    sharedTerms,
+  };
+};
+
+/**
+ * Expand the predicate tree; shared ancestors are expanded once
+ */
+const buildChain = (
+  kNumber: string,
+  byKNumber: Map<string, FDADevice>,
+  expanded: Set<string>,
+): PredicateChainNode => {
+  const device = byKNumber.get(kNumber) || null;
+  const repeated = expanded.has(kNumber);
+  expanded.add(kNumber);
+
+  return {
+    kNumber,
+    device,
+    repeated,
+    predicates:
+      device && !repeated
+        ? device.predicateDevices
+            .filter((k) => byKNumber.has(k))
+            .map((k) => buildChain(k, byKNumber, expanded))
+        : [],
+  };
+};
+
+/**
+ * Build a lineage report from a lineage walk
+ *
+ * Only ancestors are reported; dependents in the lineage are ignored.
+ *
+ * @param lineage - Lineage of the subject device (root must be resolved)
+ * @returns Report model, or null when the subject device wasn't found
+ */
+export const buildLineageReport = (
+  lineage: LineageResponse,
+): LineageReport | null => {
+  const subject = lineage.root;
+  if (!subject) {
+    return null;
+  }
+
+  const ancestors = lineage.devices.filter(
+    (device) => (lineage.depths[device.kNumber] ?? -1) >= 0,
+  );
+  const byKNumber = new Map(ancestors.map((d) => [d.kNumber, d]));
+
+  const devices = ancestors
+    .map((device) => ({
+      device,
+      generation: lineage.depths[device.kNumber],
+    }))
+    .sort(
+      (a, b) =>
+        a.generation - b.generation ||
+        a.device.clearanceDate.localeCompare(b.device.clearanceDate),
+    );
+
+  const comparisons = subject.predicateDevices
+    .map((k) => byKNumber.get(k))
+    .filter((d): d is FDADevice => !!d)
+    .map((predicate) => compareWithPredicate(subject, predicate));
+
+  return {
+    subject,
+    generatedAt: new Date(),
+    devices,
+    chain: buildChain(subject.kNumber, byKNumber, new Set()),
+    comparisons,
+    unresolved: lineage.unresolved,
+    source: lineage.source,
+    snapshotSvg: renderGraphSnapshotSvg(ancestors, {
+      highlightId: subject.kNumber,
+    }),
+  };
+};
+
+// ================================
+// Shared formatting
+// ================================
+
+const formatDate = (isoDate: string) => {
+  const date = new Date(isoDate);
+  return isNaN(date.getTime())
+    ? isoDate || "—"
+    : date.toISOString().slice(0, 10);
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const yesNo = (value: boolean) => (value ? "Yes" : "No");
+
+const describeDevice = (device: FDADevice) =>
+  `${device.kNumber} — ${device.deviceName} (${device.manufacturer}, cleared ${formatDate(device.clearanceDate)})`;
+
+/**
+ * Flatten the chain tree into [depth, label] lines
+ */
+const flattenChain = (
+  node: PredicateChainNode,
+  depth = 0,
+): { depth: number; label: string }[] => [
+  {
+    depth,
+    label: node.device
+      ? `${describeDevice(node.device)}${node.repeated ? " — see above" : ""}`
+      : node.kNumber,
+  },
+  ...node.predicates.flatMap((child) => flattenChain(child, depth + 1)),
+];
+
+// ================================
+// Markdown
+// ================================
+
+/**
+ * Escape table cell content (pipes and line breaks)
+ */
+const mdCell = (value: string | undefined) =>
+  (value || "—").replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+
+/**
+ * Render a lineage report as Markdown
+ * The graph snapshot is embedded as an SVG data URI
+ */
+export const renderLineageMarkdown = (report: LineageReport): string => {
+  const { subject } = report;
+  const lines: string[] = [
+    `# Predicate Lineage Report: ${subject.kNumber}`,
+    "",
+    `**${subject.deviceName}** — ${subject.manufacturer}`,
+    "",
+    `- Generated: ${report.generatedAt.toISOString()}`,
+    `- Data source: ${DATA_SOURCE_LABELS[report.source]}`,
+    `- Devices in lineage: ${report.devices.length}`,
+    "",
+    "## Devices",
+    "",
+    "| Generation | K-Number | Device | Manufacturer | Cleared | Class | Product Code | Regulation |",
+    "| --- | --- | --- | --- | --- | --- | --- | --- |",
+    ...report.devices.map(({ device, generation }) =>
+      [
+        "",
+        generation === 0 ? "Subject" : generation,
+        device.kNumber,
+        mdCell(device.deviceName),
+        mdCell(device.manufacturer),
+        formatDate(device.clearanceDate),
+        device.productClass,
+        mdCell(device.productCode),
+        mdCell(device.regulationNumber),
+        "",
+      ]
+        .join(" | ")
+        .trim(),
+    ),
+    "",
+    "## Predicate Chain",
+    "",
+    ...flattenChain(report.chain).map(
+      ({ depth, label }) => `${"  ".repeat(depth)}- ${label}`,
+    ),
+    "",
+    "## Intended Use Comparison",
+    "",
+    `**Subject (${subject.kNumber}):** ${subject.intendedUse || "—"}`,
+    "",
+  ];
+
+  if (report.comparisons.length === 0) {
+    lines.push("_No direct predicates resolved._", "");
+  }
+
+  report.comparisons.forEach((comparison) => {
+    const { predicate } = comparison;
+    lines.push(
+      `### ${predicate.kNumber} — ${predicate.deviceName}`,
+      "",
+      `${predicate.intendedUse || "—"}`,
+      "",
+      `- Same product code: ${yesNo(comparison.sameProductCode)} (${predicate.productCode})`,
+      `- Same class: ${yesNo(comparison.sameClass)} (${formatProductClass(predicate.productClass)})`,
+      `- Same regulation number: ${yesNo(comparison.sameRegulationNumber)} (${predicate.regulationNumber || "—"})`,
+      `- Intended-use overlap: ${formatPercent(comparison.similarity)}${
+        comparison.sharedTerms.length > 0
+          ? ` — shared terms: ${comparison.sharedTerms.join(", ")}`
+          : ""
+      }`,
+      "",
+    );
+  });
+
+  if (report.unresolved.length > 0) {
+    lines.push(
+      "## Unresolved Predicates",
+      "",
+      ...report.unresolved.map((k) => `- ${k}`),
+      "",
+    );
+  }
+
+  // Base64 keeps the data URI free of characters Markdown would parse
+  const svgBytes = new TextEncoder().encode(report.snapshotSvg);
+  const svgBase64 = btoa(
+    Array.from(svgBytes, (byte) => String.fromCharCode(byte)).join(""),
+  );
+  lines.push(
+    "## Lineage Graph",
+    "",
+    `![Predicate lineage of ${subject.kNumber}](data:image/svg+xml;base64,${svgBase64})`,
+    "",
+  );
+
+  return lines.join("\n");
+};
+
+// ================================
+// Printable HTML
+// ================================
+
+const REPORT_STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #0f172a; margin: 32px; font-size: 12px; }
+  h1 { font-size: 20px; margin-bottom: 4px; }
+  h2 { font-size: 15px; margin-top: 28px; border-bottom: 1px solid #cbd5e1; padding-bottom: 4px; }
+  h3 { font-size: 13px; margin-bottom: 4px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #cbd5e1; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; }
+  .meta { color: #475569; }
+  .mono { font-family: ui-monospace, monospace; }
+  .chain ul { margin: 2px 0; padding-left: 18px; }
+  .repeat { color: #64748b; font-style: italic; }
+  .snapshot svg { max-width: 100%; height: auto; }
+  .comparison { break-inside: avoid; margin-bottom: 12px; }
+  @media print {
+    body { margin: 0; }
+    h2 { break-after: avoid; }
+    tr, .snapshot { break-inside: avoid; }
+  }
+`;
+
+/**
+ * Render the chain tree as nested lists
+ */
+const renderChainHtml = (node: PredicateChainNode): string => {
+  const label = node.device
+    ? escapeXml(describeDevice(node.device))
+    : escapeXml(node.kNumber);
+  const children =
+    node.predicates.length > 0
+      ? `<ul>${node.predicates.map(renderChainHtml).join("")}</ul>`
+      : "";
+
+  return `<li>${label}${
+    node.repeated ? ' <span class="repeat">— see above</span>' : ""
+  }${children}</li>`;
+};
+
+/**
+ * Render a lineage report as a standalone, print-ready HTML document
+ */
+export const renderLineageHtml = (report: LineageReport): string => {
+  const { subject } = report;
+  const e = (value: string | undefined) => escapeXml(value || "—");
+
+  const deviceRows = report.devices
+    .map(
+      ({ device, generation }) => `<tr>
+        <td>${generation === 0 ? "Subject" : generation}</td>
+        <td class="mono">${e(device.kNumber)}</td>
+        <td>${e(device.deviceName)}</td>
+        <td>${e(device.manufacturer)}</td>
+        <td>${formatDate(device.clearanceDate)}</td>
+        <td>${e(device.productClass)}</td>
+        <td class="mono">${e(device.productCode)}</td>
+        <td class="mono">${e(device.regulationNumber)}</td>
+      </tr>`,
+    )
+    .join("");
+
+  const comparisons =
+    report.comparisons.length > 0
+      ? report.comparisons
+          .map(
+            (c) => `<div class="comparison">
+        <h3>${e(c.predicate.kNumber)} — ${e(c.predicate.deviceName)}</h3>
+        <table>
+          <tr><th>Subject intended use</th><th>Predicate intended use</th></tr>
+          <tr><td>${e(subject.intendedUse)}</td><td>${e(c.predicate.intendedUse)}</td></tr>
+        </table>
+        <p>
+          Same product code: ${yesNo(c.sameProductCode)} ·
+          Same class: ${yesNo(c.sameClass)} ·
+          Same regulation number: ${yesNo(c.sameRegulationNumber)} ·
+          Intended-use overlap: ${formatPercent(c.similarity)}
+          ${c.sharedTerms.length > 0 ? `(${e(c.sharedTerms.join(", "))})` : ""}
+        </p>
+      </div>`,
+          )
+          .join("")
+      : "<p><em>No direct predicates resolved.</em></p>";
+
+  const unresolved =
+    report.unresolved.length > 0
+      ? `<h2>Unresolved Predicates</h2><p class="mono">${e(report.unresolved.join(", "))}</p>`
+      : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Predicate Lineage Report — ${e(subject.kNumber)}</title>
+  <style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <h1>Predicate Lineage Report: ${e(subject.kNumber)}</h1>
+  <p><strong>${e(subject.deviceName)}</strong> — ${e(subject.manufacturer)}</p>
+  <p class="meta">
+    Generated ${e(report.generatedAt.toISOString())} ·
+    Data source: ${e(DATA_SOURCE_LABELS[report.source])} ·
+    ${report.devices.length} devices in lineage
+  </p>
+
+  <h2>Devices</h2>
+  <table>
+    <thead><tr>
+      <th>Generation</th><th>K-Number</th><th>Device</th><th>Manufacturer</th>
+      <th>Cleared</th><th>Class</th><th>Product Code</th><th>Regulation</th>
+    </tr></thead>
+    <tbody>${deviceRows}</tbody>
+  </table>
+
+  <h2>Predicate Chain</h2>
+  <div class="chain"><ul>${renderChainHtml(report.chain)}</ul></div>
+
+  <h2>Intended Use Comparison</h2>
+  ${comparisons}
+  ${unresolved}
+
+  <h2>Lineage Graph</h2>
+  <div class="snapshot">${report.snapshotSvg}</div>
+</body>
+</html>`;
+};
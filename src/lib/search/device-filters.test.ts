@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { createDevice } from "@/test/fixtures";
+import {
+  applyDeviceFilters,
+  countDevicesBy,
+  sortFacetBuckets,
+} from "./device-filters";
+
+describe("applyDeviceFilters", () => {
+  const devices = [
+    createDevice("K1", { panelType: "Cardiovascular", productClass: "I" }),
+    createDevice("K2", { panelType: "Radiology", clearanceDate: "2018-06-01" }),
+    createDevice("K3", {
+      panelType: "Cardiovascular",
+      manufacturer: "Other Co",
+    }),
+  ];
+
+  it("matches panel filters by code or name", () => {
+    const byName = applyDeviceFilters(devices, {
+      panelType: ["Cardiovascular"],
+    });
+    const byCode = applyDeviceFilters(devices, { panelType: ["CV"] });
+
+    expect(byName.map((d) => d.kNumber)).toEqual(["K1", "K3"]);
+    expect(byCode).toEqual(byName);
+  });
+
+  it("ANDs facets and ORs values within a facet", () => {
+    const result = applyDeviceFilters(devices, {
+      productClass: ["I", "II"],
+      manufacturer: ["acme"],
+      clearanceYears: [2020],
+    });
+
+    expect(result.map((d) => d.kNumber)).toEqual(["K1"]);
+  });
+
+  it("applies the search term, then skip and limit", () => {
+    const result = applyDeviceFilters(devices, {
+      searchTerm: "panel:CV",
+      skip: 1,
+      limit: 1,
+    });
+
+    expect(result.map((d) => d.kNumber)).toEqual(["K3"]);
+  });
+});
+
+describe("sortFacetBuckets", () => {
+  it("orders classes I, II, III, then unknown", () => {
+    const buckets = ["unknown", "III", "I", "II"].map((value, index) => ({
+      value,
+      count: 10 - index,
+    }));
+
+    expect(
+      sortFacetBuckets(buckets, "productClass").map((b) => b.value),
+    ).toEqual(["I", "II", "III", "unknown"]);
+  });
+
+  it("orders years newest first and leaves other facets by count", () => {
+    const years = countDevicesBy(
+      [
+        createDevice("K1", { clearanceDate: "2018-01-01" }),
+        createDevice("K2", { clearanceDate: "2021-01-01" }),
+        createDevice("K3", { clearanceDate: "2018-05-05" }),
+      ],
+      "clearanceYears",
+    );
+    expect(years).toEqual([
+      { value: "2021", count: 1 },
+      { value: "2018", count: 2 },
+    ]);
+
+    const codes = [
+      { value: "DQY", count: 1 },
+      { value: "NIQ", count: 5 },
+    ];
+    expect(sortFacetBuckets(codes, "productCode")).toBe(codes);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Device Filters & Facets
+ *
+ * In-memory implementation of DeviceFilters shared by the mock, cache and
+ * API fallback paths, plus facet counting for the filter sidebar
+ */
+
+import type { FDADevice, DeviceFilters, ProductClass } from "@/types/fda";
+import { PRODUCT_CLASSES } from "@/lib/validation/product-class";
+import { matchesReviewPanel } from "@/lib/validation/review-panel";
+import { parseQuery, filterDevicesByQuery } from "./query-language";
+
+/**
+ * DeviceFilters keys that hold multi-select facet values
+ */
+export type FacetFilterKey =
+  | "productClass"
+  | "productCode"
+  | "panelType"
+  | "manufacturer"
+  | "clearanceYears";
+
+/**
+ * Single facet value with the number of devices carrying it
+ */
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+/**
+ * Facet buckets per filterable field, sorted by count
+ */
+export type DeviceFacets = Record<FacetFilterKey, FacetBucket[]>;
+
+/**
+ * Year a device was cleared, or null for missing/invalid dates
+ */
+export const getClearanceYear = (device: FDADevice): number | null => {
+  const year = parseInt(device.clearanceDate.slice(0, 4));
+  return isNaN(year) ? null : year;
+};
+
+/**
+ * Check a device against every facet filter (search term excluded)
+ *
+ * @param device - Device to test
+ * @param filters - Active filters
+ * @returns Whether the device passes all filters
+ */
+export const matchesDeviceFilters = (
+  device: FDADevice,
+  filters: DeviceFilters,
+): boolean => {
+  const equalsAny = (value: string | undefined, options?: string[]) =>
+    !options?.length ||
+    options.some((option) => option.toLowerCase() === value?.toLowerCase());
+
+  if (
+    filters.productClass?.length &&
+    !filters.productClass.includes(device.productClass)
+  ) {
+    return false;
+  }
+
+  if (!equalsAny(device.productCode, filters.productCode)) {
+    return false;
+  }
+
+  if (
+    filters.panelType?.length &&
+    !filters.panelType.some((panel) =>
+      matchesReviewPanel(device.panelType, panel),
+    )
+  ) {
+    return false;
+  }
+
+  if (
+    filters.manufacturer?.length &&
+    !filters.manufacturer.some((mfg) =>
+      device.manufacturer.toLowerCase().includes(mfg.toLowerCase()),
+    )
+  ) {
+    return false;
+  }
+
+  if (filters.dateRange) {
+    const date = device.clearanceDate;
+    if (date < filters.dateRange.from || date > filters.dateRange.to) {
+      return false;
+    }
+  }
+
+  if (filters.clearanceYears?.length) {
+    const year = getClearanceYear(device);
+    if (year === null || !filters.clearanceYears.includes(year)) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Apply search term, facet filters and pagination to a device list
+ *
+ * @param devices - Devices to filter
+ * @param filters - Search term, facets, skip and limit
+ * @returns Filtered devices
+ */
+export const applyDeviceFilters = (
+  devices: FDADevice[],
+  filters: DeviceFilters,
+): FDADevice[] => {
+  let filteredDevices = filters.searchTerm
+    ? filterDevicesByQuery(devices, parseQuery(filters.searchTerm))
+    : [...devices];
+
+  filteredDevices = filteredDevices.filter((device) =>
+    matchesDeviceFilters(device, filters),
+  );
+
+  // Apply pagination
+  if (filters.skip) {
+    filteredDevices = filteredDevices.slice(filters.skip);
+  }
+  if (filters.limit) {
+    filteredDevices = filteredDevices.slice(0, filters.limit);
+  }
+
+  return filteredDevices;
+};
+
+/**
+ * Whether any facet filter is active
+ */
+export const hasActiveFilters = (filters: DeviceFilters): boolean =>
+  !!filters.dateRange ||
+  !!filters.productClass?.length ||
+  !!filters.productCode?.length ||
+  !!filters.panelType?.length ||
+  !!filters.manufacturer?.length ||
+  !!filters.clearanceYears?.length;
+
+/**
+ * Describe active filters as "Label: values" lines, e.g. for export headers
+ *
+ * @param filters - Search term and facet filters
+ * @returns One line per active filter, in sidebar order
+ */
+export const describeDeviceFilters = (filters: DeviceFilters): string[] => {
+  const lines: string[] = [];
+  const add = (label: string, values?: (string | number)[]) => {
+    if (values?.length) lines.push(`${label}: ${values.join(", ")}`);
+  };
+
+  if (filters.searchTerm) lines.push(`Search: ${filters.searchTerm}`);
+  add("Class", filters.productClass);
+  add("Product code", filters.productCode);
+  add("Panel", filters.panelType);
+  add("Manufacturer", filters.manufacturer);
+  add("Clearance year", filters.clearanceYears);
+  if (filters.dateRange) {
+    lines.push(
+      `Cleared between: ${filters.dateRange.from} and ${filters.dateRange.to}`,
+    );
+  }
+
+  return lines;
+};
+
+/**
+ * Facet value of a device for a given key
+ */
+const getFacetValue = (
+  device: FDADevice,
+  key: FacetFilterKey,
+): string | number | null | undefined => {
+  switch (key) {
+    case "productClass":
+      return device.productClass;
+    case "productCode":
+      return device.productCode;
+    case "panelType":
+      return device.panelType;
+    case "manufacturer":
+      return device.manufacturer;
+    case "clearanceYears":
+      return getClearanceYear(device);
+  }
+};
+
+/**
+ * Count devices per value of a single facet
+ *
+ * @param devices - Devices to count
+ * @param key - Facet to group by
+ * @returns Buckets sorted by count (class and year in natural order)
+ */
+export const countDevicesBy = (
+  devices: FDADevice[],
+  key: FacetFilterKey,
+): FacetBucket[] => {
+  const counter = new Map<string, number>();
+
+  devices.forEach((device) => {
+    const value = getFacetValue(device, key);
+    if (value === undefined || value === null || value === "") return;
+    counter.set(String(value), (counter.get(String(value)) || 0) + 1);
+  });
+
+  const buckets = [...counter.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+  return sortFacetBuckets(buckets, key);
+};
+
+// Position of a class bucket in PRODUCT_CLASSES; unrecognized values last
+const classOrder = (value: string): number => {
+  const index = PRODUCT_CLASSES.indexOf(value as ProductClass);
+  return index === -1 ? PRODUCT_CLASSES.length : index;
+};
+
+/**
+ * Order buckets for display: classes I→III then unknown, years newest first,
+ * others as-is
+ *
+ * @param buckets - Buckets sorted by count
+ * @param key - Facet the buckets belong to
+ * @returns Buckets in display order
+ */
+export const sortFacetBuckets = (
+  buckets: FacetBucket[],
+  key: FacetFilterKey,
+): FacetBucket[] => {
+  switch (key) {
+    case "productClass":
+      return [...buckets].sort(
+        (a, b) => classOrder(a.value) - classOrder(b.value),
+      );
+    case "clearanceYears":
+      return [...buckets].sort((a, b) => b.value.localeCompare(a.value));
+    default:
+      return buckets;
+  }
+};
+
+/**
+ * Count facet values across a device list
+ *
+ * @param devices - Devices to count
+ * @returns Buckets per facet; clearance years sorted newest first
+ */
+export const computeFacets = (devices: FDADevice[]): DeviceFacets => ({
+  productClass: countDevicesBy(devices, "productClass"),
+  productCode: countDevicesBy(devices, "productCode"),
+  panelType: countDevicesBy(devices, "panelType"),
+  manufacturer: countDevicesBy(devices, "manufacturer"),
+  clearanceYears: countDevicesBy(devices, "clearanceYears"),
+});
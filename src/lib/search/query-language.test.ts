@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { createDevice } from "@/test/fixtures";
+import {
+  filterDevicesByQuery,
+  matchesQuery,
+  parseQuery,
+  toOpenFDASearch,
+} from "./query-language";
+
+const stent = createDevice("K201234", {
+  deviceName: "Coronary Stent System",
+  manufacturer: "Medtronic, Inc.",
+  clearanceDate: "2020-05-01",
+  productCode: "NIQ",
+  predicateDevices: ["K181111"],
+  intendedUse: "Treatment of coronary artery disease",
+  panelType: "Cardiovascular",
+});
+
+describe("parseQuery", () => {
+  it("parses fields, negation, ranges and free text", () => {
+    const query = parseQuery(
+      'class:II code:dqy,NIQ mfr:"Boston Scientific" cleared:2018..2022 -has:predicates stent',
+    );
+
+    expect(query.errors).toEqual([]);
+    expect(query.clauses).toEqual([
+      { type: "field", field: "class", values: ["II"], negated: false },
+      {
+        type: "field",
+        field: "code",
+        values: ["dqy", "NIQ"],
+        negated: false,
+      },
+      {
+        type: "field",
+        field: "mfr",
+        values: ["Boston Scientific"],
+        negated: false,
+      },
+      { type: "cleared", from: 2018, to: 2022, negated: false },
+      { type: "has", value: "predicates", negated: true },
+      { type: "text", value: "stent", negated: false },
+    ]);
+  });
+
+  it("parses open-ended and single-year ranges", () => {
+    expect(parseQuery("cleared:..2010").clauses).toEqual([
+      { type: "cleared", from: undefined, to: 2010, negated: false },
+    ]);
+    expect(parseQuery("cleared:2015..").clauses).toEqual([
+      { type: "cleared", from: 2015, to: undefined, negated: false },
+    ]);
+    expect(parseQuery("cleared:2019").clauses).toEqual([
+      { type: "cleared", from: 2019, to: 2019, negated: false },
+    ]);
+  });
+
+  it("keeps quoted phrases together", () => {
+    expect(parseQuery('"balloon catheter" -"drug eluting"').clauses).toEqual([
+      { type: "text", value: "balloon catheter", negated: false },
+      { type: "text", value: "drug eluting", negated: true },
+    ]);
+  });
+
+  it("reports syntax errors", () => {
+    expect(parseQuery("cleared:2022..2018").errors).toEqual([
+      'Invalid year range "2022..2018" (expected e.g. 2018..2022)',
+    ]);
+    expect(parseQuery("class:IV").errors).toEqual([
+      'Unknown device class "IV"',
+    ]);
+    expect(parseQuery("has:dependents").errors).toEqual([
+      'Unknown value "has:dependents" (expected predicates)',
+    ]);
+    expect(parseQuery("code:").errors).toEqual(['Missing value for "code:"']);
+  });
+
+  it("keeps unknown fields as text", () => {
+    const query = parseQuery("color:blue");
+
+    expect(query.errors).toEqual(['Unknown field "color:"']);
+    expect(query.clauses).toEqual([
+      { type: "text", value: "color:blue", negated: false },
+    ]);
+  });
+});
+
+describe("toOpenFDASearch", () => {
+  it("compiles every clause type", () => {
+    expect(
+      toOpenFDASearch(
+        parseQuery(
+          "class:2 code:dqy mfr:Acme cleared:2018..2022 has:predicates Stent",
+        ),
+      ),
+    ).toBe(
+      [
+        "(openfda.device_class:2)",
+        "(product_code:DQY)",
+        '(applicant:"Acme")',
+        "decision_date:[2018-01-01 TO 2022-12-31]",
+        "_exists_:predicate_devices",
+        '(device_name:"stent" OR applicant:"stent" OR k_number:"stent")',
+      ].join(" AND "),
+    );
+  });
+
+  it("negates clauses and leaves open range ends unbounded", () => {
+    expect(toOpenFDASearch(parseQuery("-class:III cleared:..2000"))).toBe(
+      "NOT (openfda.device_class:3) AND decision_date:[* TO 2000-12-31]",
+    );
+  });
+
+  it("compiles panels to advisory committee codes", () => {
+    expect(
+      toOpenFDASearch(parseQuery('panel:Cardiovascular,OR,"Space Medicine"')),
+    ).toBe(
+      '(advisory_committee:CV OR advisory_committee:OR OR advisory_committee_description:"Space Medicine")',
+    );
+  });
+
+  it("is empty for an empty query", () => {
+    expect(toOpenFDASearch(parseQuery("  "))).toBe("");
+  });
+});
+
+describe("matchesQuery", () => {
+  it("matches the same devices the OpenFDA query would select", () => {
+    const catheter = createDevice("K151515", {
+      deviceName: "Balloon Catheter",
+      productClass: "III",
+      clearanceDate: "2015-02-02",
+      predicateDevices: [],
+    });
+
+    const query = parseQuery("class:II,III cleared:2016.. has:predicates");
+    expect(filterDevicesByQuery([stent, catheter], query)).toEqual([stent]);
+  });
+
+  it("applies negation per clause", () => {
+    expect(matchesQuery(stent, parseQuery("-mfr:medtronic"))).toBe(false);
+    expect(matchesQuery(stent, parseQuery("-mfr:abbott"))).toBe(true);
+  });
+
+  it("matches panels by code or name", () => {
+    expect(matchesQuery(stent, parseQuery("panel:CV"))).toBe(true);
+    expect(matchesQuery(stent, parseQuery("panel:cardiovascular"))).toBe(true);
+    expect(matchesQuery(stent, parseQuery("panel:RA"))).toBe(false);
+  });
+
+  it("treats devices without a clearance year as outside any range", () => {
+    expect(
+      matchesQuery(
+        { ...stent, clearanceDate: "" },
+        parseQuery("cleared:..2030"),
+      ),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * Device Query Language
+ *
+ * Small search grammar for power users, e.g.
+ *   class:II code:DQY mfr:"Medtronic" cleared:2018..2022 -has:predicates stent
+ *
+ * Queries parse into a typed AST that compiles both to an in-memory device
+ * filter and to OpenFDA `search=` syntax.
+ *
+ * Grammar:
+ * - `field:value` or `field:"quoted value"`, comma-separated values are ORed
+ * - `-term` negates a term, `"quoted phrase"` matches as one text term
+ * - Supported fields: class, code, mfr, panel, cleared, has
+ * - All terms are ANDed together
+ */
+
+import type { FDADevice, ProductClass } from "@/types/fda";
+import { parseProductClass } from "@/lib/validation/product-class";
+import {
+  matchesReviewPanel,
+  parseReviewPanel,
+} from "@/lib/validation/review-panel";
+
+/**
+ * Fields that match against a single device property
+ */
+export type QueryValueField = "class" | "code" | "mfr" | "panel";
+
+/**
+ * Relationship flags supported by `has:`
+ */
+export type QueryHasValue = "predicates";
+
+/**
+ * Single parsed query term
+ */
+export type QueryClause =
+  | { type: "text"; value: string; negated: boolean }
+  | {
+      type: "field";
+      field: QueryValueField;
+      values: string[];
+      negated: boolean;
+    }
+  | {
+      type: "cleared";
+      /** Inclusive start year */
+      from?: number;
+      /** Inclusive end year */
+      to?: number;
+      negated: boolean;
+    }
+  | { type: "has"; value: QueryHasValue; negated: boolean };
+
+/**
+ * Parsed query with any syntax problems found along the way
+ */
+export interface ParsedQuery {
+  clauses: QueryClause[];
+  /** Human-readable problems; offending terms are kept as text */
+  errors: string[];
+}
+
+const VALUE_FIELDS: QueryValueField[] = ["class", "code", "mfr", "panel"];
+// OpenFDA stores device class as a digit, or U for unclassified
+export const OPENFDA_DEVICE_CLASS: Record<ProductClass, string> = {
+  I: "1",
+  II: "2",
+  III: "3",
+  unknown: "U",
+};
+
+/**
+ * OpenFDA term for a panel: the advisory committee code when recognized,
+ * otherwise the panel name as a phrase
+ *
+ * @param panel - Panel code or name
+ */
+export const toOpenFDAPanelTerm = (panel: string): string => {
+  const code = parseReviewPanel(panel);
+  return code
+    ? `advisory_committee:${code}`
+    : `advisory_committee_description:"${panel.trim()}"`;
+};
+
+/**
+ * Split a query into raw terms, keeping quoted sections together
+ */
+const tokenize = (input: string): string[] => {
+  const tokens: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (const char of input) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      current += char;
+    } else if (/\s/.test(char) && !inQuotes) {
+      if (current) tokens.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  if (current) tokens.push(current);
+  return tokens;
+};
+
+/**
+ * Remove surrounding quotes from a value
+ */
+const unquote = (value: string): string => value.replace(/"/g, "").trim();
+
+/**
+ * Parse a `cleared:` year or year range (2018, 2018..2022, ..2022, 2018..)
+ */
+const parseYearRange = (
+  value: string,
+): { from?: number; to?: number } | null => {
+  const match = value.match(/^(\d{4})?(?:(\.\.)(\d{4})?)?$/);
+  if (!match || (!match[1] && !match[3])) {
+    return null;
+  }
+
+  const from = match[1] ? parseInt(match[1]) : undefined;
+  const to = match[2] ? (match[3] ? parseInt(match[3]) : undefined) : from;
+
+  if (from !== undefined && to !== undefined && from > to) {
+    return null;
+  }
+
+  return { from, to };
+};
+
+/**
+ * Parse a query string into a typed AST
+ *
+ * @param input - Raw query typed by the user
+ * @returns Parsed clauses and syntax errors
+ */
+export const parseQuery = (input: string): ParsedQuery => {
+  const clauses: QueryClause[] = [];
+  const errors: string[] = [];
+
+  tokenize(input.trim()).forEach((token) => {
+    const negated = token.startsWith("-") && token.length > 1;
+    const body = negated ? token.slice(1) : token;
+    const fieldMatch = body.match(/^([a-z]+):(.*)$/i);
+
+    // Plain text term or quoted phrase
+    if (!fieldMatch) {
+      const value = unquote(body);
+      if (value) clauses.push({ type: "text", value, negated });
+      return;
+    }
+
+    const field = fieldMatch[1].toLowerCase();
+    const rawValue = unquote(fieldMatch[2]);
+
+    if (!rawValue) {
+      errors.push(`Missing value for "${field}:"`);
+      return;
+    }
+
+    if (field === "cleared") {
+      const range = parseYearRange(rawValue);
+      if (range) {
+        clauses.push({ type: "cleared", ...range, negated });
+      } else {
+        errors.push(
+          `Invalid year range "${rawValue}" (expected e.g. 2018..2022)`,
+        );
+      }
+      return;
+    }
+
+    if (field === "has") {
+      if (rawValue.toLowerCase() === "predicates") {
+        clauses.push({ type: "has", value: "predicates", negated });
+      } else {
+        errors.push(`Unknown value "has:${rawValue}" (expected predicates)`);
+      }
+      return;
+    }
+
+    if ((VALUE_FIELDS as string[]).includes(field)) {
+      const values = rawValue
+        .split(",")
+        .map((value) => value.trim())
+        .filter(Boolean);
+
+      if (field === "class") {
+        const invalid = values.filter((value) => !parseProductClass(value));
+        if (invalid.length > 0) {
+          errors.push(`Unknown device class "${invalid.join(", ")}"`);
+          return;
+        }
+      }
+
+      clauses.push({
+        type: "field",
+        field: field as QueryValueField,
+        values,
+        negated,
+      });
+      return;
+    }
+
+    // Unknown field: keep the whole term as text so nothing is lost
+    errors.push(`Unknown field "${field}:"`);
+    clauses.push({ type: "text", value: unquote(body), negated });
+  });
+
+  return { clauses, errors };
+};
+
+/**
+ * Check a single clause against a device, ignoring negation
+ */
+const matchesClause = (device: FDADevice, clause: QueryClause): boolean => {
+  switch (clause.type) {
+    case "text": {
+      const term = clause.value.toLowerCase();
+      return (
+        device.kNumber.toLowerCase().includes(term) ||
+        device.deviceName.toLowerCase().includes(term) ||
+        device.manufacturer.toLowerCase().includes(term) ||
+        device.productClass.toLowerCase().includes(term) ||
+        device.intendedUse.toLowerCase().includes(term) ||
+        (device.panelType?.toLowerCase().includes(term) ?? false)
+      );
+    }
+
+    case "field":
+      return clause.values.some((value) => {
+        const lower = value.toLowerCase();
+        switch (clause.field) {
+          case "class":
+            return device.productClass === parseProductClass(value);
+          case "code":
+            return device.productCode.toLowerCase() === lower;
+          case "mfr":
+            return device.manufacturer.toLowerCase().includes(lower);
+          case "panel":
+            return matchesReviewPanel(device.panelType, value);
+        }
+      });
+
+    case "cleared": {
+      const year = parseInt(device.clearanceDate.slice(0, 4));
+      if (isNaN(year)) return false;
+      return (
+        (clause.from === undefined || year >= clause.from) &&
+        (clause.to === undefined || year <= clause.to)
+      );
+    }
+
+    case "has":
+      return device.predicateDevices.length > 0;
+  }
+};
+
+/**
+ * Check whether a device satisfies every clause of a query
+ *
+ * @param device - Device to test
+ * @param query - Parsed query
+ * @returns Whether the device matches
+ */
+export const matchesQuery = (device: FDADevice, query: ParsedQuery): boolean =>
+  query.clauses.every(
+    (clause) => matchesClause(device, clause) !== clause.negated,
+  );
+
+/**
+ * Filter devices by a parsed query
+ *
+ * @param devices - Devices to filter
+ * @param query - Parsed query
+ * @returns Devices matching every clause
+ */
+export const filterDevicesByQuery = (
+  devices: FDADevice[],
+  query: ParsedQuery,
+): FDADevice[] => devices.filter((device) => matchesQuery(device, query));
+
+/**
+ * Compile a single clause to OpenFDA syntax, ignoring negation
+ */
+const compileClause = (clause: QueryClause): string => {
+  switch (clause.type) {
+    case "text": {
+      const term = clause.value.toLowerCase();
+      return `(device_name:"${term}" OR applicant:"${term}" OR k_number:"${term}")`;
+    }
+
+    case "field": {
+      const terms = clause.values.map((value) => {
+        switch (clause.field) {
+          case "class":
+            return `openfda.device_class:${OPENFDA_DEVICE_CLASS[parseProductClass(value) ?? "unknown"]}`;
+          case "code":
+            return `product_code:${value.toUpperCase()}`;
+          case "mfr":
+            return `applicant:"${value}"`;
+          case "panel":
+            return toOpenFDAPanelTerm(value);
+        }
+      });
+      return `(${terms.join(" OR ")})`;
+    }
+
+    case "cleared": {
+      const from = clause.from !== undefined ? `${clause.from}-01-01` : "*";
+      const to = clause.to !== undefined ? `${clause.to}-12-31` : "*";
+      return `decision_date:[${from} TO ${to}]`;
+    }
+
+    case "has":
+      return "_exists_:predicate_devices";
+  }
+};
+
+/**
+ * Compile a parsed query to an OpenFDA `search=` expression
+ *
+ * @param query - Parsed query
+ * @returns OpenFDA search string, empty when the query has no clauses
+ */
+export const toOpenFDASearch = (query: ParsedQuery): string =>
+  query.clauses
+    .map((clause) =>
+      clause.negated ? `NOT ${compileClause(clause)}` : compileClause(clause),
+    )
+    .join(" AND ");
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseGraphUrlState,
+  serializeGraphUrlState,
+  type GraphUrlState,
+} from "./graph-url-state";
+
+const DEFAULT_STATE: GraphUrlState = {
+  searchTerm: "",
+  selectedNodeId: null,
+  activeFilters: {},
+  layoutAlgorithm: "dagre",
+  layoutDirection: "TB",
+  viewport: null,
+};
+
+const roundTrip = (state: GraphUrlState) =>
+  parseGraphUrlState(
+    new URLSearchParams(serializeGraphUrlState(state).toString()),
+  );
+
+describe("graph URL state", () => {
+  it("serializes the default state to an empty query", () => {
+    expect(serializeGraphUrlState(DEFAULT_STATE).toString()).toBe("");
+    expect(parseGraphUrlState(new URLSearchParams())).toEqual(DEFAULT_STATE);
+  });
+
+  it("round-trips every field", () => {
+    const state: GraphUrlState = {
+      searchTerm: 'mfr:"Acme, Inc." stent',
+      selectedNodeId: "K201234",
+      activeFilters: {
+        productClass: ["II", "unknown"],
+        productCode: ["DQY"],
+        panelType: ["Cardiovascular"],
+        manufacturer: ["Acme, Inc.", "Other Co"],
+        clearanceYears: [2019, 2020],
+        dateRange: { from: "2019-01-01", to: "2020-12-31" },
+      },
+      layoutAlgorithm: "radial",
+      layoutDirection: "LR",
+      viewport: { x: -120, y: 40, zoom: 0.85 },
+    };
+
+    expect(roundTrip(state)).toEqual(state);
+  });
+
+  it("rounds the viewport compactly", () => {
+    const params = serializeGraphUrlState({
+      ...DEFAULT_STATE,
+      viewport: { x: 10.4, y: -3.6, zoom: 1.23456 },
+    });
+
+    expect(params.get("view")).toBe("10,-4,1.23");
+  });
+
+  it("drops malformed values and keeps the rest", () => {
+    const state = parseGraphUrlState(
+      new URLSearchParams(
+        "device=k201234&class=2&class=IV&year=abc&year=2020&algo=spiral&layout=XX&view=1,2,0&from=2020-01-01",
+      ),
+    );
+
+    expect(state).toEqual({
+      ...DEFAULT_STATE,
+      selectedNodeId: "K201234",
+      activeFilters: { productClass: ["II"], clearanceYears: [2020] },
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Graph URL State
+ *
+ * Serializes the shareable part of the graph store (search, selection,
+ * filters, layout, viewport) to and from query params, e.g.
+ *   /?q=stent&device=K201234&class=II&layout=LR&view=-120,40,0.85
+ *   /?device=K201234&algo=radial
+ *
+ * Default values are omitted so a pristine dashboard keeps a clean URL
+ */
+
+import type { Viewport } from "@xyflow/react";
+import type { DeviceFilters, ProductClass } from "@/types/fda";
+import type { LayoutAlgorithm, LayoutDirection } from "@/types/graph";
+import { LAYOUT_ENGINES } from "@/lib/graph/layout-registry";
+import { parseProductClass } from "@/lib/validation/product-class";
+
+/**
+ * Graph state that round-trips through the URL
+ */
+export interface GraphUrlState {
+  searchTerm: string;
+  selectedNodeId: string | null;
+  activeFilters: DeviceFilters;
+  layoutAlgorithm: LayoutAlgorithm;
+  layoutDirection: LayoutDirection;
+  /** Null when the graph should fit its content */
+  viewport: Viewport | null;
+}
+
+/**
+ * Query param names
+ * Multi-value filters repeat the param (mfr=A&mfr=B) so values may contain commas
+ */
+const PARAMS = {
+  search: "q",
+  device: "device",
+  productClass: "class",
+  productCode: "code",
+  panelType: "panel",
+  manufacturer: "mfr",
+  clearanceYears: "year",
+  dateFrom: "from",
+  dateTo: "to",
+  algorithm: "algo",
+  layout: "layout",
+  viewport: "view",
+} as const;
+
+const DEFAULT_LAYOUT_ALGORITHM: LayoutAlgorithm = "dagre";
+const DEFAULT_LAYOUT_DIRECTION: LayoutDirection = "TB";
+const LAYOUT_DIRECTIONS: LayoutDirection[] = ["TB", "BT", "LR", "RL"];
+
+/**
+ * Parse `view=x,y,zoom`, rejecting anything non-numeric or a zero zoom
+ */
+const parseViewport = (value: string | null): Viewport | null => {
+  if (!value) {
+    return null;
+  }
+
+  const [x, y, zoom] = value.split(",").map(Number);
+  if ([x, y, zoom].some((n) => !Number.isFinite(n)) || zoom <= 0) {
+    return null;
+  }
+
+  return { x, y, zoom };
+};
+
+/**
+ * Format a viewport compactly (whole pixels, two-decimal zoom)
+ */
+const formatViewport = ({ x, y, zoom }: Viewport): string =>
+  `${Math.round(x)},${Math.round(y)},${Number(zoom.toFixed(2))}`;
+
+/**
+ * Parse graph state from query params
+ *
+ * Unknown or malformed values are dropped rather than rejected so an old or
+ * hand-edited link still restores whatever it can
+ *
+ * @param params - Current URL search params
+ * @returns Graph state with defaults for anything missing
+ */
+export const parseGraphUrlState = (params: URLSearchParams): GraphUrlState => {
+  const getList = (name: string): string[] | undefined => {
+    const values = params
+      .getAll(name)
+      .map((value) => value.trim())
+      .filter(Boolean);
+    return values.length > 0 ? values : undefined;
+  };
+
+  const productClass = getList(PARAMS.productClass)
+    ?.map(parseProductClass)
+    .filter((value): value is ProductClass => value !== null);
+  const clearanceYears = getList(PARAMS.clearanceYears)
+    ?.map(Number)
+    .filter(Number.isInteger);
+  const dateFrom = params.get(PARAMS.dateFrom);
+  const dateTo = params.get(PARAMS.dateTo);
+  const algorithm = params.get(PARAMS.algorithm)?.toLowerCase() || "";
+  const layout = params.get(PARAMS.layout)?.toUpperCase() as LayoutDirection;
+
+  const activeFilters: DeviceFilters = {
+    productClass: productClass?.length ? productClass : undefined,
+    productCode: getList(PARAMS.productCode),
+    panelType: getList(PARAMS.panelType),
+    manufacturer: getList(PARAMS.manufacturer),
+    clearanceYears: clearanceYears?.length ? clearanceYears : undefined,
+    dateRange: dateFrom && dateTo ? { from: dateFrom, to: dateTo } : undefined,
+  };
+
+  // Drop empty keys so restored filters compare equal to a fresh store
+  (Object.keys(activeFilters) as (keyof DeviceFilters)[]).forEach((key) => {
+    if (activeFilters[key] === undefined) delete activeFilters[key];
+  });
+
+  return {
+    searchTerm: params.get(PARAMS.search)?.trim() || "",
+    selectedNodeId: params.get(PARAMS.device)?.trim().toUpperCase() || null,
+    activeFilters,
+    layoutAlgorithm:
+      algorithm in LAYOUT_ENGINES
+        ? (algorithm as LayoutAlgorithm)
+        : DEFAULT_LAYOUT_ALGORITHM,
+    layoutDirection: LAYOUT_DIRECTIONS.includes(layout)
+      ? layout
+      : DEFAULT_LAYOUT_DIRECTION,
+    viewport: parseViewport(params.get(PARAMS.viewport)),
+  };
+};
+
+/**
+ * Serialize graph state to query params
+ *
+ * @param state - Graph state to share
+ * @returns Query params with defaults omitted
+ */
+export const serializeGraphUrlState = (
+  state: GraphUrlState,
+): URLSearchParams => {
+  const params = new URLSearchParams();
+  const { activeFilters: filters } = state;
+
+  if (state.searchTerm) params.set(PARAMS.search, state.searchTerm);
+  if (state.selectedNodeId) params.set(PARAMS.device, state.selectedNodeId);
+
+  filters.productClass?.forEach((v) => params.append(PARAMS.productClass, v));
+  filters.productCode?.forEach((v) => params.append(PARAMS.productCode, v));
+  filters.panelType?.forEach((v) => params.append(PARAMS.panelType, v));
+  filters.manufacturer?.forEach((v) => params.append(PARAMS.manufacturer, v));
+  filters.clearanceYears?.forEach((v) =>
+    params.append(PARAMS.clearanceYears, String(v)),
+  );
+  if (filters.dateRange) {
+    params.set(PARAMS.dateFrom, filters.dateRange.from);
+    params.set(PARAMS.dateTo, filters.dateRange.to);
+  }
+
+  if (state.layoutAlgorithm !== DEFAULT_LAYOUT_ALGORITHM) {
+    params.set(PARAMS.algorithm, state.layoutAlgorithm);
+  }
+  if (state.layoutDirection !== DEFAULT_LAYOUT_DIRECTION) {
+    params.set(PARAMS.layout, state.layoutDirection);
+  }
+  if (state.viewport) {
+    params.set(PARAMS.viewport, formatViewport(state.viewport));
+  }
+
+  return params;
+};
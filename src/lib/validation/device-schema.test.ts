@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { fdaDeviceSchema, formatZodIssues } from "./device-schema";
+
+describe("fdaDeviceSchema", () => {
+  it("accepts complete records and rejects unknown classes", () => {
+    const device = {
+      kNumber: "K201234",
+      deviceName: "Stent",
+      manufacturer: "Acme",
+      clearanceDate: "2020-05-01",
+      productClass: "II",
+      productCode: "NIQ",
+      predicateDevices: ["K181111"],
+      intendedUse: "",
+      provenance: "internal",
+    };
+
+    expect(fdaDeviceSchema.parse(device)).toEqual(device);
+    expect(
+      fdaDeviceSchema.safeParse({ ...device, productClass: "IV" }).success,
+    ).toBe(false);
+    expect(fdaDeviceSchema.safeParse({ ...device, kNumber: "" }).success).toBe(
+      false,
+    );
+  });
+});
+
+describe("formatZodIssues", () => {
+  it("lists issues by path and summarizes the overflow", () => {
+    const result = z
+      .object({ a: z.string(), b: z.object({ c: z.number() }), d: z.string() })
+      .safeParse({ b: {} });
+
+    expect(result.success).toBe(false);
+    expect(formatZodIssues(result.error!, 2)).toBe(
+      "a: Required\nb.c: Required\n…and 1 more",
+    );
+  });
+});
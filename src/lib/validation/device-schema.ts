@@ -0,0 +1,127 @@
+/**
+ * Device Validation Schemas
+ *
+ * zod schemas for FDADevice records coming from outside the app (saved
+ * graphs, uploaded files). Kept in step with the FDADevice interface via the
+ * ZodType annotation.
+ */
+
+import { z } from "zod";
+import type { DeviceProvenance, FDADevice, ProductClass } from "@/types/fda";
+import { parseProductClass } from "./product-class";
+import { normalizeReviewPanel } from "./review-panel";
+
+export const productClassSchema: z.ZodType<ProductClass> = z.enum([
+  "I",
+  "II",
+  "III",
+  "unknown",
+]);
+
+export const deviceProvenanceSchema: z.ZodType<DeviceProvenance> = z.enum([
+  "api",
+  "mock",
+  "cache",
+  "internal",
+]);
+
+/**
+ * Complete device record
+ */
+export const fdaDeviceSchema: z.ZodType<FDADevice> = z.object({
+  kNumber: z.string().min(1),
+  deviceName: z.string(),
+  manufacturer: z.string(),
+  clearanceDate: z.string(),
+  productClass: productClassSchema,
+  productCode: z.string(),
+  predicateDevices: z.array(z.string()),
+  intendedUse: z.string(),
+  panelType: z.string().optional(),
+  regulationNumber: z.string().optional(),
+  provenance: deviceProvenanceSchema.optional(),
+});
+
+// Blank cells and missing keys both mean "not provided"
+const optionalText = z.preprocess(
+  (value) =>
+    typeof value === "string" && value.trim() === "" ? undefined : value,
+  z.string().trim().optional(),
+);
+
+const requiredText = (label: string) =>
+  z
+    .string({ required_error: `${label} is required` })
+    .trim()
+    .min(1, `${label} is required`);
+
+/**
+ * Device record from an internal list (CSV row or JSON object)
+ *
+ * More lenient than fdaDeviceSchema about input shape: "Class II", "2" and
+ * "unclassified" are accepted as classes, predicate lists may be a delimited string, and
+ * unreleased devices may omit the clearance date. Output is an FDADevice
+ * marked with internal provenance.
+ */
+export const internalDeviceSchema: z.ZodType<FDADevice, z.ZodTypeDef, unknown> =
+  z
+    .object({
+      kNumber: requiredText("K-number"),
+      deviceName: requiredText("Device name"),
+      manufacturer: requiredText("Manufacturer"),
+      clearanceDate: optionalText.refine(
+        (value) => value === undefined || /^\d{4}-\d{2}-\d{2}$/.test(value),
+        "Clearance date must be YYYY-MM-DD",
+      ),
+      productClass: z.preprocess(
+        (value) => parseProductClass(value) ?? value,
+        z.enum(["I", "II", "III", "unknown"], {
+          errorMap: () => ({
+            message: "Product class must be I, II, III or unclassified",
+          }),
+        }),
+      ),
+      productCode: optionalText,
+      predicateDevices: z.preprocess(
+        (value) =>
+          typeof value === "string"
+            ? value.split(/[;,|\s]+/).filter(Boolean)
+            : (value ?? []),
+        z.array(z.string().trim().min(1)),
+      ),
+      intendedUse: optionalText,
+      panelType: optionalText,
+      regulationNumber: optionalText,
+    })
+    .transform(
+      (row): FDADevice => ({
+        kNumber: row.kNumber,
+        deviceName: row.deviceName,
+        manufacturer: row.manufacturer,
+        clearanceDate: row.clearanceDate ?? "",
+        productClass: row.productClass,
+        productCode: row.productCode ?? "",
+        predicateDevices: [...new Set(row.predicateDevices)],
+        intendedUse: row.intendedUse ?? "",
+        panelType: normalizeReviewPanel(row.panelType),
+        regulationNumber: row.regulationNumber,
+        provenance: "internal",
+      }),
+    );
+
+/**
+ * Format zod issues as "path: message" lines for error messages
+ */
+export const formatZodIssues = (error: z.ZodError, limit = 5): string => {
+  const lines = error.issues
+    .slice(0, limit)
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message,
+    );
+  if (error.issues.length > limit) {
+    lines.push(`…and ${error.issues.length - limit} more`);
+  }
+  return lines.join("\n");
+};
@@ -0,0 +1,190 @@
+/**
+ * OpenFDA Response Schemas
+ *
+ * zod schemas for OpenFDA 510(k) payloads. The envelope (meta, results
+ * array) must match or the response is rejected; records are checked one by
+ * one so a malformed record is dropped instead of failing the whole page.
+ * What was dropped or defaulted is collected in a validation report.
+ */
+
+import { z } from "zod";
+import { formatZodIssues } from "./device-schema";
+
+// OpenFDA omits empty fields and occasionally sends null for them
+const optionalString = z.string().nullish();
+
+export const openFDAMetaSchema = z.object({
+  disclaimer: optionalString,
+  terms: optionalString,
+  license: optionalString,
+  last_updated: z.string(),
+  results: z
+    .object({
+      skip: z.number(),
+      limit: z.number(),
+      total: z.number(),
+    })
+    .optional(),
+});
+
+/**
+ * Single 510(k) record; only the K-number is required
+ */
+export const openFDADeviceSchema = z.object({
+  k_number: z.string().trim().min(1),
+  device_name: optionalString,
+  applicant: optionalString,
+  date_received: optionalString,
+  decision_date: optionalString,
+  decision_description: optionalString,
+  clearance_type: optionalString,
+  product_code: optionalString,
+  statement_or_summary: optionalString,
+  type: optionalString,
+  advisory_committee: optionalString,
+  advisory_committee_description: optionalString,
+  openfda: z
+    .object({
+      device_name: optionalString,
+      medical_specialty_description: optionalString,
+      regulation_number: optionalString,
+      device_class: optionalString,
+      product_code: optionalString,
+      device_classification: optionalString,
+    })
+    .nullish(),
+  predicate_devices: z
+    .array(
+      z.object({
+        k_number: optionalString,
+        device_name: optionalString,
+      }),
+    )
+    .nullish(),
+});
+
+/**
+ * Search response; records are validated separately with openFDADeviceSchema
+ */
+export const openFDAResponseSchema = z.object({
+  meta: openFDAMetaSchema.extend({
+    results: z.object({
+      skip: z.number(),
+      limit: z.number(),
+      total: z.number(),
+    }),
+  }),
+  results: z.array(z.unknown()),
+});
+
+/**
+ * Count response (`count=field`): `term` buckets, or `time` for dates
+ */
+export const openFDACountResponseSchema = z.object({
+  meta: openFDAMetaSchema,
+  results: z.array(
+    z.object({
+      term: z.union([z.string(), z.number()]).optional(),
+      time: z.string().optional(),
+      count: z.number(),
+    }),
+  ),
+});
+
+export type OpenFDADevice = z.infer<typeof openFDADeviceSchema>;
+export type OpenFDAResponse = z.infer<typeof openFDAResponseSchema>;
+export type OpenFDACountResponse = z.infer<typeof openFDACountResponseSchema>;
+
+/**
+ * Record left out of the results because it failed validation
+ */
+export interface DroppedRecord {
+  /** Position in the response's results array */
+  index: number;
+  kNumber?: string;
+  reason: string;
+}
+
+/**
+ * Field filled with a default or taken from a fallback field
+ */
+export interface CoercedField {
+  kNumber: string;
+  field: string;
+  /** What was used instead, e.g. "date_received" or a default value */
+  to: string;
+}
+
+/**
+ * Device class value that isn't I/II/III, stored as class "unknown"
+ */
+export interface UnknownClassValue {
+  kNumber: string;
+  /** Raw `openfda.device_class`, or null when missing */
+  value: string | null;
+}
+
+/**
+ * What validation and transformation changed in one response
+ */
+export interface OpenFDAValidationReport {
+  /** Records in the response */
+  received: number;
+  /** Records that became devices */
+  accepted: number;
+  dropped: DroppedRecord[];
+  coerced: CoercedField[];
+  unknownClasses: UnknownClassValue[];
+}
+
+/**
+ * Empty report for a response with the given number of records
+ */
+export const createValidationReport = (
+  received: number,
+): OpenFDAValidationReport => ({
+  received,
+  accepted: 0,
+  dropped: [],
+  coerced: [],
+  unknownClasses: [],
+});
+
+/**
+ * Whether the report records anything beyond clean records
+ */
+export const hasValidationFindings = (
+  report: OpenFDAValidationReport,
+): boolean =>
+  report.dropped.length > 0 ||
+  report.coerced.length > 0 ||
+  report.unknownClasses.length > 0;
+
+/**
+ * Validate each record, collecting the valid ones and dropping the rest
+ *
+ * @param records - Raw `results` entries
+ * @param report - Report receiving dropped records
+ * @returns Records that match openFDADeviceSchema
+ */
+export const validateOpenFDARecords = (
+  records: unknown[],
+  report: OpenFDAValidationReport,
+): OpenFDADevice[] =>
+  records.flatMap((record, index) => {
+    const result = openFDADeviceSchema.safeParse(record);
+    if (result.success) {
+      return [result.data];
+    }
+
+    const kNumber =
+      record && typeof record === "object" && "k_number" in record
+        ? String(record.k_number) || undefined
+        : undefined;
+    report.dropped.push({
+      index,
+      kNumber,
+      reason: formatZodIssues(result.error, 3).replace(/\n/g, "; "),
+    });
+    return [];
+  });
@@ -0,0 +1,60 @@
+/**
+ * Product Class Helpers
+ *
+ * Parsing and display of FDA device classes. Values outside I/II/III
+ * (OpenFDA "U" unclassified, "N" not classified, missing) map to "unknown"
+ * rather than being guessed.
+ */
+
+import type { ProductClass } from "@/types/fda";
+
+/**
+ * All classes in display order (unknown last)
+ */
+export const PRODUCT_CLASSES: ProductClass[] = ["I", "II", "III", "unknown"];
+
+// Accepted spellings per class, compared upper-cased with "CLASS " removed
+const CLASS_ALIASES: Record<string, ProductClass> = {
+  I: "I",
+  "1": "I",
+  II: "II",
+  "2": "II",
+  III: "III",
+  "3": "III",
+  UNKNOWN: "unknown",
+  UNCLASSIFIED: "unknown",
+  U: "unknown",
+  N: "unknown",
+};
+
+/**
+ * Read a class from user input, URLs or OpenFDA ("II", "2", "Class II",
+ * "unclassified")
+ *
+ * @param value - Raw class value
+ * @returns Matching class, or null when the value isn't recognized
+ */
+export const parseProductClass = (value: unknown): ProductClass | null => {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const key = String(value)
+    .trim()
+    .toUpperCase()
+    .replace(/^CLASS\s*/, "");
+  return CLASS_ALIASES[key] ?? null;
+};
+
+/**
+ * Badge colors (Tailwind classes) per class for device detail views
+ */
+export const PRODUCT_CLASS_BADGE_COLORS: Record<ProductClass, string> = {
+  I: "bg-green-100 text-green-800",
+  II: "bg-amber-100 text-amber-800",
+  III: "bg-red-100 text-red-800",
+  unknown: "bg-gray-100 text-gray-800",
+};
+
+/**
+ * Display label: "Class II", or "Unclassified" for unknown
+ */
+export const formatProductClass = (productClass: ProductClass): string =>
+  productClass === "unknown" ? "Unclassified" : `Class ${productClass}`;
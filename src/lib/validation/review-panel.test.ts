@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import {
+  matchesReviewPanel,
+  normalizeReviewPanel,
+  parseReviewPanel,
+} from "./review-panel";
+
+describe("parseReviewPanel", () => {
+  it("reads codes, names and aliases", () => {
+    expect(parseReviewPanel("cv")).toBe("CV");
+    expect(parseReviewPanel(" Cardiovascular ")).toBe("CV");
+    expect(parseReviewPanel("General Surgery")).toBe("SU");
+    expect(parseReviewPanel("Space Medicine")).toBeNull();
+    expect(parseReviewPanel(42)).toBeNull();
+  });
+});
+
+describe("normalizeReviewPanel", () => {
+  it("stores recognized panels by name and keeps others as given", () => {
+    expect(normalizeReviewPanel("OR")).toBe("Orthopedic");
+    expect(normalizeReviewPanel("dermatology")).toBe(
+      "General, Plastic Surgery",
+    );
+    expect(normalizeReviewPanel(" Space Medicine ")).toBe("Space Medicine");
+    expect(normalizeReviewPanel("  ")).toBeUndefined();
+    expect(normalizeReviewPanel(null)).toBeUndefined();
+  });
+});
+
+describe("matchesReviewPanel", () => {
+  it("compares recognized panels by code", () => {
+    expect(matchesReviewPanel("Cardiovascular", "CV")).toBe(true);
+    expect(matchesReviewPanel("CV", "cardiovascular")).toBe(true);
+    expect(matchesReviewPanel("Radiology", "CV")).toBe(false);
+  });
+
+  it("falls back to a substring match for other values", () => {
+    expect(matchesReviewPanel("Space Medicine", "space")).toBe(true);
+    expect(matchesReviewPanel(undefined, "CV")).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Review Panel Helpers
+ *
+ * OpenFDA stores the review panel as a two-letter advisory committee code
+ * ("CV"); devices carry the panel's name ("Cardiovascular") so API, cache,
+ * import and mock data all share one representation. Names follow OpenFDA's
+ * `advisory_committee_description`.
+ */
+
+/**
+ * Panel name per advisory committee code
+ */
+export const REVIEW_PANELS: Record<string, string> = {
+  AN: "Anesthesiology",
+  CV: "Cardiovascular",
+  CH: "Clinical Chemistry",
+  DE: "Dental",
+  EN: "Ear, Nose, Throat",
+  GU: "Gastroenterology, Urology",
+  HO: "General Hospital",
+  HE: "Hematology",
+  IM: "Immunology",
+  MG: "Medical Genetics",
+  MI: "Microbiology",
+  NE: "Neurology",
+  OB: "Obstetrics/Gynecology",
+  OP: "Ophthalmic",
+  OR: "Orthopedic",
+  PA: "Pathology",
+  PM: "Physical Medicine",
+  RA: "Radiology",
+  SU: "General, Plastic Surgery",
+  TX: "Toxicology",
+};
+
+// Other spellings seen in user input and internal lists, compared lower-cased
+const PANEL_ALIASES: Record<string, string> = {
+  "general surgery": "SU",
+  "plastic surgery": "SU",
+  "general & plastic surgery": "SU",
+  dermatology: "SU",
+  "clinical toxicology": "TX",
+  orthopedics: "OR",
+  ophthalmology: "OP",
+  cardiology: "CV",
+};
+
+const CODES_BY_NAME = new Map(
+  Object.entries(REVIEW_PANELS).map(([code, name]) => [
+    name.toLowerCase(),
+    code,
+  ]),
+);
+
+/**
+ * Read a panel from a code or name ("CV", "cardiovascular", "General Surgery")
+ *
+ * @param value - Raw panel value
+ * @returns Advisory committee code, or null when the value isn't recognized
+ */
+export const parseReviewPanel = (value: unknown): string | null => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  const upper = trimmed.toUpperCase();
+  if (REVIEW_PANELS[upper]) return upper;
+
+  const lower = trimmed.toLowerCase();
+  return CODES_BY_NAME.get(lower) ?? PANEL_ALIASES[lower] ?? null;
+};
+
+/**
+ * Panel name to store on a device
+ *
+ * @param value - Code or name from OpenFDA, an import or user input
+ * @returns Panel name, the trimmed value when unrecognized, or undefined
+ * when empty
+ */
+export const normalizeReviewPanel = (
+  value?: string | null,
+): string | undefined => {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+  const code = parseReviewPanel(trimmed);
+  return code ? REVIEW_PANELS[code] : trimmed;
+};
+
+/**
+ * Whether a device's panel matches a filter value
+ *
+ * Recognized panels compare by code, so "CV" matches "Cardiovascular";
+ * anything else falls back to a case-insensitive substring match.
+ *
+ * @param panelType - Device panel
+ * @param value - Filter or query value
+ */
+export const matchesReviewPanel = (
+  panelType: string | undefined,
+  value: string,
+): boolean => {
+  if (!panelType) return false;
+  const code = parseReviewPanel(value);
+  if (code) return parseReviewPanel(panelType) === code;
+  return panelType.toLowerCase().includes(value.trim().toLowerCase());
+};
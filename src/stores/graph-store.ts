@@ -1,15 +1,26 @@
 /**
  * Graph State Management Store
  *
- * Manages: Selected nodes, search terms, filtered devices
- * Used by: SearchInput, DeviceDetailsPanel, GraphCanvas components
+ * Manages: Selected nodes, search terms, filtered devices, layout algorithm
+ * and direction, viewport, predicate path query, loaded saved graph
+ * Used by: SearchInput, DeviceDetailsPanel, GraphCanvas components, URL sync
  * Performance: Selective subscriptions to prevent unnecessary re-renders
  */
 
 import { create } from "zustand";
 import { devtools } from "zustand/middleware";
-import type { FDADevice } from "@/types/fda";
+import type { Viewport } from "@xyflow/react";
+import type { FDADevice, DeviceFilters } from "@/types/fda";
+import type {
+  LayoutAlgorithm,
+  LayoutDirection,
+  PathQuery,
+} from "@/types/graph";
 import { mockDevices } from "@/lib/mock-data";
+import { parseQuery, filterDevicesByQuery } from "@/lib/search/query-language";
+import type { FacetFilterKey } from "@/lib/search/device-filters";
+import type { GraphUrlState } from "@/lib/url/graph-url-state";
+import type { SavedGraph } from "@/lib/export/graph-formats";
 
 /**
  * Graph store state interface
@@ -21,28 +32,48 @@ interface GraphStore {
   searchTerm: string;
   filteredDevices: FDADevice[];
   isSearching: boolean;
+  activeFilters: DeviceFilters;
+  layoutAlgorithm: LayoutAlgorithm;
+  layoutDirection: LayoutDirection;
+  viewport: Viewport | null;
+  pathQuery: PathQuery | null;
+  savedGraph: SavedGraph | null;
 
   // Actions for state updates
   setSelectedNode: (id: string | null) => void;
   setSearchTerm: (term: string) => void;
   setFilteredDevices: (devices: FDADevice[]) => void;
   setIsSearching: (loading: boolean) => void;
+  setActiveFilters: (filters: DeviceFilters) => void;
+  setLayoutAlgorithm: (algorithm: LayoutAlgorithm) => void;
+  setLayoutDirection: (direction: LayoutDirection) => void;
+  setViewport: (viewport: Viewport | null) => void;
+  setPathQuery: (query: PathQuery | null) => void;
+  setSavedGraph: (graph: SavedGraph | null) => void;
+  restoreUrlState: (state: GraphUrlState) => void;
 
   // Filtering actions
   performSearch: (searchTerm: string) => void;
+  toggleFilterValue: <K extends FacetFilterKey>(
+    key: K,
+    value: NonNullable<DeviceFilters[K]>[number],
+  ) => void;
 
   // Utility actions
   clearSelection: () => void;
   clearSearch: () => void;
+  clearFilters: () => void;
   resetStore: () => void;
 }
 
 /**
  * Device filtering utility function
- * Searches through K-number, device name, and manufacturer
+ * Parses the search term with the device query language
  *
- * Performance: Case-insensitive search with multiple field matching
- * Algorithm: Includes-based filtering for partial matches
+ * Performance: Query is parsed once, then matched per device
+ * Algorithm: Plain text terms match K-number, name, manufacturer, class,
+ * intended use and panel; field terms (class:, code:, mfr:, cleared:, panel:,
+ * has:) narrow further, and all terms are ANDed
  */
 const filterDevices = (
   devices: FDADevice[],
@@ -52,16 +83,7 @@ const filterDevices = (
     return devices; // Return all devices if no search term
   }
 
-  const lowerSearchTerm = searchTerm.toLowerCase();
-
-  return devices.filter(
-    (device) =>
-      device.kNumber.toLowerCase().includes(lowerSearchTerm) ||
-      device.deviceName.toLowerCase().includes(lowerSearchTerm) ||
-      device.manufacturer.toLowerCase().includes(lowerSearchTerm) ||
-      device.productClass.toLowerCase().includes(lowerSearchTerm) ||
-      (device.panelType?.toLowerCase().includes(lowerSearchTerm) ?? false),
-  );
+  return filterDevicesByQuery(devices, parseQuery(searchTerm));
 };
 
 /**
@@ -73,6 +95,12 @@ const initialState = {
   searchTerm: "",
   filteredDevices: [],
   isSearching: false,
+  activeFilters: {},
+  layoutAlgorithm: "dagre" as LayoutAlgorithm,
+  layoutDirection: "TB" as LayoutDirection,
+  viewport: null,
+  pathQuery: null,
+  savedGraph: null,
 };
 
 /**
@@ -85,7 +113,7 @@ const initialState = {
  */
 export const useGraphStore = create<GraphStore>()(
   devtools(
-    (set) => ({
+    (set, get) => ({
       // Initial state
       ...initialState,
 
@@ -103,6 +131,41 @@ export const useGraphStore = create<GraphStore>()(
       setIsSearching: (loading) =>
         set({ isSearching: loading }, false, "graph/setIsSearching"),
 
+      setActiveFilters: (filters) =>
+        set({ activeFilters: filters }, false, "graph/setActiveFilters"),
+
+      // Graph view actions
+      setLayoutAlgorithm: (algorithm) =>
+        set({ layoutAlgorithm: algorithm }, false, "graph/setLayoutAlgorithm"),
+
+      setLayoutDirection: (direction) =>
+        set({ layoutDirection: direction }, false, "graph/setLayoutDirection"),
+
+      setViewport: (viewport) => set({ viewport }, false, "graph/setViewport"),
+
+      // Path finder actions
+      setPathQuery: (query) =>
+        set({ pathQuery: query }, false, "graph/setPathQuery"),
+
+      // Saved graph actions - a loaded graph replaces the fetched devices
+      setSavedGraph: (graph) =>
+        set(
+          { savedGraph: graph, selectedNodeId: null, pathQuery: null },
+          false,
+          "graph/setSavedGraph",
+        ),
+
+      // Restore shareable state from the URL in one update
+      restoreUrlState: (state) =>
+        set(
+          {
+            ...state,
+            filteredDevices: filterDevices(mockDevices, state.searchTerm),
+          },
+          false,
+          "graph/restoreUrlState",
+        ),
+
       // Filtering actions
       performSearch: (searchTerm) => {
         const filtered = filterDevices(mockDevices, searchTerm);
@@ -116,6 +179,26 @@ export const useGraphStore = create<GraphStore>()(
         );
       },
 
+      // Facet actions - multi-select toggle per filter key
+      toggleFilterValue: (key, value) => {
+        const { activeFilters } = get();
+        const current = (activeFilters[key] || []) as (typeof value)[];
+        const next = current.includes(value)
+          ? current.filter((v) => v !== value)
+          : [...current, value];
+
+        set(
+          {
+            activeFilters: {
+              ...activeFilters,
+              [key]: next.length > 0 ? next : undefined,
+            },
+          },
+          false,
+          "graph/toggleFilterValue",
+        );
+      },
+
       // Utility actions for cleanup
       clearSelection: () =>
         set({ selectedNodeId: null }, false, "graph/clearSelection"),
@@ -131,6 +214,9 @@ export const useGraphStore = create<GraphStore>()(
           "graph/clearSearch",
         ),
 
+      clearFilters: () =>
+        set({ activeFilters: {} }, false, "graph/clearFilters"),
+
       resetStore: () => set(initialState, false, "graph/resetStore"),
     }),
     {
@@ -0,0 +1,29 @@
+/**
+ * Test Fixtures
+ *
+ * Factories for domain records shared across unit tests
+ */
+
+import type { FDADevice } from "@/types/fda";
+
+/**
+ * Build a valid FDADevice, overriding only the fields a test cares about
+ *
+ * @param kNumber - Device K-number
+ * @param overrides - Fields to replace on the default device
+ * @returns Class II device with no predicates
+ */
+export const createDevice = (
+  kNumber: string,
+  overrides: Partial<FDADevice> = {},
+): FDADevice => ({
+  kNumber,
+  deviceName: `Device ${kNumber}`,
+  manufacturer: "Acme Medical",
+  clearanceDate: "2020-01-01",
+  productClass: "II",
+  productCode: "DQY",
+  predicateDevices: [],
+  intendedUse: "",
+  ...overrides,
+});
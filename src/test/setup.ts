@@ -5,7 +5,7 @@
  * Provides DOM matchers and cleanup utilities
  */
 
-import "@testing-library/jest-dom";
+import "@testing-library/jest-dom/vitest";
 
 // Global test utilities and mocks can be added here
 // Example: Mock Next.js router, API calls, etc.
@@ -10,8 +10,16 @@
  * Class I: Low risk devices (e.g., bandages, handheld surgical instruments)
  * Class II: Medium risk devices (e.g., contact lenses, X-ray machines)
  * Class III: High risk devices (e.g., heart valves, implantable pacemakers)
+ * unknown: Unclassified, not classified, or no class in the source record
  */
-export type ProductClass = "I" | "II" | "III";
+export type ProductClass = "I" | "II" | "III" | "unknown";
+
+/**
+ * Where a device record came from
+ * Set when results from several sources are merged (hybrid mode) and on
+ * devices imported from internal lists, which are not in OpenFDA
+ */
+export type DeviceProvenance = "api" | "mock" | "cache" | "internal";
 
 /**
  * Core FDA Device Interface
@@ -42,11 +50,14 @@ export interface FDADevice {
   /** Brief description of device's intended medical use */
   intendedUse: string;
 
-  /** Optional: FDA panel that reviewed the device */
+  /** Optional: FDA panel that reviewed the device, by name (e.g. "Cardiovascular") */
   panelType?: string;
 
   /** Optional: Device regulation number */
   regulationNumber?: string;
+
+  /** Optional: Source of this record when data sources are merged */
+  provenance?: DeviceProvenance;
 }
 
 /**
@@ -70,15 +81,27 @@ export interface DeviceFilters {
   /** Filter by product classification */
   productClass?: ProductClass[];
 
+  /** Filter by three-letter product code */
+  productCode?: string[];
+
+  /** Filter by reviewing panel */
+  panelType?: string[];
+
   /** Filter by date range */
   dateRange?: {
     from: string;
     to: string;
   };
 
+  /** Filter by clearance year */
+  clearanceYears?: number[];
+
   /** Filter by specific manufacturer */
   manufacturer?: string[];
 
   /** Limit number of results */
   limit?: number;
+
+  /** Number of results to skip (pagination offset) */
+  skip?: number;
 }
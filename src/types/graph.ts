@@ -35,6 +35,9 @@ export interface DeviceNodeData extends Record<string, unknown> {
 
     /** Depth in the predicate hierarchy (0 = root device) */
     hierarchyDepth: number;
+
+    /** Whether the device is part of a predicate cycle */
+    inCycle?: boolean;
   };
 }
 
@@ -84,10 +87,10 @@ export interface GraphEdge extends Edge {
   /** Unique identifier for the edge */
   id: string;
 
-  /** Source device K-number (device making the claim) */
+  /** Source device K-number (predicate device) */
   source: string;
 
-  /** Target device K-number (predicate device) */
+  /** Target device K-number (device citing the predicate) */
   target: string;
 
   /** Edge type for React Flow rendering */
@@ -97,15 +100,31 @@ export interface GraphEdge extends Edge {
   data?: PredicateEdgeData;
 }
 
+/**
+ * Rank direction for hierarchical layouts
+ * TB: roots at top, BT: roots at bottom, LR: roots left, RL: roots right
+ */
+export type LayoutDirection = "TB" | "BT" | "LR" | "RL";
+
+/**
+ * Available layout algorithms
+ * dagre: hierarchical, force: force-directed, radial: rings around a focus
+ * device, grid: plain rows for very large graphs
+ */
+export type LayoutAlgorithm = "dagre" | "force" | "radial" | "grid";
+
 /**
  * Layout algorithm configuration options
  */
 export interface LayoutConfig {
   /** Algorithm to use for layout calculation */
-  algorithm: "dagre" | "d3-force" | "manual";
+  algorithm: LayoutAlgorithm;
 
   /** Direction for directed graphs (dagre only) */
-  direction?: "TB" | "BT" | "LR" | "RL";
+  direction?: LayoutDirection;
+
+  /** Device at the center of the layout (radial only) */
+  centerNodeId?: string;
 
   /** Spacing between nodes */
   nodeSpacing?: {
@@ -142,6 +161,36 @@ export interface GraphMetrics {
   /** Average number of predicates per device */
   avgPredicatesPerDevice: number;
 
+  /** Most predicates cited by a single device */
+  maxFanIn: number;
+
+  /** Most devices citing a single predicate */
+  maxFanOut: number;
+
+  /** Predicate citations pointing outside the graph */
+  externalPredicateCount: number;
+
+  /** Number of predicate cycles detected */
+  cycleCount: number;
+
   /** Time taken to calculate layout (in milliseconds) */
   layoutCalculationTime?: number;
 }
+
+/**
+ * Path search between two devices
+ * Defines the endpoints and which paths the path finder returns
+ */
+export interface PathQuery {
+  /** K-number the path starts from */
+  from: string;
+
+  /** K-number the path leads to */
+  to: string;
+
+  /** All shortest paths, or all simple paths up to maxLength hops */
+  mode: "shortest" | "simple";
+
+  /** Hop limit for simple paths */
+  maxLength: number;
+}